@@ -0,0 +1,160 @@
+import { Effect } from 'effect'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { makeOAuth2ApiService } from './oauth2.js'
+
+// Token endpoint errors as Hydra v2 (fosite) answers a random code: fosite authenticates
+// the client before any grant handler runs, so only a known client reaches the grant errors
+const HYDRA_ERRORS = {
+  invalid_grant: {
+    status: 400,
+    body: {
+      error: 'invalid_grant',
+      error_description:
+        'The provided authorization grant (e.g., authorization code, resource owner credentials) or refresh token is invalid, expired, revoked, does not match the redirection URI used in the authorization request, or was issued to another client. The authorization code has not been found.',
+    },
+  },
+  unauthorized_client: {
+    status: 400,
+    body: {
+      error: 'unauthorized_client',
+      error_description:
+        'The client is not authorized to request a token using this method. The OAuth 2.0 Client is not allowed to use authorization grant "authorization_code".',
+    },
+  },
+  invalid_client: {
+    status: 401,
+    body: {
+      error: 'invalid_client',
+      error_description:
+        'Client authentication failed (e.g., unknown client, no client authentication included, or unsupported authentication method). The provided client secret did not match.',
+    },
+  },
+  invalid_request: {
+    status: 400,
+    body: {
+      error: 'invalid_request',
+      error_description:
+        'The request is missing a required parameter, includes an invalid parameter value, includes a parameter more than once, or is otherwise malformed.',
+    },
+  },
+} as const
+
+describe('OAuth2ApiService.authenticateClient', () => {
+  const api = makeOAuth2ApiService({
+    basePath: 'http://hydra:4445',
+    publicBasePath: 'http://hydra:4444',
+    headers: { 'X-Forwarded-Proto': 'https' },
+    accessToken: 'admin-token',
+  })
+
+  const fetchMock = vi.fn()
+
+  const respond = (error: keyof typeof HYDRA_ERRORS) =>
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify(HYDRA_ERRORS[error].body), {
+        status: HYDRA_ERRORS[error].status,
+        headers: { 'Content-Type': 'application/json;charset=UTF-8' },
+      })
+    )
+
+  const lastRequest = () => {
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    return {
+      url,
+      headers: init.headers as Record<string, string>,
+      form: new URLSearchParams(init.body as string),
+    }
+  }
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should send client_secret_basic credentials to the public token endpoint', async () => {
+    respond('invalid_grant')
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        api.authenticateClient({
+          clientId: 'ci-job',
+          authMethod: 'client_secret_basic',
+          clientSecret: 's3cr:t',
+        })
+      )
+    )
+
+    expect(result._tag).toBe('Right')
+    const { url, headers, form } = lastRequest()
+    expect(url).toBe('http://hydra:4444/oauth2/token')
+    expect(headers.Authorization).toBe(
+      `Basic ${Buffer.from('ci-job:s3cr%3At').toString('base64')}`
+    )
+    expect(headers['X-Forwarded-Proto']).toBe('https')
+    expect(form.get('grant_type')).toBe('authorization_code')
+    expect(form.get('code')).toBeTruthy()
+    expect(form.has('client_secret')).toBe(false)
+  })
+
+  it('should send client_secret_post credentials in the body without the admin token', async () => {
+    respond('unauthorized_client')
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        api.authenticateClient({
+          clientId: 'ci-job',
+          authMethod: 'client_secret_post',
+          clientSecret: 'secret',
+        })
+      )
+    )
+
+    expect(result._tag).toBe('Right')
+    const { headers, form } = lastRequest()
+    expect(headers.Authorization).toBeUndefined()
+    expect(form.get('client_id')).toBe('ci-job')
+    expect(form.get('client_secret')).toBe('secret')
+  })
+
+  it('should fail when Hydra rejects the client or the request', async () => {
+    const authenticate = () =>
+      Effect.runPromise(
+        Effect.either(
+          api.authenticateClient({
+            clientId: 'ci-job',
+            authMethod: 'client_secret_post',
+            clientSecret: 'guess',
+          })
+        )
+      )
+
+    respond('invalid_client')
+    const rejected = await authenticate()
+    respond('invalid_request')
+    const malformed = await authenticate()
+
+    expect(rejected).toMatchObject({ _tag: 'Left', left: { _tag: 'HttpStatusError', status: 401 } })
+    expect(malformed).toMatchObject({ _tag: 'Left', left: { _tag: 'HttpStatusError', status: 400 } })
+  })
+
+  it('should fail with a configuration error without Hydra\'s public URL', async () => {
+    const adminOnly = makeOAuth2ApiService({ basePath: 'http://hydra:4445' })
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        adminOnly.authenticateClient({
+          clientId: 'ci-job',
+          authMethod: 'client_secret_post',
+          clientSecret: 'secret',
+        })
+      )
+    )
+
+    expect(result._tag === 'Left' && result.left._tag).toBe('ConfigurationError')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
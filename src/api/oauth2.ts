@@ -2,8 +2,9 @@
  * Local OAuth2 API implementation using Effect
  * Converts @ory/client-fetch OAuth2Api calls to Effect-based operations
  */
-import { Effect, Context, Layer } from 'effect'
-import { HttpStatusError, NetworkError } from '../fp/errors.js'
+import crypto from 'crypto'
+import { Effect, Context, Layer, pipe } from 'effect'
+import { ConfigurationError, HttpStatusError, NetworkError } from '../fp/errors.js'
 import type { HttpError} from '../fp/errors.js';
 import type {
   AcceptDeviceUserCodeRequest,
@@ -13,6 +14,7 @@ import type {
   ErrorOAuth2,
   IntrospectedOAuth2Token,
   JsonPatch,
+  JsonWebKeySet,
   OAuth2Client,
   OAuth2ClientTokenLifespans,
   OAuth2ConsentRequest,
@@ -31,6 +33,7 @@ import type {
  */
 export interface OAuth2ApiConfig {
   basePath: string
+  publicBasePath?: string // Hydra's public port, where clients authenticate at the token endpoint
   headers?: Record<string, string>
   accessToken?: string | ((name: string, scopes?: string[]) => string | Promise<string>)
 }
@@ -67,6 +70,22 @@ const wrapFetch = <A>(
     },
   })
 
+/**
+ * Whether the token endpoint rejected the grant of an authenticated client,
+ * as opposed to the client authentication itself
+ */
+const isGrantRejection = (error: HttpStatusError): boolean => {
+  if (error.status !== 400 || typeof error.body !== 'string') {
+    return false
+  }
+  try {
+    const { error: code } = JSON.parse(error.body) as ErrorOAuth2
+    return code === 'invalid_grant' || code === 'unauthorized_client'
+  } catch {
+    return false
+  }
+}
+
 /**
  * OAuth2 API Service interface
  */
@@ -177,6 +196,12 @@ export interface OAuth2ApiService {
     refreshToken?: string
   }) => Effect.Effect<OAuth2TokenExchange, HttpError>
 
+  readonly authenticateClient: (params: {
+    clientId: string
+    authMethod: 'client_secret_basic' | 'client_secret_post'
+    clientSecret: string
+  }) => Effect.Effect<void, HttpError | ConfigurationError>
+
   // Session management
   readonly listConsentSessions: (params: {
     subject: string
@@ -216,6 +241,8 @@ export interface OAuth2ApiService {
     id: string
   ) => Effect.Effect<void, HttpError>
 
+  readonly getJsonWebKey: (set: string, kid: string) => Effect.Effect<JsonWebKeySet, HttpError>
+
   // Authorization endpoints
   readonly authorize: () => Effect.Effect<ErrorOAuth2, HttpError>
 }
@@ -336,11 +363,15 @@ export const makeOAuth2ApiService = (config: OAuth2ApiConfig): OAuth2ApiService
   const fetchForm = <A>(
     method: string,
     path: string,
-    formData: Record<string, string>
+    formData: Record<string, string>,
+    extraHeaders?: Record<string, string>
   ): Effect.Effect<A, HttpError> =>
     wrapFetch(
       async () => {
-        const headers = await buildHeaders('application/x-www-form-urlencoded')
+        const headers = {
+          ...(await buildHeaders('application/x-www-form-urlencoded')),
+          ...extraHeaders,
+        }
         const url = buildUrl(path)
         const body = new URLSearchParams(formData).toString()
 
@@ -351,7 +382,10 @@ export const makeOAuth2ApiService = (config: OAuth2ApiConfig): OAuth2ApiService
         })
       },
       `${method} ${path}`,
-      async (response) => response.json()
+      async (response) => {
+        const text = await response.text()
+        return text ? JSON.parse(text) : undefined
+      }
     )
 
   return {
@@ -478,6 +512,53 @@ export const makeOAuth2ApiService = (config: OAuth2ApiConfig): OAuth2ApiService
         ...(params.refreshToken && { refresh_token: params.refreshToken }),
       }),
 
+    // Hydra authenticates the client before it looks at the grant, so a random code is
+    // answered with invalid_grant (or unauthorized_client) for valid credentials, and with
+    // 401 invalid_client otherwise
+    authenticateClient: (params) => {
+      if (!config.publicBasePath) {
+        return Effect.fail(
+          new ConfigurationError({
+            message: 'OAuth2ApiConfig.publicBasePath is required to authenticate clients',
+          })
+        )
+      }
+
+      const url = new URL('/oauth2/token', config.publicBasePath).toString()
+      const form: Record<string, string> = {
+        grant_type: 'authorization_code',
+        code: crypto.randomBytes(32).toString('base64url'),
+        ...(params.authMethod === 'client_secret_post' && {
+          client_id: params.clientId,
+          client_secret: params.clientSecret,
+        }),
+      }
+      const credentials = [params.clientId, params.clientSecret].map(encodeURIComponent).join(':')
+
+      return pipe(
+        wrapFetch(
+          async () =>
+            fetch(url, {
+              method: 'POST',
+              headers: {
+                ...config.headers,
+                'Content-Type': 'application/x-www-form-urlencoded',
+                ...(params.authMethod === 'client_secret_basic' && {
+                  Authorization: `Basic ${Buffer.from(credentials).toString('base64')}`,
+                }),
+              },
+              body: new URLSearchParams(form).toString(),
+            }),
+          'POST /oauth2/token',
+          async () => undefined
+        ),
+        Effect.catchIf(
+          (error) => error._tag === 'HttpStatusError' && isGrantRejection(error),
+          () => Effect.void
+        )
+      )
+    },
+
     // Session management
     listConsentSessions: (params) =>
       fetchJSON<OAuth2ConsentSession[]>('GET', '/admin/oauth2/auth/sessions/consent', {
@@ -543,6 +624,13 @@ export const makeOAuth2ApiService = (config: OAuth2ApiConfig): OAuth2ApiService
     deleteTrustedJwtGrantIssuer: (id) =>
       fetchVoid('DELETE', `/admin/trust/grants/jwt-bearer/issuers/${id}`),
 
+    // Public keys of trusted issuers are kept in key sets of their own
+    getJsonWebKey: (set, kid) =>
+      fetchJSON<JsonWebKeySet>(
+        'GET',
+        `/admin/keys/${encodeURIComponent(set)}/${encodeURIComponent(kid)}`
+      ),
+
     // Authorization endpoints
     authorize: () => fetchJSON<ErrorOAuth2>('GET', '/oauth2/auth'),
   }
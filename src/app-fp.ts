@@ -7,12 +7,14 @@ import bodyParser from 'body-parser'
 import cookieParser from 'cookie-parser'
 import express from 'express'
 import session from 'express-session'
-import { OAuth2Client as GoogleOAuth2Client } from 'google-auth-library'
 import { Redis } from 'ioredis'
 import favicon from 'serve-favicon'
 import { v4 } from 'uuid'
 import { PgStore, appConfig } from './config.js'
 import { createAppLayer } from './fp/bootstrap.js'
+import { getJWKSUri } from './fp/services/jwt.js'
+import { createSigningKeyStore } from './fp/services/keystore.js'
+import { makeTokenVault } from './fp/services/vault.js'
 import { syncLogger } from './logging-effect.js'
 import { requestLogger } from './middleware/requestLogger.js'
 import pool from './pool.js'
@@ -24,7 +26,7 @@ import { createLoginRouter } from './routes/login-fp.js'
 import { createLogoutRouter } from './routes/logout-fp.js'
 import { createTokenRouter } from './routes/passthrough-auth-fp.js'
 import { createValidateTokenRouter } from './routes/validate-token-fp.js'
-import { OAuth2ApiLayer } from './setup/hydra.js'
+import { createWellKnownRouter } from './routes/well-known-fp.js'
 import proxyMiddleware from './setup/proxy.js'
 import { ErrorPage } from './views/index.js'
 import type { NextFunction, Response, Request } from 'express'
@@ -38,13 +40,6 @@ const redisClient = new Redis({
   port: appConfig.redisPort,
 })
 
-// Create Google OAuth2 client
-const googleClient = new GoogleOAuth2Client({
-  clientId: appConfig.googleClientId,
-  clientSecret: appConfig.googleClientSecret,
-  redirectUri: appConfig.middlewareRedirectUri,
-})
-
 // Create OAuth2 API configuration
 const headers: Record<string, string> = {}
 if (process.env.MOCK_TLS_TERMINATION) {
@@ -52,6 +47,7 @@ if (process.env.MOCK_TLS_TERMINATION) {
 }
 const oauth2Config = {
   basePath: appConfig.hydraInternalAdmin,
+  publicBasePath: appConfig.hydraInternalUrl,
   headers,
 }
 
@@ -62,18 +58,67 @@ const serviceLayer = createAppLayer(redisClient, oauth2Config, {
   jwtIssuer: appConfig.jwtIssuer,
   jwtAudience: appConfig.jwtAudience,
   jwtProvider: appConfig.jwtProvider,
+  protectedResources: appConfig.protectedResources,
+  signingKeyStore: appConfig.signingKeys && createSigningKeyStore(appConfig.signingKeys, pool),
+  tokenVault: appConfig.upstreamTokenKeys && makeTokenVault(appConfig.upstreamTokenKeys),
   hydraPublicUrl: appConfig.hydraPublicUrl,
   hydraAdminUrl: appConfig.hydraInternalAdmin,
+  baseUrl: appConfig.hostName,
+  upstream: appConfig.upstream,
 })
 
 // Create config objects for routes
+const loginConfig = {
+  middlewareRedirectUri: appConfig.middlewareRedirectUri,
+  loginMode: appConfig.loginMode,
+}
+
 const consentConfig = {
-  googleClientId: appConfig.googleClientId ?? '',
+  middlewareRedirectUri: appConfig.middlewareRedirectUri,
+  loginMode: appConfig.loginMode,
+}
+
+const deviceConfig = {
   middlewareRedirectUri: appConfig.middlewareRedirectUri,
 }
 
 const callbackConfig = {
   middlewareRedirectUri: appConfig.middlewareRedirectUri,
+  loginMode: appConfig.loginMode,
+}
+
+const tokenConfig = {
+  refreshTokens: appConfig.refreshTokens,
+  revokeUpstreamTokens: appConfig.revokeUpstreamTokens,
+  introspection: appConfig.introspection,
+  protectedResources: appConfig.protectedResources,
+  accessTokenFormat: appConfig.accessTokenFormat,
+  // JWT bearer assertions name our token endpoint or issuer as audience (RFC 7523 §3)
+  assertionAudiences: [
+    `${appConfig.hostName.replace(/\/$/, '')}/oauth2/token`,
+    appConfig.jwtIssuer,
+  ],
+  deviceVerificationUri: `${appConfig.hostName.replace(/\/$/, '')}/device/verify`,
+  tokenEndpoint: `${appConfig.hostName.replace(/\/$/, '')}/oauth2/token`,
+}
+
+const jwksUri = getJWKSUri({
+  provider: appConfig.jwtProvider,
+  hydraPublicUrl: appConfig.hydraPublicUrl,
+  baseUrl: appConfig.hostName,
+})
+
+const metadataConfig = {
+  baseUrl: appConfig.hostName,
+  issuer: appConfig.jwtIssuer,
+  hydraInternalUrl: appConfig.hydraInternalUrl,
+  jwksUri,
+  introspection: appConfig.introspection !== undefined,
+}
+
+const protectedResourceConfig = {
+  baseUrl: appConfig.hostName,
+  resources: appConfig.protectedResources,
 }
 
 const logoutConfig = {
@@ -117,12 +162,13 @@ app.use(addUniqueToken)
 // All templates use @kitajs/html for type-safe, functional rendering
 // CSRF tokens are generated per-request and passed to templates
 app.use('/', createIndexRouter(serviceLayer))
-app.use('/login', createLoginRouter(serviceLayer))
+app.use('/', createWellKnownRouter(serviceLayer, metadataConfig, protectedResourceConfig))
+app.use('/login', createLoginRouter(serviceLayer, loginConfig))
 app.use('/logout', createLogoutRouter(serviceLayer, logoutConfig))
 app.use('/consent', createConsentRouter(serviceLayer, consentConfig))
-app.use('/callback', createCallbackRouter(serviceLayer, googleClient, callbackConfig))
-app.use('/oauth2', createTokenRouter(serviceLayer))
-app.use('/device', createDeviceRouter(OAuth2ApiLayer))
+app.use('/callback', createCallbackRouter(serviceLayer, callbackConfig))
+app.use('/oauth2', createTokenRouter(serviceLayer, tokenConfig))
+app.use('/device', createDeviceRouter(serviceLayer, deviceConfig))
 app.use('/validate-token', createValidateTokenRouter(serviceLayer))
 
 // Error handlers (same as original)
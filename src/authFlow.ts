@@ -4,7 +4,10 @@ import { OAuth2ApiService } from './api/oauth2.js'
 import { appConfig } from './config.js';
 import { HttpStatusError, type HttpError } from './fp/errors.js';
 import { validateCreateClient } from "./fp/validation.js";
-import type { OAuth2Client as OryOAuth2Client } from "@ory/client-fetch";
+import type {
+  JsonWebKey as OryJsonWebKey,
+  OAuth2Client as OryOAuth2Client,
+} from "@ory/client-fetch";
 
 
 export const newClient = (
@@ -61,3 +64,37 @@ export const createClient = (clientId:string) =>
       validateCreateClient(clientId, clientIds)
     )
   )
+
+// Issuers trusted for the JWT bearer grant (RFC 7523)
+export const listTrustedIssuers = () =>
+  pipe(
+    OAuth2ApiService,
+    Effect.flatMap((api) => api.listTrustedJwtGrantIssuers())
+  )
+
+// Subject '*' lets the issuer assert any subject
+export const trustIssuer = (params: {
+  issuer: string
+  subject: string
+  jwk: OryJsonWebKey
+  scope: string[]
+  expiresAt: Date
+}) =>
+  pipe(
+    OAuth2ApiService,
+    Effect.flatMap((api) =>
+      api.trustJwtGrantIssuer({
+        issuer: params.issuer,
+        jwk: params.jwk,
+        scope: params.scope,
+        expires_at: params.expiresAt,
+        ...(params.subject === '*' ? { allow_any_subject: true } : { subject: params.subject }),
+      })
+    )
+  )
+
+export const deleteTrustedIssuer = (id: string) =>
+  pipe(
+    OAuth2ApiService,
+    Effect.flatMap((api) => api.deleteTrustedJwtGrantIssuer(id))
+  )
@@ -1,15 +1,21 @@
 #!/usr/bin/env node
 /**
  * CLI tool to validate JWT tokens and show JWKS information
+ * Opaque access tokens are resolved in Redis instead
  * Usage: npm run validate-token <jwt-token>
  * Or: ts-node src/cli-validate-token.ts <jwt-token>
  */
-import { Effect } from 'effect'
+import { Effect, Layer } from 'effect'
+import { Redis } from 'ioredis'
 import { decodeJwt, decodeProtectedHeader } from 'jose'
-import axios from 'axios'
 import { appConfig } from './config.js'
-import { JWTService, JWTServiceLive, type JWKS } from './fp/services/jwt.js'
+import { isOpaqueToken } from './fp/services/access-token.js'
+import { JWTService, JWTServiceLive, getJWKSUri, type JWKS } from './fp/services/jwt.js'
+import { createSigningKeyStore } from './fp/services/keystore.js'
+import { RedisServiceLive } from './fp/services/redis.js'
+import { verifyAccessToken } from './fp/services/revocation.js'
 import { syncLogger } from './logging-effect.js'
+import pool from './pool.js'
 
 // Get token from command line
 const token = process.argv[2]
@@ -22,69 +28,103 @@ if (!token) {
 
 console.log('\n=== JWT Token Validation Tool ===\n')
 
+const opaque = isOpaqueToken(token)
+
 // Decode token header and payload (without verification)
-try {
-  const header = decodeProtectedHeader(token)
-  const payload = decodeJwt(token)
-
-  console.log('📋 Token Header:')
-  console.log(JSON.stringify(header, null, 2))
-  console.log('\n📋 Token Claims (unverified):')
-  console.log(JSON.stringify(payload, null, 2))
-  console.log()
-
-  if (header.kid) {
-    console.log(`🔑 Token uses Key ID (kid): ${header.kid}`)
-  } else {
-    console.log('⚠️  Warning: Token has no kid in header')
+if (opaque) {
+  console.log('🔑 Opaque access token, its claims are stored in Redis')
+} else {
+  try {
+    const header = decodeProtectedHeader(token)
+    const payload = decodeJwt(token)
+
+    console.log('📋 Token Header:')
+    console.log(JSON.stringify(header, null, 2))
+    console.log('\n📋 Token Claims (unverified):')
+    console.log(JSON.stringify(payload, null, 2))
+    console.log()
+
+    if (header.kid) {
+      console.log(`🔑 Token uses Key ID (kid): ${header.kid}`)
+    } else {
+      console.log('⚠️  Warning: Token has no kid in header')
+    }
+  } catch (error) {
+    console.error('❌ Failed to decode token:', error)
+    process.exit(1)
   }
-} catch (error) {
-  console.error('❌ Failed to decode token:', error)
-  process.exit(1)
 }
 
 // Fetch JWKS based on configured provider
-const jwksUrl = appConfig.jwtProvider === 'google'
-  ? 'https://www.googleapis.com/oauth2/v3/certs'
-  : `${appConfig.hydraPublicUrl}/.well-known/jwks.json`
+const jwksUrl = getJWKSUri({
+  provider: appConfig.jwtProvider,
+  hydraPublicUrl: appConfig.hydraPublicUrl,
+  baseUrl: appConfig.hostName,
+})
 
 console.log(`\n📥 Fetching JWKS from ${appConfig.jwtProvider.toUpperCase()}...`)
 console.log(`   URL: ${jwksUrl}`)
 
+// Create JWT service, its JWKS cache serves both the listing and the verification below
+const jwtService = JWTServiceLive({
+  provider: appConfig.jwtProvider,
+  issuer: appConfig.jwtIssuer,
+  audience: appConfig.jwtAudience,
+  resources: appConfig.protectedResources.map(({ resource }) => resource),
+  hydraPublicUrl: appConfig.hydraPublicUrl,
+  hydraAdminUrl: appConfig.hydraInternalAdmin,
+  baseUrl: appConfig.hostName,
+  keyStore: appConfig.signingKeys && createSigningKeyStore(appConfig.signingKeys, pool),
+})
+
 const fetchJWKS = async (): Promise<JWKS> => {
   try {
-    const response = await axios.get<JWKS>(jwksUrl)
-    return response.data
+    return await Effect.runPromise(
+      Effect.provide(
+        Effect.flatMap(JWTService, (jwt) => jwt.getJWKS()),
+        jwtService
+      )
+    )
   } catch (error) {
     throw new Error(`Failed to fetch JWKS: ${String(error)}`)
   }
 }
 
+// Resolve an opaque token in Redis, rejecting revoked ones
+const resolveOpaqueToken = async () => {
+  const redisClient = new Redis({
+    host: appConfig.redisHost,
+    port: appConfig.redisPort,
+  })
+
+  try {
+    return await Effect.runPromise(
+      Effect.provide(verifyAccessToken(token), Layer.merge(RedisServiceLive(redisClient), jwtService))
+    )
+  } finally {
+    redisClient.disconnect()
+  }
+}
+
 // Verify token using JWT service
+// The exit code is set instead of exiting, so the database pool is always closed
 const validateToken = async () => {
   try {
     // Fetch and display JWKS
-    const jwks = await fetchJWKS()
-    console.log('\n🔐 Available Keys in JWKS:')
-    jwks.keys.forEach((key, index) => {
-      console.log(`   Key ${index + 1}:`)
-      console.log(`     - kid: ${key.kid}`)
-      console.log(`     - kty: ${key.kty}`)
-      console.log(`     - alg: ${key.alg}`)
-      console.log(`     - use: ${key.use}`)
-      if (key.n) {
-        console.log(`     - n (modulus): ${key.n.substring(0, 40)}...`)
-      }
-    })
-
-    // Create JWT service
-    const jwtService = JWTServiceLive({
-      provider: appConfig.jwtProvider,
-      issuer: appConfig.jwtIssuer,
-      audience: appConfig.jwtAudience,
-      hydraPublicUrl: appConfig.hydraPublicUrl,
-      hydraAdminUrl: appConfig.hydraInternalAdmin,
-    })
+    if (!opaque) {
+      const jwks = await fetchJWKS()
+      console.log('\n🔐 Available Keys in JWKS:')
+      jwks.keys.forEach((key, index) => {
+        console.log(`   Key ${index + 1}:`)
+        console.log(`     - kid: ${key.kid}`)
+        console.log(`     - kty: ${key.kty}`)
+        console.log(`     - alg: ${key.alg}`)
+        console.log(`     - use: ${key.use}`)
+        if (key.n) {
+          console.log(`     - n (modulus): ${key.n.substring(0, 40)}...`)
+        }
+      })
+    }
 
     console.log('\n✅ Verifying token...')
 
@@ -95,7 +135,9 @@ const validateToken = async () => {
       return claims
     })
 
-    const claims = await Effect.runPromise(Effect.provide(program, jwtService))
+    const claims = opaque
+      ? await resolveOpaqueToken()
+      : await Effect.runPromise(Effect.provide(program, jwtService))
 
     console.log('\n✅ Token is VALID!')
     console.log('\n📋 Verified Claims:')
@@ -121,7 +163,6 @@ const validateToken = async () => {
     }
 
     console.log('\n✨ Token validation complete!\n')
-    process.exit(0)
   } catch (error) {
     console.error('\n❌ Token Verification Failed!')
     console.error(`   Error: ${String(error)}`)
@@ -131,7 +172,9 @@ const validateToken = async () => {
     console.error('   - Token issuer/audience does not match')
     console.error('   - Token was not signed with a key in the JWKS')
     console.error()
-    process.exit(1)
+    process.exitCode = 1
+  } finally {
+    await pool.end()
   }
 }
 
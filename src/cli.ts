@@ -7,14 +7,22 @@
  *   npm run cli -- get-client <client-id>
  *   npm run cli -- create-client <client-name>
  *   npm run cli -- new-client <client-name>
+ *   npm run cli -- reseal-upstream-tokens
+ *   npm run cli -- list-trusted-issuers
+ *   npm run cli -- trust-issuer <issuer> <subject|*> <jwk-file> <scope> [days]
+ *   npm run cli -- delete-trusted-issuer <id>
  */
 
+import { readFileSync } from 'fs'
 import { Effect, Exit, Cause, Layer, Schema, Logger, pipe } from 'effect'
+import { Redis } from 'ioredis'
 import { type OAuth2ApiService, OAuth2ApiServiceLive } from './api/oauth2.js'
 import * as authFlow from './authFlow.js'
 import { appConfig } from './config.js'
 import { createLoggerLayer } from './fp/bootstrap.js'
 import { HttpStatusError, NetworkError, type ParseError } from './fp/errors.js'
+import { RedisService, RedisServiceLive, createOAuthRedisOps } from './fp/services/redis.js'
+import { makeTokenVault } from './fp/services/vault.js'
 
 
 /**
@@ -223,6 +231,63 @@ const commands: Record<string, CommandHandler> = {
     printResult(exit)
   },
 
+  'list-trusted-issuers': async () => {
+    Effect.logInfo('Listing trusted JWT bearer issuers...')
+    const program = authFlow.listTrustedIssuers()
+    const exit = await runEffect(program)
+    printResult(exit)
+  },
+
+  'trust-issuer': async (issuer: string, subject: string, jwkFile: string, scope: string, days = '365') => {
+    if (!issuer || !subject || !jwkFile || !scope) {
+      Effect.logError('Error: issuer, subject, jwk-file and scope are required')
+      Effect.logError('Usage: cli trust-issuer <issuer> <subject|*> <jwk-file> <scope> [days]')
+      process.exit(1)
+    }
+    Effect.logInfo(`Trusting issuer ${issuer} for subject ${subject}...`)
+    const program = authFlow.trustIssuer({
+      issuer,
+      subject,
+      jwk: JSON.parse(readFileSync(jwkFile, 'utf8')),
+      scope: scope.split(' ').filter((s) => s.length > 0),
+      expiresAt: new Date(Date.now() + Number(days) * 24 * 60 * 60 * 1000),
+    })
+    const exit = await runEffect(program)
+    printResult(exit)
+  },
+
+  'delete-trusted-issuer': async (id: string) => {
+    if (!id) {
+      Effect.logError('Error: id is required')
+      Effect.logError('Usage: cli delete-trusted-issuer <id>')
+      process.exit(1)
+    }
+    Effect.logInfo(`Deleting trusted issuer: ${id}...`)
+    const program = authFlow.deleteTrustedIssuer(id)
+    const exit = await runEffect(program)
+    printResult(exit)
+  },
+
+  'reseal-upstream-tokens': async () => {
+    if (!appConfig.upstreamTokenKeys) {
+      Effect.logError('Error: UPSTREAM_TOKEN_KEYS is not configured')
+      process.exit(1)
+    }
+    const vault = makeTokenVault(appConfig.upstreamTokenKeys)
+    Effect.logInfo(`Resealing upstream tokens with key ${vault.currentVersion}...`)
+    const redisClient = new Redis({
+      host: appConfig.redisHost,
+      port: appConfig.redisPort,
+    })
+    const program = pipe(
+      RedisService,
+      Effect.flatMap((redis) => createOAuthRedisOps(redis).resealUpstreamTokens()),
+      Effect.provide(Layer.merge(createLoggerLayer(), RedisServiceLive(redisClient, vault)))
+    )
+    const exit = await Effect.runPromiseExit(program).finally(() => redisClient.disconnect())
+    printResult(exit)
+  },
+
   'help': async () => {
     Effect.logInfo(`
 CLI for running Effect functions from authFlow
@@ -235,6 +300,12 @@ Commands:
   safe-get-client <id>      Get a client with error handling
   create-client <id>        Create client with validation
   new-client <name>         Create a new OAuth2 client
+  reseal-upstream-tokens    Re-encrypt upstream tokens with the current key
+  list-trusted-issuers      List issuers trusted for the JWT bearer grant
+  trust-issuer <issuer> <subject|*> <jwk-file> <scope> [days]
+                            Trust an issuer's public key for JWT bearer assertions
+  delete-trusted-issuer <id>
+                            Stop trusting an issuer
   'help': async () => {
     const helpText = [
       'CLI for running Effect functions from authFlow',
@@ -247,6 +318,12 @@ Commands:
       '  safe-get-client <id>      Get a client with error handling',
       '  create-client <id>        Create client with validation',
       '  new-client <n>            Create a new OAuth2 client',
+      '  reseal-upstream-tokens    Re-encrypt upstream tokens with the current key',
+      '  list-trusted-issuers      List issuers trusted for the JWT bearer grant',
+      '  trust-issuer <issuer> <subject|*> <jwk-file> <scope> [days]',
+      '                            Trust an issuer\'s public key for JWT bearer assertions',
+      '  delete-trusted-issuer <id>',
+      '                            Stop trusting an issuer',
       '  help                      Show this help message',
       '',
       'Examples:',
@@ -258,6 +335,7 @@ Commands:
       '  Requires proper configuration in env files',
       '  - HYDRA_ADMIN_URL for Ory Hydra admin endpoint',
       '  - BASE_URL for application base URL',
+      '  - UPSTREAM_TOKEN_KEYS for reseal-upstream-tokens',
     ].join('\n')
     Effect.logError(helpText)
 `)
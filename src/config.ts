@@ -25,6 +25,14 @@ export const appConfig = (() => {
     secure: config.security.secure,
     googleClientId: config.google.clientId,
     googleClientSecret: config.google.clientSecret,
+    upstreamProvider: config.upstream.provider,
+    loginMode: config.loginMode,
+    refreshTokens: config.refreshTokens,
+    revokeUpstreamTokens: config.revokeUpstreamTokens,
+    introspection: config.introspection,
+    protectedResources: config.protectedResources,
+    signingKeys: config.signingKeys,
+    upstreamTokenKeys: config.upstreamTokenKeys,
     csrfTokenName: config.security.csrfTokenName,
     xsrfHeaderName: config.security.xsrfHeaderName,
     redisHost: config.redis.host,
@@ -33,6 +41,7 @@ export const appConfig = (() => {
     jwtIssuer: config.security.jwtIssuer,
     jwtAudience: config.security.jwtAudience,
     jwtProvider: config.security.jwtProvider,
+    accessTokenFormat: config.security.accessTokenFormat,
   }
 })()
 
@@ -80,5 +89,14 @@ syncLogger.info('Configuration loaded', {
   hydraAdminUrl: appConfig.hydraInternalAdmin,
   redisHost: appConfig.redisHost,
   redisPort: appConfig.redisPort,
+  upstreamProvider: appConfig.upstreamProvider,
+  loginMode: appConfig.loginMode,
+  refreshTokenRotation: appConfig.refreshTokens.rotation,
   hasGoogleCredentials: !!(appConfig.googleClientId && appConfig.googleClientSecret),
+  hasIntrospectionCredential: !!appConfig.introspection,
+  protectedResources: appConfig.protectedResources.map(({ resource }) => resource),
+  jwtProvider: appConfig.jwtProvider,
+  accessTokenFormat: appConfig.accessTokenFormat,
+  signingKeyStore: appConfig.signingKeys?.store,
+  upstreamTokenKeyVersion: appConfig.upstreamTokenKeys?.currentVersion,
 })
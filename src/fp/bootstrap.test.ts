@@ -8,6 +8,7 @@ import {
 import { GoogleOAuthService } from './services/google.js'
 import { HydraService } from './services/hydra.js'
 import { RedisService } from './services/redis.js'
+import { UpstreamIdP } from './services/upstream.js'
 import type { Redis } from 'ioredis'
 
 // Mock Redis client
@@ -103,6 +104,26 @@ describe('bootstrap', () => {
       expect(result.getUserInfo).toBeDefined()
     })
 
+    it('should provide UpstreamIdP in the layer', async () => {
+      const appLayer = createAppLayer(
+        mockRedis,
+        mockOAuth2Config,
+        mockGoogleConfig
+      )
+
+      const program = Effect.gen(function* () {
+        const upstream = yield* UpstreamIdP
+        return upstream
+      })
+
+      const result = await Effect.runPromise(Effect.provide(program, appLayer))
+
+      expect(result.provider).toBe('google')
+      expect(result.buildAuthUrl).toBeDefined()
+      expect(result.exchangeCode).toBeDefined()
+      expect(result.refreshToken).toBeDefined()
+    })
+
     it('should provide HydraService in the layer', async () => {
       const appLayer = createAppLayer(
         mockRedis,
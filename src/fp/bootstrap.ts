@@ -7,10 +7,20 @@ import { OAuth2Api } from '@ory/hydra-client-fetch/dist/index.js'
 import { Layer } from 'effect'
 import { OAuth2ApiServiceLive, type OAuth2ApiConfig } from '../api/oauth2.js'
 import { createLoggerLayer as createEffectLoggerLayer } from '../logging-effect.js'
-import { GoogleOAuthServiceLive } from './services/google.js'
+import { makeGitHubOAuthService, makeGitHubUpstreamIdP } from './services/github.js'
+import {
+  GoogleOAuthServiceLive,
+  makeGoogleOAuthService,
+  makeGoogleUpstreamIdP,
+} from './services/google.js'
 import { HydraServiceLive } from './services/hydra.js'
 import { JWTServiceLive } from './services/jwt.js'
+import { makeOidcUpstreamIdP } from './services/oidc.js'
 import { RedisServiceLive } from './services/redis.js'
+import { UpstreamIdPLive } from './services/upstream.js'
+import type { JWTProvider, ProtectedResource, UpstreamConfig } from './config.js'
+import type { SigningKeyStore } from './services/keystore.js'
+import type { TokenVault } from './services/vault.js'
 import type { Redis } from 'ioredis'
 
 /**
@@ -31,6 +41,59 @@ export interface AppConfig {
   hostName: string
 }
 
+/**
+ * Create the UpstreamIdP layer for the configured provider
+ */
+export const createUpstreamLayer = (
+  upstream: UpstreamConfig,
+  config: {
+    googleClientId: string
+    googleClientSecret: string
+  }
+) => {
+  switch (upstream.provider) {
+    case 'google': {
+      const google = makeGoogleOAuthService({
+        clientId: config.googleClientId,
+        clientSecret: config.googleClientSecret,
+      })
+      return UpstreamIdPLive(
+        makeGoogleUpstreamIdP(google, {
+          clientId: config.googleClientId,
+          scope: upstream.scope,
+        })
+      )
+    }
+    case 'oidc': {
+      if (!upstream.oidc) {
+        throw new Error('UPSTREAM_PROVIDER=oidc requires OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET')
+      }
+      return UpstreamIdPLive(
+        makeOidcUpstreamIdP({
+          ...upstream.oidc,
+          scope: upstream.scope,
+        })
+      )
+    }
+    case 'github': {
+      if (!upstream.github) {
+        throw new Error('UPSTREAM_PROVIDER=github requires GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET')
+      }
+      const github = makeGitHubOAuthService({
+        clientId: upstream.github.clientId,
+        clientSecret: upstream.github.clientSecret,
+      })
+      return UpstreamIdPLive(
+        makeGitHubUpstreamIdP(github, {
+          clientId: upstream.github.clientId,
+          scope: upstream.scope,
+          allowedOrgs: upstream.github.allowedOrgs,
+        })
+      )
+    }
+  }
+}
+
 /**
  * Create the complete application service layer from existing infrastructure
  */
@@ -42,12 +105,17 @@ export const createAppLayer = (
     googleClientSecret: string
     jwtIssuer: string
     jwtAudience: string
-    jwtProvider: 'hydra' | 'google'
+    jwtProvider: JWTProvider
+    protectedResources?: ReadonlyArray<ProtectedResource>
+    signingKeyStore?: SigningKeyStore
+    tokenVault?: TokenVault
     hydraPublicUrl: string
     hydraAdminUrl: string
+    baseUrl?: string
+    upstream?: UpstreamConfig
   }
 ) => {
-  const redisLayer = RedisServiceLive(redisClient)
+  const redisLayer = RedisServiceLive(redisClient, config.tokenVault)
   const googleLayer = GoogleOAuthServiceLive({
     clientId: config.googleClientId,
     clientSecret: config.googleClientSecret,
@@ -56,9 +124,16 @@ export const createAppLayer = (
     provider: config.jwtProvider,
     issuer: config.jwtIssuer,
     audience: config.jwtAudience,
+    resources: config.protectedResources?.map(({ resource }) => resource),
     hydraPublicUrl: config.hydraPublicUrl,
     hydraAdminUrl: config.hydraAdminUrl,
+    baseUrl: config.baseUrl ?? config.jwtIssuer,
+    keyStore: config.signingKeyStore,
   })
+  const upstreamLayer = createUpstreamLayer(
+    config.upstream ?? { provider: 'google', scope: 'openid profile email' },
+    config
+  )
   const oauth2ApiLayer = OAuth2ApiServiceLive(oauth2Config)
   const loggerLayer = createEffectLoggerLayer()
 
@@ -71,5 +146,13 @@ export const createAppLayer = (
   const hydraLayer = HydraServiceLive(hydraClient)
 
   // Merge all service layers
-  return Layer.mergeAll(redisLayer, googleLayer, jwtLayer, oauth2ApiLayer, hydraLayer, loggerLayer)
+  return Layer.mergeAll(
+    redisLayer,
+    googleLayer,
+    upstreamLayer,
+    jwtLayer,
+    oauth2ApiLayer,
+    hydraLayer,
+    loggerLayer
+  )
 }
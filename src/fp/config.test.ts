@@ -260,4 +260,204 @@ describe('fp/config', () => {
       expect(result.environment).toBe('local')
     })
   })
+
+  describe('UpstreamConfig', () => {
+    it('should default to the google upstream provider', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      delete process.env.UPSTREAM_PROVIDER
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.upstream.provider).toBe('google')
+      expect(result.upstream.scope).toBe('openid profile email')
+    })
+
+    it('should reject an unknown upstream provider', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.UPSTREAM_PROVIDER = 'myspace'
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+
+    it('should load the generic OIDC upstream settings', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.UPSTREAM_PROVIDER = 'oidc'
+      process.env.OIDC_ISSUER = 'https://idp.example.com'
+      process.env.OIDC_CLIENT_ID = 'oidc-client'
+      process.env.OIDC_CLIENT_SECRET = 'oidc-secret'
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.upstream.provider).toBe('oidc')
+      expect(result.upstream.oidc?.issuer).toBe('https://idp.example.com')
+      expect(result.upstream.oidc?.tokenEndpointAuthMethod).toBe('client_secret_basic')
+    })
+
+    it('should load the GitHub upstream settings with GitHub scopes', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.UPSTREAM_PROVIDER = 'github'
+      process.env.GITHUB_CLIENT_ID = 'gh-client'
+      process.env.GITHUB_CLIENT_SECRET = 'gh-secret'
+      process.env.GITHUB_ALLOWED_ORGS = 'acme, example-org'
+      delete process.env.UPSTREAM_SCOPE
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.upstream.provider).toBe('github')
+      expect(result.upstream.scope).toBe('read:user user:email read:org')
+      expect(result.upstream.github?.allowedOrgs).toEqual(['acme', 'example-org'])
+    })
+
+    it('should require OIDC_ISSUER for the oidc upstream provider', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.UPSTREAM_PROVIDER = 'oidc'
+      delete process.env.OIDC_ISSUER
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+  })
+
+  describe('RefreshTokenConfig', () => {
+    it('should rotate refresh tokens by default', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      delete process.env.REFRESH_TOKEN_ROTATION
+      delete process.env.REFRESH_TOKEN_ROTATION_CLIENTS
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.refreshTokens.rotation).toBe('always')
+      expect(result.refreshTokens.clientRotation).toEqual({})
+    })
+
+    it('should parse per-client rotation overrides', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.REFRESH_TOKEN_ROTATION = 'never'
+      process.env.REFRESH_TOKEN_ROTATION_CLIENTS = 'client-a=always, client-b=never'
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.refreshTokens.rotation).toBe('never')
+      expect(result.refreshTokens.clientRotation).toEqual({
+        'client-a': 'always',
+        'client-b': 'never',
+      })
+    })
+
+    it('should reject an invalid rotation override', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.REFRESH_TOKEN_ROTATION_CLIENTS = 'client-a=sometimes'
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+  })
+
+  describe('ProtectedResources', () => {
+    it('should parse the protected resource registry', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.PROTECTED_RESOURCES = JSON.stringify([
+        { resource: 'https://mcp.domain.tld/mcp', name: 'MCP', scopes: ['openid'] },
+      ])
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.protectedResources).toEqual([
+        { resource: 'https://mcp.domain.tld/mcp', name: 'MCP', scopes: ['openid'] },
+      ])
+    })
+
+    it('should reject resources sharing a metadata path', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.PROTECTED_RESOURCES = JSON.stringify([
+        { resource: 'https://a.domain.tld/mcp', name: 'A', scopes: [] },
+        { resource: 'https://b.domain.tld/mcp/', name: 'B', scopes: [] },
+      ])
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+
+    it('should reject a malformed registry', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.PROTECTED_RESOURCES = '[{"resource": "not a url"'
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+  })
+
+  describe('SigningKeyConfig', () => {
+    it('should load the local key store settings', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.JWT_PROVIDER = 'local'
+      process.env.SIGNING_KEY_SECRET = 'key-store-secret'
+      process.env.SIGNING_KEY_ALGORITHM = 'EdDSA'
+
+      const result = await Effect.runPromise(appConfigEffect)
+
+      expect(result.signingKeys).toEqual({
+        store: 'postgres',
+        file: 'signing-keys.json',
+        secret: 'key-store-secret',
+        algorithm: 'EdDSA',
+        rotationDays: 30,
+      })
+    })
+
+    it('should require SIGNING_KEY_SECRET for the local provider', async () => {
+      process.env.APP_ENV = 'development'
+      process.env.BASE_URL = 'http://dev.domain.tld:3000'
+      process.env.PUBLIC_DOMAIN = 'dev.domain.tld'
+      process.env.HYDRA_PUBLIC_URL = 'http://dev.domain.tld:4444'
+      process.env.JWT_PROVIDER = 'local'
+      delete process.env.SIGNING_KEY_SECRET
+
+      const result = await Effect.runPromise(Effect.either(appConfigEffect))
+
+      expect(result._tag).toBe('Left')
+    })
+  })
 })
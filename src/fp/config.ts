@@ -62,12 +62,138 @@ export interface GoogleOAuthConfig {
   readonly redirectUri: string
 }
 
+/**
+ * Upstream identity provider type
+ * - 'google': Google OAuth 2.0 / OpenID Connect (default)
+ * - 'oidc': Any OpenID Connect provider, configured from its discovery document
+ * - 'github': GitHub OAuth App or GitHub App (plain OAuth 2.0)
+ */
+export type UpstreamProvider = 'google' | 'oidc' | 'github'
+
+/**
+ * Client authentication method used at the upstream token endpoint
+ */
+export type OidcTokenEndpointAuthMethod = 'client_secret_basic' | 'client_secret_post'
+
+/**
+ * Generic OpenID Connect upstream configuration
+ * Endpoints are read from `${issuer}/.well-known/openid-configuration`
+ */
+export interface OidcUpstreamConfig {
+  readonly issuer: string
+  readonly clientId: string
+  readonly clientSecret: string
+  readonly tokenEndpointAuthMethod: OidcTokenEndpointAuthMethod
+}
+
+/**
+ * GitHub upstream configuration
+ * allowedOrgs restricts login to members of those organizations (empty allows everyone),
+ * read:org is then added to the requested scope so private memberships are visible
+ */
+export interface GitHubUpstreamConfig {
+  readonly clientId: string
+  readonly clientSecret: string
+  readonly allowedOrgs: ReadonlyArray<string>
+}
+
+/**
+ * Upstream identity provider configuration
+ * Selects which provider authenticates users behind Hydra
+ */
+export interface UpstreamConfig {
+  readonly provider: UpstreamProvider
+  readonly scope: string
+  readonly oidc?: OidcUpstreamConfig
+  readonly github?: GitHubUpstreamConfig
+}
+
+/**
+ * Order of the Hydra login and upstream authentication
+ * - 'passthrough': Hydra login is accepted immediately, the user authenticates upstream after consent (default)
+ *   Hydra's session is then for a fixed placeholder subject, only our tokens name the real user
+ * - 'upstream_first': The login challenge is held open until the user has authenticated upstream,
+ *   then accepted with the verified subject
+ */
+export type LoginMode = 'passthrough' | 'upstream_first'
+
+/**
+ * Refresh token rotation policy
+ * - 'always': Every refresh returns a new refresh token and consumes the old one (default)
+ * - 'never': The refresh token stays valid until it expires
+ */
+export type RefreshTokenRotation = 'always' | 'never'
+
+/**
+ * Refresh token configuration
+ * clientRotation overrides the rotation policy for individual clients
+ */
+export interface RefreshTokenConfig {
+  readonly rotation: RefreshTokenRotation
+  readonly clientRotation: Readonly<Record<string, RefreshTokenRotation>>
+}
+
+/**
+ * Credential a resource server authenticates with at the introspection endpoint
+ */
+export interface ResourceServerCredential {
+  readonly clientId: string
+  readonly clientSecret: string
+}
+
+/**
+ * A resource server (e.g. an MCP server) that accepts our access tokens
+ * resource is the URL clients request tokens for, its metadata is served by this app (RFC 9728)
+ */
+export interface ProtectedResource {
+  readonly resource: string
+  readonly name: string
+  readonly scopes: ReadonlyArray<string>
+  readonly jwksUri?: string // The resource server's own keys, not the ones our tokens are signed with
+}
+
 /**
  * JWT Provider type
  * - 'hydra': Sign JWTs with keys from Hydra's JWKS (default)
  * - 'google': Sign JWTs with keys from Google's JWKS for MCP server compatibility
+ * - 'local': Sign JWTs with keys from our own signing key store, published by the app
+ */
+export type JWTProvider = 'hydra' | 'google' | 'local'
+
+/**
+ * Access token format
+ * - 'jwt': Self-contained JWTs from the JWT provider (default)
+ * - 'opaque': Random handles whose claims stay in Redis, resource servers introspect them
+ */
+export type AccessTokenFormat = 'jwt' | 'opaque'
+
+/**
+ * Signing key algorithms supported by the local key store
+ */
+export type SigningKeyAlgorithm = 'RS256' | 'ES256' | 'EdDSA'
+
+/**
+ * Local signing key store configuration (JWT_PROVIDER=local)
+ * - 'postgres': Keys in the signing_keys table, shared by every instance
+ * - 'file': Keys in an encrypted file, shared only through a shared volume
+ * Private keys are encrypted with secret in both stores
+ */
+export interface SigningKeyConfig {
+  readonly store: 'postgres' | 'file'
+  readonly file: string
+  readonly secret: string
+  readonly algorithm: SigningKeyAlgorithm
+  readonly rotationDays: number
+}
+
+/**
+ * Key-encryption keys for upstream tokens at rest
+ * Records are sealed with currentVersion, the other versions only open older records
  */
-export type JWTProvider = 'hydra' | 'google'
+export interface UpstreamTokenKeyConfig {
+  readonly currentVersion: string
+  readonly keys: Readonly<Record<string, string>> // Version -> base64 256-bit key
+}
 
 /**
  * Security configuration
@@ -85,6 +211,7 @@ export interface SecurityConfig {
   readonly jwtIssuer: string
   readonly jwtAudience: string
   readonly jwtProvider: JWTProvider
+  readonly accessTokenFormat: AccessTokenFormat
 }
 
 /**
@@ -102,6 +229,14 @@ export interface AppConfig {
   readonly redis: ServiceEndpoint
   readonly database: DatabaseConfig
   readonly google: GoogleOAuthConfig
+  readonly upstream: UpstreamConfig
+  readonly loginMode: LoginMode
+  readonly refreshTokens: RefreshTokenConfig
+  readonly revokeUpstreamTokens: boolean
+  readonly introspection?: ResourceServerCredential
+  readonly protectedResources: ReadonlyArray<ProtectedResource>
+  readonly signingKeys?: SigningKeyConfig
+  readonly upstreamTokenKeys?: UpstreamTokenKeyConfig
   readonly security: SecurityConfig
 }
 
@@ -273,6 +408,282 @@ const googleConfig = (
   )
 }
 
+/**
+ * Upstream identity provider selection
+ * Defaults to Google so existing deployments keep working unchanged
+ */
+const upstreamProviderConfig = pipe(
+  Config.string('UPSTREAM_PROVIDER'),
+  Config.withDefault('google' as UpstreamProvider),
+  Config.validate({
+    message: 'Invalid UPSTREAM_PROVIDER, must be: google, oidc or github',
+    validation: (value): value is UpstreamProvider =>
+      value === 'google' || value === 'oidc' || value === 'github',
+  })
+)
+
+/**
+ * Generic OpenID Connect upstream configuration
+ * Only read, and then required, when UPSTREAM_PROVIDER=oidc
+ */
+const oidcUpstreamConfig: Config.Config<OidcUpstreamConfig> = Config.all({
+  issuer: Config.string('OIDC_ISSUER'),
+  clientId: Config.string('OIDC_CLIENT_ID'),
+  clientSecret: Config.string('OIDC_CLIENT_SECRET'),
+  tokenEndpointAuthMethod: pipe(
+    Config.string('OIDC_TOKEN_ENDPOINT_AUTH_METHOD'),
+    Config.withDefault('client_secret_basic' as OidcTokenEndpointAuthMethod),
+    Config.validate({
+      message:
+        'Invalid OIDC_TOKEN_ENDPOINT_AUTH_METHOD, must be: client_secret_basic or client_secret_post',
+      validation: (value): value is OidcTokenEndpointAuthMethod =>
+        value === 'client_secret_basic' || value === 'client_secret_post',
+    })
+  ),
+})
+
+/**
+ * GitHub upstream configuration
+ * allowedOrgs restricts login to members of those organizations (empty allows everyone),
+ * read:org is then added to the requested scope so private memberships are visible
+ */
+export interface GitHubUpstreamConfig {
+  readonly clientId: string
+  readonly clientSecret: string
+  readonly allowedOrgs: ReadonlyArray<string>
+}
+
+/**
+ * GitHub upstream configuration
+ * Only read, and then required, when UPSTREAM_PROVIDER=github
+ */
+const githubUpstreamConfig: Config.Config<GitHubUpstreamConfig> = Config.all({
+  clientId: Config.string('GITHUB_CLIENT_ID'),
+  clientSecret: Config.string('GITHUB_CLIENT_SECRET'),
+  allowedOrgs: Config.string('GITHUB_ALLOWED_ORGS').pipe(
+    Config.withDefault(''),
+    Config.map((orgs) =>
+      orgs
+        .split(',')
+        .map((org) => org.trim())
+        .filter(Boolean)
+    )
+  ),
+})
+
+/**
+ * Upstream identity provider configuration
+ * GitHub has no OpenID scopes, so it gets its own default
+ */
+const upstreamConfig = (provider: UpstreamProvider): Config.Config<UpstreamConfig> =>
+  Config.all({
+    provider: Config.succeed(provider),
+    scope: Config.string('UPSTREAM_SCOPE').pipe(
+      Config.withDefault(
+        provider === 'github' ? 'read:user user:email read:org' : 'openid profile email'
+      )
+    ),
+    oidc: provider === 'oidc' ? oidcUpstreamConfig : Config.succeed(undefined),
+    github: provider === 'github' ? githubUpstreamConfig : Config.succeed(undefined),
+  })
+
+/**
+ * Login ordering, see LoginMode
+ */
+const loginModeConfig = pipe(
+  Config.string('LOGIN_MODE'),
+  Config.withDefault('passthrough' as LoginMode),
+  Config.validate({
+    message: 'Invalid LOGIN_MODE, must be: passthrough or upstream_first',
+    validation: (value): value is LoginMode =>
+      value === 'passthrough' || value === 'upstream_first',
+  })
+)
+
+const isRefreshTokenRotation = (value: string): value is RefreshTokenRotation =>
+  value === 'always' || value === 'never'
+
+/**
+ * Refresh token configuration
+ * REFRESH_TOKEN_ROTATION_CLIENTS is a comma separated list of client_id=policy
+ */
+const refreshTokenConfig: Config.Config<RefreshTokenConfig> = Config.all({
+  rotation: pipe(
+    Config.string('REFRESH_TOKEN_ROTATION'),
+    Config.withDefault('always' as RefreshTokenRotation),
+    Config.validate({
+      message: 'Invalid REFRESH_TOKEN_ROTATION, must be: always or never',
+      validation: isRefreshTokenRotation,
+    })
+  ),
+  clientRotation: pipe(
+    Config.string('REFRESH_TOKEN_ROTATION_CLIENTS'),
+    Config.withDefault(''),
+    Config.map((value) =>
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => entry.split('=').map((part) => part.trim()))
+    ),
+    Config.validate({
+      message: 'Invalid REFRESH_TOKEN_ROTATION_CLIENTS, must be: client_id=always|never,...',
+      validation: (entries) =>
+        entries.every(
+          ([clientId, rotation, ...rest]) =>
+            !!clientId && rotation !== undefined && isRefreshTokenRotation(rotation) && rest.length === 0
+        ),
+    }),
+    Config.map(
+      (entries): Record<string, RefreshTokenRotation> =>
+        Object.fromEntries(
+          entries.map(([clientId, rotation]) => [clientId, rotation as RefreshTokenRotation])
+        )
+    )
+  ),
+})
+
+/**
+ * Introspection credential, the endpoint rejects every caller without one
+ */
+const introspectionConfig: Config.Config<ResourceServerCredential | undefined> = pipe(
+  Config.all({
+    clientId: Config.string('INTROSPECTION_CLIENT_ID').pipe(Config.option),
+    clientSecret: Config.string('INTROSPECTION_CLIENT_SECRET').pipe(Config.option),
+  }),
+  Config.map(({ clientId, clientSecret }) =>
+    clientId._tag === 'Some' && clientSecret._tag === 'Some'
+      ? { clientId: clientId.value, clientSecret: clientSecret.value }
+      : undefined
+  )
+)
+
+/**
+ * Path of a protected resource's metadata, the well-known suffix inserted before the resource path
+ */
+export const getProtectedResourceMetadataPath = (resource: string): string => {
+  const { pathname } = new URL(resource)
+  return `/.well-known/oauth-protected-resource${pathname.replace(/\/$/, '')}`
+}
+
+const isProtectedResource = (value: unknown): value is ProtectedResource => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const { resource, name, scopes, jwksUri } = value as Record<string, unknown>
+  return (
+    typeof resource === 'string' &&
+    URL.canParse(resource) &&
+    !resource.includes('#') &&
+    typeof name === 'string' &&
+    name.length > 0 &&
+    Array.isArray(scopes) &&
+    scopes.every((scope) => typeof scope === 'string') &&
+    (jwksUri === undefined || (typeof jwksUri === 'string' && URL.canParse(jwksUri)))
+  )
+}
+
+/**
+ * Protected resource registry
+ * PROTECTED_RESOURCES is a JSON array of { resource, name, scopes, jwksUri? }
+ * Every resource needs its own metadata path, resources on different hosts can't share one
+ */
+const protectedResourcesConfig: Config.Config<ReadonlyArray<ProtectedResource>> = pipe(
+  Config.string('PROTECTED_RESOURCES'),
+  Config.withDefault('[]'),
+  Config.map((value): unknown => {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }),
+  Config.validate({
+    message:
+      'Invalid PROTECTED_RESOURCES, must be a JSON array of { resource, name, scopes, jwksUri? }',
+    validation: (value): value is ReadonlyArray<ProtectedResource> =>
+      Array.isArray(value) &&
+      value.every(isProtectedResource) &&
+      new Set(value.map(({ resource }) => getProtectedResourceMetadataPath(resource))).size ===
+        value.length,
+  })
+)
+
+/**
+ * Local signing key store, SIGNING_KEY_SECRET is required
+ */
+const signingKeyConfig: Config.Config<SigningKeyConfig> = Config.all({
+  store: pipe(
+    Config.string('SIGNING_KEY_STORE'),
+    Config.withDefault('postgres' as SigningKeyConfig['store']),
+    Config.validate({
+      message: 'Invalid SIGNING_KEY_STORE, must be: postgres or file',
+      validation: (value): value is SigningKeyConfig['store'] =>
+        value === 'postgres' || value === 'file',
+    })
+  ),
+  file: Config.string('SIGNING_KEY_FILE').pipe(Config.withDefault('signing-keys.json')),
+  secret: Config.string('SIGNING_KEY_SECRET'),
+  algorithm: pipe(
+    Config.string('SIGNING_KEY_ALGORITHM'),
+    Config.withDefault('RS256' as SigningKeyAlgorithm),
+    Config.validate({
+      message: 'Invalid SIGNING_KEY_ALGORITHM, must be: RS256, ES256 or EdDSA',
+      validation: (value): value is SigningKeyAlgorithm =>
+        value === 'RS256' || value === 'ES256' || value === 'EdDSA',
+    })
+  ),
+  rotationDays: pipe(
+    Config.integer('SIGNING_KEY_ROTATION_DAYS'),
+    Config.withDefault(30),
+    Config.validate({
+      message: 'Invalid SIGNING_KEY_ROTATION_DAYS, must be at least 2',
+      validation: (value) => value >= 2,
+    })
+  ),
+})
+
+/**
+ * Upstream token encryption, records stay plaintext without UPSTREAM_TOKEN_KEYS
+ */
+const upstreamTokenKeyConfig: Config.Config<UpstreamTokenKeyConfig | undefined> = pipe(
+  Config.all({
+    keys: Config.string('UPSTREAM_TOKEN_KEYS').pipe(Config.option),
+    currentVersion: Config.string('UPSTREAM_TOKEN_KEY_VERSION').pipe(Config.withDefault('')),
+  }),
+  Config.map(({ keys, currentVersion }): unknown => {
+    if (keys._tag === 'None') {
+      return undefined
+    }
+    try {
+      return { currentVersion, keys: JSON.parse(keys.value) }
+    } catch {
+      return null
+    }
+  }),
+  Config.validate({
+    message:
+      'Invalid UPSTREAM_TOKEN_KEYS, must be a JSON object of version to base64 256-bit key, including UPSTREAM_TOKEN_KEY_VERSION',
+    validation: (value): value is UpstreamTokenKeyConfig | undefined => {
+      if (value === undefined) {
+        return true
+      }
+      const config = value as { currentVersion: string; keys: unknown } | null
+      return (
+        typeof config?.keys === 'object' &&
+        config.keys !== null &&
+        Object.entries(config.keys).every(
+          ([version, key]) =>
+            /^[\w.-]+$/.test(version) &&
+            typeof key === 'string' &&
+            Buffer.from(key, 'base64').length === 32
+        ) &&
+        Object.keys(config.keys).includes(config.currentVersion)
+      )
+    },
+  })
+)
+
 /**
  * Security configuration
  */
@@ -311,9 +722,17 @@ const securityConfig = (env: AppEnvironment, https: boolean, baseUrl: string): C
       Config.string('JWT_PROVIDER'),
       Config.withDefault('hydra' as JWTProvider),
       Config.validate({
-        message: 'Invalid JWT_PROVIDER, must be: hydra or google',
+        message: 'Invalid JWT_PROVIDER, must be: hydra, google or local',
         validation: (value): value is JWTProvider =>
-          value === 'hydra' || value === 'google',
+          value === 'hydra' || value === 'google' || value === 'local',
+      })
+    ),
+    accessTokenFormat: pipe(
+      Config.string('ACCESS_TOKEN_FORMAT'),
+      Config.withDefault('jwt' as AccessTokenFormat),
+      Config.validate({
+        message: 'Invalid ACCESS_TOKEN_FORMAT, must be: jwt or opaque',
+        validation: (value): value is AccessTokenFormat => value === 'jwt' || value === 'opaque',
       })
     ),
   })
@@ -333,7 +752,19 @@ export const appConfigEffect = Effect.gen(function* () {
   const redis = yield* redisConfig(env, domain)
   const database = yield* databaseConfig(env, domain)
   const google = yield* googleConfig(env, baseUrl)
+  const upstreamProvider = yield* upstreamProviderConfig
+  const upstream = yield* upstreamConfig(upstreamProvider)
+  const loginMode = yield* loginModeConfig
+  const refreshTokens = yield* refreshTokenConfig
+  const revokeUpstreamTokens = yield* Config.boolean('REVOKE_UPSTREAM_TOKENS').pipe(
+    Config.withDefault(false)
+  )
+  const introspection = yield* introspectionConfig
+  const protectedResources = yield* protectedResourcesConfig
   const security = yield* securityConfig(env, https, baseUrl)
+  const signingKeys =
+    security.jwtProvider === 'local' ? yield* signingKeyConfig : undefined
+  const upstreamTokenKeys = yield* upstreamTokenKeyConfig
 
   const dcrMasterClientId = yield* Config.string('DCR_MASTER_CLIENT_ID').pipe(
     Config.withDefault('')
@@ -359,6 +790,14 @@ export const appConfigEffect = Effect.gen(function* () {
     redis,
     database,
     google,
+    upstream,
+    loginMode,
+    refreshTokens,
+    revokeUpstreamTokens,
+    introspection,
+    protectedResources,
+    signingKeys,
+    upstreamTokenKeys,
     security,
   }
 })
@@ -101,7 +101,7 @@ describe('Domain Schemas', () => {
     })
 
     it('should reject invalid grant type', () => {
-      expect(() => Schema.decodeUnknownSync(GrantTypeSchema)('client_credentials')).toThrow()
+      expect(() => Schema.decodeUnknownSync(GrantTypeSchema)('password')).toThrow()
     })
   })
 
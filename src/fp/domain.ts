@@ -21,9 +21,33 @@ export const PKCEStateSchema = Schema.Struct({
   redirect_uri: Schema.String,
   client_id: Schema.String,
   timestamp: Schema.Number,
+  upstream_state: Schema.optional(Schema.String), // Random per-flow state sent upstream, checked on callback
+  resource: Schema.optional(Schema.String), // Registered protected resource the client asked for (RFC 8707)
 })
 export type PKCEState = typeof PKCEStateSchema.Type
 
+/**
+ * Pending Hydra login stored in Redis while the user authenticates upstream
+ * (LOGIN_MODE=upstream_first), indexed by the state sent to the upstream provider
+ */
+export const LoginStateSchema = Schema.Struct({
+  login_challenge: Schema.String,
+  pkce_key: Schema.String,
+  timestamp: Schema.Number,
+})
+export type LoginState = typeof LoginStateSchema.Type
+
+/**
+ * Pending device verification stored in Redis while the user authenticates
+ * upstream, indexed by the state sent to the upstream provider
+ */
+export const DeviceLoginSchema = Schema.Struct({
+  device_code: Schema.String,
+  pkce_key: Schema.String, // Browser session that entered the user code
+  timestamp: Schema.Number,
+})
+export type DeviceLogin = typeof DeviceLoginSchema.Type
+
 /**
  * Hydra Client
  */
@@ -32,10 +56,25 @@ export const AllowedFlowScopes = Schema.Literal("email", "offline_access", "prof
 export const AllowedResponseTypes = Schema.Literal("code")
 
 
+/**
+ * Token exchange (RFC 8693) grant and token type identifiers
+ */
+export const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange'
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token'
+export const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer'
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code'
+
 /**
  * OAuth2 Grant Types
  */
-export const GrantTypeSchema = Schema.Literal('authorization_code', 'refresh_token')
+export const GrantTypeSchema = Schema.Literal(
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+  TOKEN_EXCHANGE_GRANT_TYPE,
+  JWT_BEARER_GRANT_TYPE,
+  DEVICE_CODE_GRANT_TYPE
+)
 export type GrantType = typeof GrantTypeSchema.Type
 
 /**
@@ -47,6 +86,7 @@ export const AuthCodeGrantSchema = Schema.Struct({
   code_verifier: Schema.String,
   redirect_uri: Schema.String,
   client_id: Schema.String,
+  resource: Schema.optional(Schema.String),
 })
 export type AuthCodeGrant = typeof AuthCodeGrantSchema.Type
 
@@ -58,27 +98,93 @@ export const RefreshTokenGrantSchema = Schema.Struct({
   refresh_token: Schema.String,
   client_id: Schema.String,
   scope: Schema.optional(Schema.String),
+  resource: Schema.optional(Schema.String),
 })
 export type RefreshTokenGrant = typeof RefreshTokenGrantSchema.Type
 
+/**
+ * Client Credentials Grant Request
+ * The client authenticates with HTTP Basic or client_id/client_secret in the body
+ */
+export const ClientCredentialsGrantSchema = Schema.Struct({
+  grant_type: Schema.Literal('client_credentials'),
+  scope: Schema.optional(Schema.String),
+  resource: Schema.optional(Schema.String),
+})
+export type ClientCredentialsGrant = typeof ClientCredentialsGrantSchema.Type
+
+/**
+ * JWT Bearer Grant Request (RFC 7523)
+ * The assertion is signed by an issuer trusted in Hydra, its subject becomes the token's subject
+ */
+export const JwtBearerGrantSchema = Schema.Struct({
+  grant_type: Schema.Literal(JWT_BEARER_GRANT_TYPE),
+  assertion: Schema.String,
+  scope: Schema.optional(Schema.String),
+  resource: Schema.optional(Schema.String),
+})
+export type JwtBearerGrant = typeof JwtBearerGrantSchema.Type
+
+/**
+ * Device Code Grant Request (RFC 8628 §3.4)
+ * The client polls with the device code until the user has logged in upstream
+ */
+export const DeviceCodeGrantSchema = Schema.Struct({
+  grant_type: Schema.Literal(DEVICE_CODE_GRANT_TYPE),
+  device_code: Schema.String,
+  client_id: Schema.String,
+})
+export type DeviceCodeGrant = typeof DeviceCodeGrantSchema.Type
+
+/**
+ * Token Exchange Grant Request (RFC 8693)
+ * A resource server trades one of our access tokens for the upstream access token behind it
+ */
+export const TokenExchangeGrantSchema = Schema.Struct({
+  grant_type: Schema.Literal(TOKEN_EXCHANGE_GRANT_TYPE),
+  subject_token: Schema.String,
+  subject_token_type: Schema.Literal(ACCESS_TOKEN_TYPE),
+  // Only access tokens are issued, for no other target, the service rejects anything else
+  requested_token_type: Schema.optional(Schema.String),
+  audience: Schema.optional(Schema.String),
+  resource: Schema.optional(Schema.String),
+  scope: Schema.optional(Schema.String),
+})
+export type TokenExchangeGrant = typeof TokenExchangeGrantSchema.Type
+
 /**
  * Token Request (discriminated union)
  */
 export const TokenRequestSchema = Schema.Union(
   AuthCodeGrantSchema,
-  RefreshTokenGrantSchema
+  RefreshTokenGrantSchema,
+  ClientCredentialsGrantSchema,
+  TokenExchangeGrantSchema,
+  JwtBearerGrantSchema,
+  DeviceCodeGrantSchema
 )
 export type TokenRequest = typeof TokenRequestSchema.Type
 
 export const AuthFlowResponseTypes = Schema.Literal("code")
 
+/**
+ * Client authentication methods at the token endpoint, as registered with Hydra
+ */
+export const TokenEndpointAuthMethodSchema = Schema.Literal(
+  'none',
+  'client_secret_basic',
+  'client_secret_post',
+  'private_key_jwt'
+)
+export type TokenEndpointAuthMethod = typeof TokenEndpointAuthMethodSchema.Type
+
 export const AuthFlowCreateClientSchema = Schema.Struct({
   client_name: Schema.String,
   scope: Schema.Array(Schema.String),
   grant_types: Schema.Array(Schema.String),
   response_types: Schema.Array(AuthFlowResponseTypes),
   redirect_urls: Schema.Array(Schema.String),
-  token_endpoint_auth_method: Schema.Literal("none")
+  token_endpoint_auth_method: TokenEndpointAuthMethodSchema
 })
 export type AuthFlowCreateClientRequest = typeof AuthFlowCreateClientSchema.Type
 
@@ -107,6 +213,151 @@ export const GoogleUserInfoSchema = Schema.Struct({
 
 export type GoogleUserInfoResponse = typeof GoogleUserInfoSchema.Type
 
+/**
+ * Upstream token response
+ * Google's token response shape, every upstream provider normalises its
+ * response to it. expires_in is absent for tokens that never expire (GitHub)
+ */
+export const UpstreamTokenResponseSchema = Schema.Struct({
+  ...GoogleTokenResponseSchema.fields,
+  expires_in: Schema.optional(Schema.Number),
+})
+export type UpstreamTokenResponse = typeof UpstreamTokenResponseSchema.Type
+
+/**
+ * Upstream user info, normalised across providers
+ */
+export const UpstreamUserInfoSchema = Schema.Struct({
+  sub: Schema.String,
+  email: Schema.optional(Schema.String),
+  email_verified: Schema.optional(Schema.Boolean),
+  name: Schema.optional(Schema.String),
+  picture: Schema.optional(Schema.String),
+  acr: Schema.optional(Schema.String), // Only known when the provider's ID token carries it
+  amr: Schema.optional(Schema.Array(Schema.String)),
+})
+export type UpstreamUserInfo = typeof UpstreamUserInfoSchema.Type
+
+/**
+ * Authorization server metadata (RFC 8414, OpenID Connect Discovery)
+ * Only the fields we rely on are checked, every other field is kept as is
+ */
+export const AuthorizationServerMetadataSchema = Schema.Struct(
+  {
+    issuer: Schema.String,
+    authorization_endpoint: Schema.String,
+    token_endpoint: Schema.String,
+    jwks_uri: Schema.optional(Schema.String),
+  },
+  Schema.Record({ key: Schema.String, value: Schema.Unknown })
+)
+export type AuthorizationServerMetadata = typeof AuthorizationServerMetadataSchema.Type
+
+/**
+ * Protected resource metadata (RFC 9728)
+ */
+export const ProtectedResourceMetadataSchema = Schema.Struct({
+  resource: Schema.String,
+  resource_name: Schema.String,
+  authorization_servers: Schema.Array(Schema.String),
+  scopes_supported: Schema.Array(Schema.String),
+  bearer_methods_supported: Schema.Array(Schema.String),
+  jwks_uri: Schema.optional(Schema.String), // The resource server's own keys
+})
+export type ProtectedResourceMetadata = typeof ProtectedResourceMetadataSchema.Type
+
+/**
+ * Signing key held by the local key store
+ * Signing switches to a key at activates_at, it is published before that
+ */
+export const SigningKeySchema = Schema.Struct({
+  kid: Schema.String,
+  alg: Schema.Literal('RS256', 'ES256', 'EdDSA'),
+  public_jwk: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+  private_jwk: Schema.String, // Encrypted with the key store secret
+  created_at: Schema.Number,
+  activates_at: Schema.Number,
+})
+export type SigningKey = typeof SigningKeySchema.Type
+
+/**
+ * OpenID Connect discovery document (subset we rely on)
+ * Served at `${issuer}/.well-known/openid-configuration`
+ */
+export const OidcDiscoverySchema = Schema.Struct({
+  issuer: Schema.String,
+  authorization_endpoint: Schema.String,
+  token_endpoint: Schema.String,
+  jwks_uri: Schema.String,
+  userinfo_endpoint: Schema.optional(Schema.String),
+  revocation_endpoint: Schema.optional(Schema.String),
+})
+export type OidcDiscovery = typeof OidcDiscoverySchema.Type
+
+/**
+ * Token response from a generic OpenID Connect provider
+ * scope and expires_in are optional in RFC 6749 and filled in before storage
+ */
+export const OidcTokenResponseSchema = Schema.Struct({
+  access_token: Schema.String,
+  token_type: Schema.String,
+  expires_in: Schema.optional(Schema.Number),
+  scope: Schema.optional(Schema.String),
+  id_token: Schema.optional(Schema.String),
+  refresh_token: Schema.optional(Schema.String),
+})
+export type OidcTokenResponse = typeof OidcTokenResponseSchema.Type
+
+/**
+ * GitHub OAuth token response
+ * expires_in and refresh_token are only present when the GitHub App has
+ * expiring user tokens enabled, scope is comma separated
+ */
+export const GitHubTokenResponseSchema = Schema.Struct({
+  access_token: Schema.String,
+  token_type: Schema.String,
+  scope: Schema.String,
+  expires_in: Schema.optional(Schema.Number),
+  refresh_token: Schema.optional(Schema.String),
+  refresh_token_expires_in: Schema.optional(Schema.Number),
+})
+export type GitHubTokenResponse = typeof GitHubTokenResponseSchema.Type
+
+/**
+ * GitHub user from GET /user
+ */
+export const GitHubUserSchema = Schema.Struct({
+  id: Schema.Number,
+  login: Schema.String,
+  name: Schema.optional(Schema.NullOr(Schema.String)),
+  email: Schema.optional(Schema.NullOr(Schema.String)),
+  avatar_url: Schema.optional(Schema.String),
+})
+export type GitHubUser = typeof GitHubUserSchema.Type
+
+/**
+ * GitHub email addresses from GET /user/emails
+ */
+export const GitHubEmailsSchema = Schema.Array(
+  Schema.Struct({
+    email: Schema.String,
+    primary: Schema.Boolean,
+    verified: Schema.Boolean,
+  })
+)
+export type GitHubEmails = typeof GitHubEmailsSchema.Type
+
+/**
+ * GitHub organizations from GET /user/orgs
+ */
+export const GitHubOrgsSchema = Schema.Array(
+  Schema.Struct({
+    id: Schema.Number,
+    login: Schema.String,
+  })
+)
+export type GitHubOrgs = typeof GitHubOrgsSchema.Type
+
 /**
  * Google Error Response
  */
@@ -126,8 +377,9 @@ export const GoogleTokenDataSchema = Schema.Struct({
   google_id_token: Schema.optional(Schema.String),
   scope: Schema.String,
   subject: Schema.String,
+  email: Schema.optional(Schema.String),
   client_id: Schema.String,
-  expires_at: Schema.Number, // Unix timestamp when Google token expires
+  expires_at: Schema.optional(Schema.Number), // Unix timestamp when the upstream token expires, absent if it never does
   updated_at: Schema.Number,
 })
 export type GoogleTokenData = typeof GoogleTokenDataSchema.Type
@@ -141,10 +393,65 @@ export const JWTRefreshDataSchema = Schema.Struct({
   client_id: Schema.String,
   scope: Schema.String,
   subject: Schema.String,
+  email: Schema.optional(Schema.String),
+  family_id: Schema.optional(Schema.String), // Rotation family, absent for tokens issued before rotation
+  resource: Schema.optional(Schema.String), // Audience of the access tokens issued with it
   created_at: Schema.Number,
 })
 export type JWTRefreshData = typeof JWTRefreshDataSchema.Type
 
+/**
+ * Opaque access token stored in Redis (indexed by the token)
+ * The claims a JWT access token would carry
+ */
+export const AccessTokenDataSchema = Schema.Struct({
+  sub: Schema.String,
+  email: Schema.optional(Schema.String),
+  scope: Schema.String,
+  client_id: Schema.String,
+  jti: Schema.String,
+  aud: Schema.optional(Schema.String), // Resource the token was issued for
+  iat: Schema.Number,
+  exp: Schema.Number,
+})
+export type AccessTokenData = typeof AccessTokenDataSchema.Type
+
+/**
+ * Refresh token family stored in Redis (indexed by family ID)
+ * All refresh tokens rotated from one authorization share a family, which
+ * points at the only refresh token that is still usable
+ */
+export const RefreshTokenFamilySchema = Schema.Struct({
+  jti: Schema.String,
+  refresh_token: Schema.String,
+  client_id: Schema.String,
+  subject: Schema.String,
+  created_at: Schema.Number,
+})
+export type RefreshTokenFamily = typeof RefreshTokenFamilySchema.Type
+
+/**
+ * Refresh token that was rotated away (indexed by the old refresh token)
+ */
+export const ConsumedRefreshTokenSchema = Schema.Struct({
+  family_id: Schema.String,
+  consumed_at: Schema.Number,
+})
+export type ConsumedRefreshToken = typeof ConsumedRefreshTokenSchema.Type
+
+/**
+ * Tokens issued from a redeemed authorization code (indexed by the code)
+ * Kept after redemption so a replayed code can revoke them (RFC 6749 §4.1.2)
+ */
+export const AuthCodeRedemptionSchema = Schema.Struct({
+  jti: Schema.String,
+  refresh_token: Schema.String,
+  family_id: Schema.optional(Schema.String),
+  redeemed_at: Schema.Number,
+  expires_at: Schema.optional(Schema.Number), // When the access token expires (ms)
+})
+export type AuthCodeRedemption = typeof AuthCodeRedemptionSchema.Type
+
 /**
  * Legacy Refresh Token Data stored in Redis (for backward compatibility)
  * @deprecated Use GoogleTokenDataSchema and JWTRefreshDataSchema instead
@@ -166,12 +473,32 @@ export type RefreshTokenData = typeof RefreshTokenDataSchema.Type
  */
 export const AuthCodeDataSchema = Schema.Struct({
   google_tokens: Schema.Struct({
-    tokens: GoogleTokenResponseSchema,
+    tokens: UpstreamTokenResponseSchema,
   }),
-  subject: Schema.optional(Schema.String),
+  subject: Schema.optional(Schema.String), // Upstream `sub`, only missing on codes issued before subject resolution
+  email: Schema.optional(Schema.String),
 })
 export type AuthCodeData = typeof AuthCodeDataSchema.Type
 
+/**
+ * Device authorization stored in Redis (indexed by the device code)
+ * The upstream login is kept on it once the user has approved, until the
+ * device redeems the code (RFC 8628)
+ */
+export const DeviceAuthorizationSchema = Schema.Struct({
+  client_id: Schema.String,
+  client_name: Schema.optional(Schema.String), // Shown to the user before they approve the device
+  user_code: Schema.String,
+  scope: Schema.String,
+  resource: Schema.optional(Schema.String), // Registered protected resource the device asked for (RFC 8707)
+  status: Schema.Literal('pending', 'approved', 'denied'),
+  interval: Schema.Number, // Seconds the device waits between polls
+  expires_at: Schema.Number,
+  created_at: Schema.Number,
+  authorization: Schema.optional(AuthCodeDataSchema),
+})
+export type DeviceAuthorization = typeof DeviceAuthorizationSchema.Type
+
 /**
  * OAuth2 Token Response (what we return to clients)
  */
@@ -184,6 +511,90 @@ export const OAuth2TokenResponseSchema = Schema.Struct({
 })
 export type OAuth2TokenResponse = typeof OAuth2TokenResponseSchema.Type
 
+/**
+ * Access Token Response without a refresh token
+ * Client credentials (RFC 6749 §4.4.3) and JWT bearer (RFC 7523) grants
+ */
+export const AccessTokenResponseSchema = Schema.Struct({
+  access_token: Schema.String,
+  token_type: Schema.Literal('Bearer'),
+  expires_in: Schema.Number,
+  scope: Schema.String,
+})
+export type AccessTokenResponse = typeof AccessTokenResponseSchema.Type
+
+/**
+ * Token Exchange Response (RFC 8693), carries the upstream access token
+ */
+export const TokenExchangeResponseSchema = Schema.Struct({
+  access_token: Schema.String,
+  issued_token_type: Schema.Literal(ACCESS_TOKEN_TYPE),
+  token_type: Schema.Literal('Bearer'),
+  expires_in: Schema.Number,
+  scope: Schema.String,
+})
+export type TokenExchangeResponse = typeof TokenExchangeResponseSchema.Type
+
+/**
+ * Device Authorization Request (RFC 8628 §3.1)
+ */
+export const DeviceAuthorizationRequestSchema = Schema.Struct({
+  client_id: Schema.String,
+  scope: Schema.optional(Schema.String),
+  resource: Schema.optional(Schema.String),
+})
+export type DeviceAuthorizationRequest = typeof DeviceAuthorizationRequestSchema.Type
+
+/**
+ * Device Authorization Response (RFC 8628 §3.2)
+ */
+export const DeviceAuthorizationResponseSchema = Schema.Struct({
+  device_code: Schema.String,
+  user_code: Schema.String,
+  verification_uri: Schema.String,
+  verification_uri_complete: Schema.String,
+  expires_in: Schema.Number,
+  interval: Schema.Number,
+})
+export type DeviceAuthorizationResponse = typeof DeviceAuthorizationResponseSchema.Type
+
+/**
+ * Token Revocation Request (RFC 7009)
+ * token_type_hint is only a lookup hint, unknown values are ignored,
+ * client_id is the authenticated client
+ */
+export const RevocationRequestSchema = Schema.Struct({
+  token: Schema.String,
+  token_type_hint: Schema.optional(Schema.String),
+  client_id: Schema.String,
+})
+export type RevocationRequest = typeof RevocationRequestSchema.Type
+
+/**
+ * Token Introspection Request (RFC 7662)
+ */
+export const IntrospectionRequestSchema = Schema.Struct({
+  token: Schema.String,
+  token_type_hint: Schema.optional(Schema.String),
+})
+export type IntrospectionRequest = typeof IntrospectionRequestSchema.Type
+
+/**
+ * Token Introspection Response (RFC 7662)
+ * Inactive tokens are answered with `active: false` only
+ */
+export const IntrospectionResponseSchema = Schema.Struct({
+  active: Schema.Boolean,
+  sub: Schema.optional(Schema.String),
+  client_id: Schema.optional(Schema.String),
+  scope: Schema.optional(Schema.String),
+  exp: Schema.optional(Schema.Number),
+  iat: Schema.optional(Schema.Number),
+  aud: Schema.optional(Schema.Union(Schema.String, Schema.Array(Schema.String))),
+  token_type: Schema.optional(Schema.String),
+})
+export type IntrospectionResponse = typeof IntrospectionResponseSchema.Type
+
 /**
  * OAuth2 Error Response
  */
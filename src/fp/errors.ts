@@ -91,7 +91,50 @@ export class MissingParameter extends Data.TaggedError('MissingParameter')<{
 }> {}
 
 export class ExpiredToken extends Data.TaggedError('ExpiredToken')<{
-  tokenType: 'auth_code' | 'refresh_token'
+  tokenType: 'auth_code' | 'refresh_token' | 'device_code'
+}> {}
+
+export class StateMismatch extends Data.TaggedError('StateMismatch')<{
+  received: string
+}> {}
+
+export class ClientMismatch extends Data.TaggedError('ClientMismatch')<{
+  expected: string
+  received: string
+}> {}
+
+export class RedirectUriMismatch extends Data.TaggedError('RedirectUriMismatch')<{
+  expected: string
+  received: string
+}> {}
+
+export class InvalidTarget extends Data.TaggedError('InvalidTarget')<{
+  resource: string
+}> {}
+
+export class TokenRevoked extends Data.TaggedError('TokenRevoked')<{
+  jti: string
+}> {}
+
+export class UnauthorizedClient extends Data.TaggedError('UnauthorizedClient')<{
+  clientId: string
+  grantType: string
+}> {}
+
+/**
+ * Device code polling errors (RFC 8628 §3.5)
+ */
+export class AuthorizationPending extends Data.TaggedError('AuthorizationPending')<{
+  clientId: string
+}> {}
+
+export class SlowDown extends Data.TaggedError('SlowDown')<{
+  clientId: string
+  interval: number
+}> {}
+
+export class AccessDenied extends Data.TaggedError('AccessDenied')<{
+  clientId: string
 }> {}
 
 export type OAuthError =
@@ -101,6 +144,15 @@ export type OAuthError =
   | InvalidClient
   | MissingParameter
   | ExpiredToken
+  | StateMismatch
+  | ClientMismatch
+  | RedirectUriMismatch
+  | InvalidTarget
+  | TokenRevoked
+  | UnauthorizedClient
+  | AuthorizationPending
+  | SlowDown
+  | AccessDenied
 
 /**
  * Google OAuth errors
@@ -120,6 +172,34 @@ export class GoogleTokenRevoked extends Data.TaggedError('GoogleTokenRevoked')<{
 
 export type GoogleOAuthError = GoogleAuthError | GoogleTokenExpired | GoogleTokenRevoked
 
+/**
+ * Upstream identity provider errors
+ * Provider-neutral counterpart of GoogleAuthError
+ */
+export class UpstreamAuthError extends Data.TaggedError('UpstreamAuthError')<{
+  provider: string
+  error: string
+  errorDescription?: string
+}> {}
+
+export type UpstreamError = UpstreamAuthError | GoogleOAuthError
+
+/**
+ * Signing key store errors
+ */
+export class KeyStoreError extends Data.TaggedError('KeyStoreError')<{
+  message: string
+  cause?: unknown
+}> {}
+
+/**
+ * Configuration errors
+ * A setting a feature needs is missing
+ */
+export class ConfigurationError extends Data.TaggedError('ConfigurationError')<{
+  message: string
+}> {}
+
 /**
  * Session errors
  */
@@ -176,6 +256,8 @@ export type AppError =
   | RedisError
   | HttpError
   | OAuthError
-  | GoogleOAuthError
+  | UpstreamError
+  | KeyStoreError
+  | ConfigurationError
   | SessionError
   | ValidationError
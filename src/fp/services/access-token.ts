@@ -0,0 +1,110 @@
+/**
+ * Access token issuing and decoding - Effect version
+ * Access tokens are JWTs from the JWT provider, or opaque handles whose claims stay in Redis
+ * Decoding tells them apart by shape, so tokens of either format verify after a format switch
+ */
+import crypto from 'crypto'
+import { Effect, pipe } from 'effect'
+import { AccessTokenDataSchema } from '../domain.js'
+import { ParseError, type AppError } from '../errors.js'
+import { JWTService, type JWTClaims } from './jwt.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import type { AccessTokenFormat } from '../config.js'
+
+/**
+ * Claims of an access token about to be issued
+ */
+export type AccessTokenClaims = Omit<JWTClaims, 'iat' | 'exp' | 'kid'>
+
+/**
+ * Whether a token is an opaque handle rather than a JWT
+ */
+export const isOpaqueToken = (token: string): boolean => !token.includes('.')
+
+/**
+ * Issue an access token in the configured format
+ * Opaque handles are random base64url, which never contains the dots of a JWT
+ */
+export const issueAccessToken = (
+  claims: AccessTokenClaims,
+  expiresIn: number,
+  format: AccessTokenFormat,
+  googleIdToken?: string // Returned as is in Google mode, for the JWT format only
+): Effect.Effect<string, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    if (format === 'jwt') {
+      const jwt = yield* JWTService
+      return yield* jwt.sign(claims, expiresIn, googleIdToken)
+    }
+
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const token = crypto.randomBytes(32).toString('base64url')
+    const now = Math.floor(Date.now() / 1000)
+
+    yield* redisOps.setAccessToken(
+      token,
+      {
+        sub: claims.sub,
+        email: claims.email,
+        scope: claims.scope,
+        client_id: claims.client_id,
+        jti: claims.jti,
+        aud: claims.aud as string | undefined,
+        iat: now,
+        exp: now + expiresIn,
+      },
+      expiresIn
+    )
+
+    yield* Effect.logDebug('Opaque access token issued').pipe(
+      Effect.annotateLogs({ jti: claims.jti, client_id: claims.client_id })
+    )
+
+    return token
+  })
+
+/**
+ * Resolve an opaque access token to its claims
+ * Unknown and expired handles fail like a JWT that doesn't verify
+ */
+const resolveOpaqueToken = (token: string): Effect.Effect<JWTClaims, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const data = yield* pipe(
+      redisOps.getAccessToken(token, AccessTokenDataSchema),
+      Effect.catchTag('RedisKeyNotFound', () =>
+        Effect.fail(new ParseError({ message: 'Unknown or expired access token' }))
+      )
+    )
+
+    if (data.exp <= Math.floor(Date.now() / 1000)) {
+      return yield* Effect.fail(new ParseError({ message: 'Access token expired' }))
+    }
+
+    return data
+  })
+
+/**
+ * Decode an access token of either format, verifying JWTs and resolving opaque handles
+ * Does not check the JTI denylist, see verifyAccessToken
+ */
+export const decodeAccessToken = (
+  token: string
+): Effect.Effect<JWTClaims, AppError, RedisService | JWTService> =>
+  isOpaqueToken(token)
+    ? resolveOpaqueToken(token)
+    : Effect.flatMap(JWTService, (jwt) => jwt.verify(token))
+
+/**
+ * Delete an opaque access token, JWTs can only be denylisted
+ */
+export const deleteAccessToken = (token: string): Effect.Effect<void, AppError, RedisService> =>
+  isOpaqueToken(token)
+    ? Effect.flatMap(RedisService, (redis) =>
+        Effect.asVoid(createOAuthRedisOps(redis).deleteAccessToken(token))
+      )
+    : Effect.void
@@ -0,0 +1,202 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { processCallback, processCallbackError } from './callback.js'
+import { processConsentWithPKCE } from './consent.js'
+import { HydraService } from './hydra.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis } from './test-helpers.js'
+import { UpstreamIdPLive, type UpstreamIdP } from './upstream.js'
+
+describe('processCallback', () => {
+  const config = {
+    middlewareRedirectUri: 'https://auth.example.com/callback',
+    loginMode: 'passthrough' as const,
+  }
+
+  const pkceState = {
+    code_challenge: 'challenge',
+    code_challenge_method: 'S256',
+    scope: 'openid',
+    state: 'client-state',
+    redirect_uri: 'https://client.example.com/cb',
+    client_id: 'client-1',
+    timestamp: Date.now(),
+  }
+
+  const hydra = {
+    getConsentRequest: vi.fn(() =>
+      Effect.succeed({ requested_scope: ['openid'], requested_access_token_audience: [] } as any)
+    ),
+    acceptConsentRequest: vi.fn(() => Effect.succeed({ redirect_to: 'unused' })),
+  }
+
+  const upstream: UpstreamIdP = {
+    provider: 'google',
+    buildAuthUrl: ({ state }) => Effect.succeed(`https://accounts.example.com/auth?state=${state}`),
+    exchangeCode: vi.fn(() =>
+      Effect.succeed({
+        access_token: 'upstream-at',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'openid email',
+      })
+    ),
+    refreshToken: () => Effect.die('not used'),
+    getUserInfo: () => Effect.succeed({ sub: 'google-sub-1', email: 'user@example.com' }),
+    revokeToken: () => Effect.void,
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<HydraService | RedisService | UpstreamIdP>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(HydraService, hydra as unknown as HydraService),
+      UpstreamIdPLive(upstream)
+    )
+    memory.store.set('pkce_session:pkce-1', JSON.stringify(pkceState))
+  })
+
+  // Runs consent, which binds a fresh upstream state to the PKCE session
+  const startUpstreamFlow = async () => {
+    const url = await Effect.runPromise(
+      Effect.provide(processConsentWithPKCE('consent-1', 'pkce-1', config), layer)
+    )
+    return new URL(url).searchParams.get('state') as string
+  }
+
+  it('should bind a random upstream state to the PKCE session at consent', async () => {
+    const state = await startUpstreamFlow()
+
+    const stored = JSON.parse(memory.store.get('pkce_session:pkce-1') as string)
+    expect(state).toBeTruthy()
+    expect(state).not.toBe('consent-1')
+    expect(state).not.toBe(pkceState.state)
+    expect(stored.upstream_state).toBe(state)
+  })
+
+  it('should issue an auth code when the returned state matches', async () => {
+    const state = await startUpstreamFlow()
+
+    const redirect = new URL(
+      await Effect.runPromise(
+        Effect.provide(processCallback('upstream-code', state, 'pkce-1', config), layer)
+      )
+    )
+
+    expect(redirect.origin + redirect.pathname).toBe('https://client.example.com/cb')
+    expect(redirect.searchParams.get('state')).toBe('client-state')
+    expect(redirect.searchParams.get('code')).toBeTruthy()
+    expect(memory.store.has('pkce_session:pkce-1')).toBe(false)
+  })
+
+  it('should reject a mismatched state with StateMismatch', async () => {
+    await startUpstreamFlow()
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        Effect.provide(processCallback('upstream-code', 'forged-state', 'pkce-1', config), layer)
+      )
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('StateMismatch')
+    }
+    expect(upstream.exchangeCode).not.toHaveBeenCalled()
+  })
+
+  it('should reject a callback for a session that never reached consent', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        Effect.provide(processCallback('upstream-code', 'any-state', 'pkce-1', config), layer)
+      )
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('StateMismatch')
+    }
+    expect(upstream.exchangeCode).not.toHaveBeenCalled()
+  })
+
+  it('should fail with RedisKeyNotFound when the PKCE session is gone', async () => {
+    memory.store.clear()
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        Effect.provide(processCallback('upstream-code', 'any-state', 'pkce-1', config), layer)
+      )
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('RedisKeyNotFound')
+    }
+  })
+
+  describe('processCallbackError', () => {
+    it('should relay access_denied to the client redirect_uri with the client state', async () => {
+      const state = await startUpstreamFlow()
+
+      const redirect = new URL(
+        await Effect.runPromise(
+          Effect.provide(
+            processCallbackError(
+              { error: 'access_denied', errorDescription: 'User cancelled' },
+              state,
+              'pkce-1',
+              config
+            ),
+            layer
+          )
+        )
+      )
+
+      expect(redirect.origin + redirect.pathname).toBe('https://client.example.com/cb')
+      expect(redirect.searchParams.get('error')).toBe('access_denied')
+      expect(redirect.searchParams.get('error_description')).toBe('User cancelled')
+      expect(redirect.searchParams.get('state')).toBe('client-state')
+      expect(redirect.searchParams.has('code')).toBe(false)
+      expect(memory.store.has('pkce_session:pkce-1')).toBe(false)
+    })
+
+    it('should report upstream configuration errors as server_error', async () => {
+      const state = await startUpstreamFlow()
+
+      const redirect = new URL(
+        await Effect.runPromise(
+          Effect.provide(
+            processCallbackError({ error: 'unauthorized_client' }, state, 'pkce-1', config),
+            layer
+          )
+        )
+      )
+
+      expect(redirect.searchParams.get('error')).toBe('server_error')
+      expect(redirect.searchParams.get('error_description')).toContain('unauthorized_client')
+    })
+
+    it('should not relay an error for a mismatched state', async () => {
+      await startUpstreamFlow()
+
+      const result = await Effect.runPromise(
+        Effect.either(
+          Effect.provide(
+            processCallbackError({ error: 'access_denied' }, 'forged-state', 'pkce-1', config),
+            layer
+          )
+        )
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('StateMismatch')
+      }
+      expect(memory.store.has('pkce_session:pkce-1')).toBe(true)
+    })
+  })
+})
@@ -1,84 +1,155 @@
 /**
- * Google OAuth callback business logic using Effect
+ * Upstream OAuth callback business logic using Effect
  */
 import * as crypto from 'crypto'
 import { Effect } from 'effect'
-import { PKCEStateSchema } from '../domain.js'
-import { type AppError, GoogleAuthError } from '../errors.js'
+import { DeviceLoginSchema, LoginStateSchema, PKCEStateSchema } from '../domain.js'
+import { type AppError, StateMismatch, UpstreamAuthError } from '../errors.js'
+import { validateState } from '../validation.js'
+import { approveDeviceAuthorization, denyDeviceAuthorization } from './device.js'
+import { HydraService } from './hydra.js'
 import { RedisService, createOAuthRedisOps } from './redis.js'
-import type { AuthCodeData } from '../domain.js';
+import { UpstreamIdP } from './upstream.js'
+import type { LoginMode } from '../config.js'
+import type { AuthCodeData, DeviceLogin, PKCEState, UpstreamUserInfo } from '../domain.js';
 
 /**
  * Configuration for callback
  */
 export interface CallbackConfig {
   readonly middlewareRedirectUri: string
+  readonly loginMode: LoginMode
 }
 
 /**
- * Google OAuth tokens (from google-auth-library)
+ * Exchange the upstream code and resolve who logged in
  */
-interface GoogleOAuthTokens {
-  tokens: {
-    access_token?: string | null
-    refresh_token?: string | null
-    scope?: string | null
-    expires_in?: number | null
-    id_token?: string | null
-    token_type?: string | null
-  }
-}
+const resolveUpstreamIdentity = (
+  upstreamCode: string,
+  config: CallbackConfig
+): Effect.Effect<
+  { authData: AuthCodeData; userInfo: UpstreamUserInfo },
+  AppError,
+  UpstreamIdP
+> =>
+  Effect.gen(function* () {
+    const upstream = yield* UpstreamIdP
 
-/**
- * Google OAuth client interface
- */
-export interface GoogleOAuthClient {
-  getToken(code: string): Promise<GoogleOAuthTokens>
-}
+    // Exchange upstream code for tokens
+    const upstreamTokens = yield* upstream.exchangeCode(
+      upstreamCode,
+      config.middlewareRedirectUri
+    )
+
+    // Ensure required fields are present
+    if (!upstreamTokens.access_token) {
+      return yield* Effect.fail(
+        new UpstreamAuthError({
+          provider: upstream.provider,
+          error: 'missing_access_token',
+          errorDescription: 'Upstream provider did not return an access token',
+        })
+      )
+    }
+
+    // Resolve the subject (userinfo and/or verified ID token, per provider)
+    const userInfo = yield* upstream.getUserInfo(
+      upstreamTokens.access_token,
+      upstreamTokens.id_token
+    )
+
+    yield* Effect.logInfo('Upstream identity resolved').pipe(
+      Effect.annotateLogs({
+        provider: upstream.provider,
+        subject: userInfo.sub,
+        email: userInfo.email,
+      })
+    )
+
+    const authData: AuthCodeData = {
+      google_tokens: {
+        tokens: upstreamTokens,
+      },
+      subject: userInfo.sub,
+      email: userInfo.email,
+    }
+
+    return { authData, userInfo }
+  })
 
 /**
- * Exchange Google authorization code for tokens
- * Using google-auth-library OAuth2Client
+ * Issue our own auth_code for the client
+ * 1. Generate new auth_code for passthrough
+ * 2. Store auth_code and state in Redis
+ * 3. Delete PKCE session
+ * 4. Build redirect URL with new auth_code
  */
-const exchangeGoogleCode = (
-  code: string,
-  redirectUri: string,
-  googleClient: GoogleOAuthClient
-): Effect.Effect<GoogleOAuthTokens, GoogleAuthError> =>
-  Effect.tryPromise({
-    try: () => googleClient.getToken(code),
-    catch: (error) =>
-      new GoogleAuthError({
-        error: 'token_exchange_failed',
-        errorDescription: String(error),
-      }),
+export const issueAuthCode = (
+  pkceKey: string,
+  pkceData: PKCEState,
+  authData: AuthCodeData
+): Effect.Effect<string, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Generate new auth_code for passthrough
+    const authCode = crypto.randomBytes(32).toString('base64url')
+
+    yield* Effect.logInfo('AuthData').pipe(Effect.annotateLogs({ authData }))
+    yield* Effect.logInfo('Generated auth_code').pipe(Effect.annotateLogs({ authCode }))
+
+    // Step 2: Store PKCE state and auth_code in Redis (sequential)
+    yield* redisOps.setAuthCodeState(authCode, pkceData)
+    yield* redisOps.setAuthCode(authCode, authData, 300)
+
+    // Step 3: Delete PKCE session (cleanup) - catch errors to not fail the flow
+    yield* Effect.catchAll(
+      redisOps.deletePKCEState(pkceKey),
+      (err) =>
+        Effect.logError('Failed to delete PKCE session').pipe(
+          Effect.annotateLogs({ err, pkceKey })
+        )
+    )
+
+    // Step 4: Build redirect URL
+    const ptCallback = new URL(pkceData.redirect_uri)
+    ptCallback.searchParams.set('code', authCode)
+    ptCallback.searchParams.set('state', pkceData.state)
+
+    yield* Effect.logInfo('Callback complete, redirecting').pipe(
+      Effect.annotateLogs({
+        redirectUri: ptCallback.toString(),
+      })
+    )
+
+    return ptCallback.toString()
   })
 
 /**
  * Process OAuth callback
- * 1. Fetch PKCE state from Redis
- * 2. Exchange Google auth code for tokens
- * 3. Generate new auth_code for passthrough
- * 4. Store auth_code and state in Redis
- * 5. Delete PKCE session
- * 6. Build redirect URL with new auth_code
+ * 1. Fetch PKCE state from Redis and check the returned state against it
+ * 2. Exchange upstream auth code for tokens
+ * 3. Resolve the user's subject from the upstream identity
+ * 4. Issue our auth_code and redirect to the client
  */
 export const processCallback = (
-  googleCode: string,
+  upstreamCode: string,
   returnedState: string,
   pkceKey: string,
-  googleClient: GoogleOAuthClient,
   config: CallbackConfig
-): Effect.Effect<string, AppError, RedisService> =>
+): Effect.Effect<string, AppError, RedisService | UpstreamIdP> =>
   Effect.gen(function* () {
     // Access services
     const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
 
     const redisOps = createOAuthRedisOps(redis)
 
     yield* Effect.logInfo('Processing OAuth callback').pipe(
       Effect.annotateLogs({
-        code: googleCode,
+        code: upstreamCode,
+        provider: upstream.provider,
         returnedState,
         pkceKey,
       })
@@ -94,48 +165,221 @@ export const processCallback = (
       })
     )
 
-    // Step 2: Exchange Google code for tokens
-    const googleTokens = yield* exchangeGoogleCode(
-      googleCode,
-      config.middlewareRedirectUri,
-      googleClient
+    // The upstream response must belong to the flow this session started
+    yield* validateState(pkceData.upstream_state, returnedState)
+
+    // Steps 2-3: Exchange upstream code and resolve the subject
+    const { authData } = yield* resolveUpstreamIdentity(upstreamCode, config)
+
+    // Step 4: Issue our auth_code
+    return yield* issueAuthCode(pkceKey, pkceData, authData)
+  })
+
+/**
+ * Process the upstream callback of an upstream-first login (LOGIN_MODE=upstream_first)
+ * 1. Look up the pending Hydra login by the returned state
+ * 2. Exchange upstream auth code and resolve the subject
+ * 3. Keep the upstream tokens for the consent step
+ * 4. Accept the Hydra login with the verified subject and return Hydra's redirect
+ */
+export const processLoginCallback = (
+  upstreamCode: string,
+  returnedState: string,
+  pkceKey: string,
+  config: CallbackConfig
+): Effect.Effect<string, AppError, HydraService | RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const hydra = yield* HydraService
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    yield* Effect.logInfo('Processing upstream-first login callback').pipe(
+      Effect.annotateLogs({ provider: upstream.provider, returnedState, pkceKey })
     )
 
-    // Step 3: Ensure required fields are present
-    if (!googleTokens.tokens.access_token) {
-      return yield* Effect.fail(
-        new GoogleAuthError({
-          error: 'missing_access_token',
-          errorDescription: 'Google did not return an access token',
-        })
-      )
+    // Step 1: The state is single use and bound to the browser session that started the login
+    const loginState = yield* redisOps.getLoginState(returnedState, LoginStateSchema)
+    yield* redisOps.deleteLoginState(returnedState)
+
+    if (loginState.pkce_key !== pkceKey) {
+      return yield* Effect.fail(new StateMismatch({ received: returnedState }))
     }
 
-    // Step 4: Generate new auth_code for passthrough
-    const authCode = crypto.randomBytes(32).toString('base64url')
+    // Step 2: Exchange upstream code and resolve the subject
+    const { authData, userInfo } = yield* resolveUpstreamIdentity(upstreamCode, config)
 
-    const authData: AuthCodeData = {
-      google_tokens: {
-        tokens: {
-          access_token: googleTokens.tokens.access_token,
-          scope: googleTokens.tokens.scope ?? '',
-          expires_in: googleTokens.tokens.expires_in ?? 3600,
-          token_type: googleTokens.tokens.token_type ?? 'Bearer',
-          refresh_token: googleTokens.tokens.refresh_token ?? undefined,
-          id_token: googleTokens.tokens.id_token ?? undefined,
-        },
-      },
-      subject: undefined, // Will be populated from user info if needed
+    // Step 3: Keep the upstream tokens until Hydra sends the user to consent
+    yield* redisOps.setUpstreamLogin(pkceKey, authData)
+
+    // Step 4: Accept the held login with who actually authenticated
+    const redirectTo = yield* hydra.acceptLoginRequest(loginState.login_challenge, {
+      subject: userInfo.sub,
+      remember: true,
+      remember_for: 3600,
+      acr: userInfo.acr ?? '0',
+      amr: userInfo.amr ? [...userInfo.amr] : undefined,
+      context: { provider: upstream.provider, email: userInfo.email },
+    })
+
+    yield* Effect.logInfo('Login accepted after upstream authentication').pipe(
+      Effect.annotateLogs({
+        subject: userInfo.sub,
+        redirect_to: redirectTo.redirect_to,
+      })
+    )
+
+    return String(redirectTo.redirect_to)
+  })
+
+/**
+ * Where the user is sent once a device is approved
+ */
+const DEVICE_SUCCESS_PATH = '/device/success'
+
+/**
+ * The pending device verification of a returned state
+ * The state is single use and bound to the browser session that entered the user code
+ */
+const takeDeviceLogin = (
+  returnedState: string,
+  pkceKey: string
+): Effect.Effect<DeviceLogin, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const deviceLogin = yield* redisOps.getDeviceLogin(returnedState, DeviceLoginSchema)
+    yield* redisOps.deleteDeviceLogin(returnedState)
+
+    if (deviceLogin.pkce_key !== pkceKey) {
+      return yield* Effect.fail(new StateMismatch({ received: returnedState }))
     }
 
-    yield* Effect.logInfo('AuthData').pipe(Effect.annotateLogs({ authData }))
-    yield* Effect.logInfo('Generated auth_code').pipe(Effect.annotateLogs({ authCode }))
+    return deviceLogin
+  })
 
-    // Step 5: Store PKCE state and auth_code in Redis (sequential)
-    yield* redisOps.setAuthCodeState(authCode, pkceData)
-    yield* redisOps.setAuthCode(authCode, authData, 300)
+/**
+ * Process the upstream callback of a device verification (RFC 8628)
+ * 1. Look up the pending device verification by the returned state
+ * 2. Exchange upstream auth code and resolve the subject
+ * 3. Approve the device with the upstream login, it redeems it at the token endpoint
+ */
+export const processDeviceCallback = (
+  upstreamCode: string,
+  returnedState: string,
+  pkceKey: string,
+  config: CallbackConfig
+): Effect.Effect<string, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const upstream = yield* UpstreamIdP
+
+    yield* Effect.logInfo('Processing device verification callback').pipe(
+      Effect.annotateLogs({ provider: upstream.provider, returnedState, pkceKey })
+    )
+
+    // Step 1: Look up the pending device verification
+    const deviceLogin = yield* takeDeviceLogin(returnedState, pkceKey)
 
-    // Step 6: Delete PKCE session (cleanup) - catch errors to not fail the flow
+    // Step 2: Exchange upstream code and resolve the subject
+    const { authData } = yield* resolveUpstreamIdentity(upstreamCode, config)
+
+    // Step 3: Approve the device
+    yield* approveDeviceAuthorization(deviceLogin.device_code, authData)
+
+    return DEVICE_SUCCESS_PATH
+  })
+
+/**
+ * Process an upstream `?error=` callback of a device verification
+ * The device is denied, its next poll is answered with access_denied
+ */
+export const processDeviceCallbackError = (
+  upstreamError: UpstreamCallbackError,
+  returnedState: string,
+  pkceKey: string
+): Effect.Effect<void, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const upstream = yield* UpstreamIdP
+
+    yield* Effect.logWarning('Upstream provider returned an error for a device').pipe(
+      Effect.annotateLogs({
+        provider: upstream.provider,
+        error: upstreamError.error,
+        error_description: upstreamError.errorDescription,
+        pkceKey,
+      })
+    )
+
+    const deviceLogin = yield* takeDeviceLogin(returnedState, pkceKey)
+    yield* denyDeviceAuthorization(deviceLogin.device_code)
+  })
+
+/**
+ * Error returned by the upstream provider on its redirect back to us
+ */
+export interface UpstreamCallbackError {
+  readonly error: string
+  readonly errorDescription?: string
+}
+
+/**
+ * Errors relayed to the client as they are, anything else is a problem with
+ * our own upstream registration and surfaces as server_error
+ */
+const RELAYED_UPSTREAM_ERRORS = ['access_denied', 'temporarily_unavailable']
+
+/**
+ * Process an upstream `?error=` callback (e.g. the user pressed Cancel)
+ * 1. Fetch PKCE state and check the returned state belongs to this session
+ * 2. Map the upstream error to an RFC 6749 §4.1.2.1 error
+ * 3. Delete PKCE session
+ * 4. Build the client redirect carrying error, error_description and state
+ */
+export const processCallbackError = (
+  upstreamError: UpstreamCallbackError,
+  returnedState: string,
+  pkceKey: string,
+  config: CallbackConfig
+): Effect.Effect<string, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    yield* Effect.logWarning('Upstream provider returned an error').pipe(
+      Effect.annotateLogs({
+        provider: upstream.provider,
+        error: upstreamError.error,
+        error_description: upstreamError.errorDescription,
+        pkceKey,
+      })
+    )
+
+    // Step 1: Only relay errors for a flow this session started
+    const pkceData = yield* redisOps.getPKCEState(pkceKey, PKCEStateSchema)
+
+    if (config.loginMode === 'upstream_first') {
+      const loginState = yield* redisOps.getLoginState(returnedState, LoginStateSchema)
+      yield* redisOps.deleteLoginState(returnedState)
+
+      if (loginState.pkce_key !== pkceKey) {
+        return yield* Effect.fail(new StateMismatch({ received: returnedState }))
+      }
+    } else {
+      yield* validateState(pkceData.upstream_state, returnedState)
+    }
+
+    // Step 2: Map to the error we report to the client
+    const relayed = RELAYED_UPSTREAM_ERRORS.includes(upstreamError.error)
+    const error = relayed ? upstreamError.error : 'server_error'
+    const errorDescription = relayed
+      ? upstreamError.errorDescription ?? `The ${upstream.provider} login was not completed`
+      : `The ${upstream.provider} login failed (${upstreamError.error})`
+
+    // Step 3: Delete PKCE session, the flow is over
     yield* Effect.catchAll(
       redisOps.deletePKCEState(pkceKey),
       (err) =>
@@ -144,16 +388,11 @@ export const processCallback = (
         )
     )
 
-    // Step 7: Build redirect URL
+    // Step 4: Build redirect URL
     const ptCallback = new URL(pkceData.redirect_uri)
-    ptCallback.searchParams.set('code', authCode)
+    ptCallback.searchParams.set('error', error)
+    ptCallback.searchParams.set('error_description', errorDescription)
     ptCallback.searchParams.set('state', pkceData.state)
 
-    yield* Effect.logInfo('Callback complete, redirecting').pipe(
-      Effect.annotateLogs({
-        redirectUri: ptCallback.toString(),
-      })
-    )
-
     return ptCallback.toString()
   })
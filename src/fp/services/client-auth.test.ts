@@ -0,0 +1,227 @@
+import crypto from 'crypto'
+import { Effect, Layer } from 'effect'
+import { SignJWT, exportJWK, generateKeyPair } from 'jose'
+import { describe, it, expect, afterEach, beforeAll, beforeEach, vi } from 'vitest'
+import { OAuth2ApiService } from '../../api/oauth2.js'
+import { HttpStatusError } from '../errors.js'
+import {
+  JWT_BEARER_ASSERTION_TYPE,
+  authenticateClient,
+  parseClientAuthentication,
+  type ClientAuthentication,
+} from './client-auth.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis } from './test-helpers.js'
+import { DEFAULT_TOKEN_CONFIG } from './token.js'
+import type { JsonWebKey, OAuth2Client } from '@ory/client-fetch'
+
+const basic = (clientId: string, clientSecret: string) =>
+  `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`
+
+describe('parseClientAuthentication', () => {
+  it('should tell the method from where the credentials are', async () => {
+    const assertion = await new SignJWT({})
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuer('agent')
+      .setSubject('agent')
+      .sign(new TextEncoder().encode('not-verified-here'))
+
+    expect(parseClientAuthentication(basic('ci-job', 'secret'), {})).toEqual({
+      method: 'client_secret_basic',
+      clientId: 'ci-job',
+      clientSecret: 'secret',
+    })
+    expect(
+      parseClientAuthentication(undefined, { client_id: 'ci-job', client_secret: 'secret' })
+    ).toEqual({ method: 'client_secret_post', clientId: 'ci-job', clientSecret: 'secret' })
+    expect(
+      parseClientAuthentication(undefined, {
+        client_assertion_type: JWT_BEARER_ASSERTION_TYPE,
+        client_assertion: assertion,
+      })
+    ).toEqual({ method: 'private_key_jwt', clientId: 'agent', clientAssertion: assertion })
+    expect(parseClientAuthentication(undefined, { client_id: 'claude' })).toEqual({
+      method: 'none',
+      clientId: 'claude',
+    })
+  })
+
+  it('should reject more than one method and mismatching client ids', () => {
+    expect(
+      parseClientAuthentication(basic('ci-job', 'secret'), { client_secret: 'secret' })
+    ).toBeUndefined()
+    expect(
+      parseClientAuthentication(basic('ci-job', 'secret'), { client_id: 'other' })
+    ).toBeUndefined()
+    expect(parseClientAuthentication(undefined, {})).toBeUndefined()
+  })
+})
+
+describe('authenticateClient', () => {
+  const TOKEN_ENDPOINT = 'https://auth.example.com/oauth2/token'
+
+  const clients: Record<string, OAuth2Client> = {
+    'ci-job': { client_id: 'ci-job', token_endpoint_auth_method: 'client_secret_basic' },
+    claude: { client_id: 'claude', token_endpoint_auth_method: 'none' },
+    agent: { client_id: 'agent', token_endpoint_auth_method: 'private_key_jwt' },
+  }
+
+  const api = {
+    getClient: vi.fn((id: string) =>
+      clients[id]
+        ? Effect.succeed(clients[id])
+        : Effect.fail(new HttpStatusError({ status: 404, statusText: 'Not Found', body: '' }))
+    ),
+    authenticateClient: vi.fn((params: { clientSecret?: string }) =>
+      params.clientSecret === 'secret'
+        ? Effect.void
+        : Effect.fail(new HttpStatusError({ status: 401, statusText: 'Unauthorized', body: '' }))
+    ),
+  }
+
+  let privateKey: CryptoKey
+  let publicJwk: JsonWebKey
+  let layer: Layer.Layer<OAuth2ApiService | RedisService>
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair('ES256')
+    privateKey = keys.privateKey as CryptoKey
+    publicJwk = { ...(await exportJWK(keys.publicKey)), kid: 'agent-key' } as JsonWebKey
+    clients.agent = { ...clients.agent, jwks: { keys: [publicJwk] } }
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    layer = Layer.mergeAll(
+      Layer.succeed(OAuth2ApiService, api as unknown as OAuth2ApiService),
+      RedisServiceLive(createMemoryRedis().client)
+    )
+  })
+
+  const authenticate = (authentication: ClientAuthentication | undefined) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.provide(
+          authenticateClient(authentication, {
+            ...DEFAULT_TOKEN_CONFIG,
+            tokenEndpoint: TOKEN_ENDPOINT,
+          }),
+          layer
+        )
+      )
+    )
+
+  const clientAssertion = (claims: { aud?: string; jti?: string } = {}) =>
+    new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: 'agent-key' })
+      .setIssuer('agent')
+      .setSubject('agent')
+      .setAudience(claims.aud ?? TOKEN_ENDPOINT)
+      .setJti(claims.jti ?? crypto.randomUUID())
+      .setExpirationTime('1m')
+      .sign(privateKey)
+
+  it('should authenticate a client with its registered method', async () => {
+    const result = await authenticate({
+      method: 'client_secret_basic',
+      clientId: 'ci-job',
+      clientSecret: 'secret',
+    })
+
+    expect(result._tag === 'Right' && result.right.client_id).toBe('ci-job')
+    expect(api.authenticateClient).toHaveBeenCalledWith(
+      expect.objectContaining({ clientId: 'ci-job', authMethod: 'client_secret_basic' })
+    )
+  })
+
+  it('should accept public clients without asking Hydra', async () => {
+    const result = await authenticate({ method: 'none', clientId: 'claude' })
+
+    expect(result._tag).toBe('Right')
+    expect(api.authenticateClient).not.toHaveBeenCalled()
+  })
+
+  it('should reject wrong secrets, other methods and unknown clients', async () => {
+    const results = await Promise.all([
+      authenticate({ method: 'client_secret_basic', clientId: 'ci-job', clientSecret: 'guess' }),
+      authenticate({ method: 'client_secret_post', clientId: 'ci-job', clientSecret: 'secret' }),
+      authenticate({ method: 'none', clientId: 'ci-job' }),
+      authenticate({ method: 'none', clientId: 'unknown' }),
+      authenticate(undefined),
+    ])
+
+    results.forEach((result) => {
+      expect(result._tag === 'Left' && result.left._tag).toBe('InvalidClient')
+    })
+  })
+  it('should verify a client assertion with the registered keys, once', async () => {
+    const assertion = await clientAssertion()
+    const authentication: ClientAuthentication = {
+      method: 'private_key_jwt',
+      clientId: 'agent',
+      clientAssertion: assertion,
+    }
+
+    const first = await authenticate(authentication)
+    const replay = await authenticate(authentication)
+
+    expect(first._tag === 'Right' && first.right.client_id).toBe('agent')
+    expect(replay._tag === 'Left' && replay.left._tag).toBe('InvalidClient')
+    expect(api.authenticateClient).not.toHaveBeenCalled()
+  })
+
+  it('should reject client assertions for another audience or without a jti', async () => {
+    const forHydra = await clientAssertion({ aud: 'https://hydra.example.com/oauth2/token' })
+    const withoutJti = await new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: 'agent-key' })
+      .setIssuer('agent')
+      .setSubject('agent')
+      .setAudience(TOKEN_ENDPOINT)
+      .setExpirationTime('1m')
+      .sign(privateKey)
+
+    const results = await Promise.all(
+      [forHydra, withoutJti].map((clientAssertion) =>
+        authenticate({ method: 'private_key_jwt', clientId: 'agent', clientAssertion })
+      )
+    )
+
+    results.forEach((result) => {
+      expect(result._tag === 'Left' && result.left._tag).toBe('InvalidClient')
+    })
+  })
+
+  it('should fetch a jwks_uri for each request instead of caching it', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ keys: [publicJwk] }))
+    vi.stubGlobal('fetch', fetchMock)
+    const registered = clients.agent
+    clients.agent = {
+      client_id: 'agent',
+      token_endpoint_auth_method: 'private_key_jwt',
+      jwks_uri: 'https://agent.example.com/jwks.json',
+    }
+
+    const results = [
+      await authenticate({
+        method: 'private_key_jwt',
+        clientId: 'agent',
+        clientAssertion: await clientAssertion(),
+      }),
+      await authenticate({
+        method: 'private_key_jwt',
+        clientId: 'agent',
+        clientAssertion: await clientAssertion(),
+      }),
+    ]
+    clients.agent = registered
+
+    results.forEach((result) => {
+      expect(result._tag === 'Right' && result.right.client_id).toBe('agent')
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Client authentication at the token endpoint - Effect version
+ * Clients authenticate with the method they are registered with in Hydra (RFC 6749 §2.3)
+ * Hydra keeps only hashes of secrets, so its token endpoint checks those. Client assertions
+ * name our token endpoint as audience, so they are verified here with the client's keys
+ */
+import { Effect, pipe } from 'effect'
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeJwt,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTVerifyGetKey,
+} from 'jose'
+import { OAuth2ApiService } from '../../api/oauth2.js'
+import { type AppError, InvalidClient } from '../errors.js'
+import { parseBasicCredentials } from '../validation.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import type { TokenEndpointAuthMethod } from '../domain.js'
+import type { TokenConfig } from './token.js'
+import type { OAuth2Client } from '@ory/client-fetch'
+
+export const JWT_BEARER_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+
+/**
+ * How a client authenticated a token request
+ */
+export interface ClientAuthentication {
+  readonly method: TokenEndpointAuthMethod
+  readonly clientId: string
+  readonly clientSecret?: string
+  readonly clientAssertion?: string // private_key_jwt
+}
+
+/**
+ * Client authentication parameters of a token request body
+ */
+interface ClientAuthenticationParams {
+  readonly client_id?: unknown
+  readonly client_secret?: unknown
+  readonly client_assertion?: unknown
+  readonly client_assertion_type?: unknown
+}
+
+/**
+ * The client id an assertion names as subject, its signature is verified later
+ */
+const assertionSubject = (assertion: string): string | undefined => {
+  try {
+    return decodeJwt(assertion).sub
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Tell how a token request authenticates its client
+ * Returns undefined without a client id, or when more than one method is used
+ */
+export const parseClientAuthentication = (
+  authorization: string | undefined,
+  body: ClientAuthenticationParams | undefined
+): ClientAuthentication | undefined => {
+  const basic = parseBasicCredentials(authorization)
+  const clientId = typeof body?.client_id === 'string' ? body.client_id : undefined
+  const clientSecret = typeof body?.client_secret === 'string' ? body.client_secret : undefined
+  const clientAssertion =
+    typeof body?.client_assertion === 'string' ? body.client_assertion : undefined
+
+  if ([basic, clientSecret, clientAssertion].filter(Boolean).length > 1) {
+    return undefined
+  }
+
+  if (basic) {
+    return clientId === undefined || clientId === basic.clientId
+      ? { method: 'client_secret_basic', ...basic }
+      : undefined
+  }
+
+  if (clientAssertion) {
+    const assertedClientId = clientId ?? assertionSubject(clientAssertion)
+    return body?.client_assertion_type === JWT_BEARER_ASSERTION_TYPE && assertedClientId
+      ? { method: 'private_key_jwt', clientId: assertedClientId, clientAssertion }
+      : undefined
+  }
+
+  if (!clientId) {
+    return undefined
+  }
+
+  return clientSecret !== undefined
+    ? { method: 'client_secret_post', clientId, clientSecret }
+    : { method: 'none', clientId }
+}
+
+/**
+ * The keys a client registered, inline or at its jwks_uri
+ * A jwks_uri is client controlled, so it is fetched for the request only, never
+ * kept in the process-wide JWKS caches
+ */
+const clientKeys = (client: OAuth2Client): JWTVerifyGetKey | undefined => {
+  if (client.jwks?.keys?.length) {
+    return createLocalJWKSet(client.jwks as JSONWebKeySet)
+  }
+  try {
+    return client.jwks_uri ? createRemoteJWKSet(new URL(client.jwks_uri)) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Verify a private_key_jwt client assertion with the keys the client is registered with
+ * It must name the client as issuer and subject and our token endpoint as audience,
+ * and is accepted once until it expires (RFC 7523 §3)
+ */
+const verifyClientAssertion = (
+  assertion: string,
+  client: OAuth2Client,
+  config: TokenConfig
+): Effect.Effect<void, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const clientId = client.client_id ?? ''
+    const invalidClient = new InvalidClient({ clientId })
+
+    const keys = clientKeys(client)
+    if (!keys || !config.tokenEndpoint) {
+      return yield* Effect.fail(invalidClient)
+    }
+
+    const { payload } = yield* pipe(
+      Effect.tryPromise(() =>
+        jwtVerify(assertion, keys, {
+          issuer: clientId,
+          subject: clientId,
+          audience: config.tokenEndpoint,
+          algorithms: client.token_endpoint_auth_signing_alg
+            ? [client.token_endpoint_auth_signing_alg]
+            : undefined,
+          requiredClaims: ['exp', 'jti'],
+        })
+      ),
+      Effect.tapError((error) =>
+        Effect.logWarning('Client assertion rejected').pipe(
+          Effect.annotateLogs({ client_id: clientId, error: String(error.error) })
+        )
+      ),
+      Effect.mapError(() => invalidClient)
+    )
+
+    const ttlSeconds = (payload.exp as number) - Math.floor(Date.now() / 1000)
+    const consumed = yield* redisOps.consumeAssertionJti(
+      clientId,
+      payload.jti as string,
+      Math.max(1, ttlSeconds)
+    )
+    if (!consumed) {
+      yield* Effect.logWarning('Client assertion replayed').pipe(
+        Effect.annotateLogs({ client_id: clientId, jti: payload.jti })
+      )
+      return yield* Effect.fail(invalidClient)
+    }
+  })
+
+/**
+ * Authenticate the client of a token request
+ * The registered method is enforced, Hydra's default is client_secret_basic
+ */
+export const authenticateClient = (
+  authentication: ClientAuthentication | undefined,
+  config: TokenConfig
+): Effect.Effect<OAuth2Client, AppError, OAuth2ApiService | RedisService> =>
+  Effect.gen(function* () {
+    if (!authentication) {
+      return yield* Effect.fail(new InvalidClient({ clientId: '' }))
+    }
+
+    const api = yield* OAuth2ApiService
+    const { method, clientId } = authentication
+    const invalidClient = new InvalidClient({ clientId })
+    const rejectedByHydra = (error: AppError) =>
+      error._tag === 'HttpStatusError' && error.status >= 400 && error.status < 500
+
+    const client = yield* pipe(
+      api.getClient(clientId),
+      Effect.catchIf(rejectedByHydra, () => Effect.fail(invalidClient))
+    )
+
+    const registered = client.token_endpoint_auth_method ?? 'client_secret_basic'
+    if (method !== registered) {
+      yield* Effect.logWarning('Client used an authentication method it is not registered with').pipe(
+        Effect.annotateLogs({ client_id: clientId, method, registered })
+      )
+      return yield* Effect.fail(invalidClient)
+    }
+
+    if (method === 'private_key_jwt') {
+      yield* verifyClientAssertion(authentication.clientAssertion ?? '', client, config)
+    } else if (method !== 'none') {
+      yield* pipe(
+        api.authenticateClient({
+          clientId,
+          authMethod: method,
+          clientSecret: authentication.clientSecret ?? '',
+        }),
+        Effect.catchIf(rejectedByHydra, () => Effect.fail(invalidClient))
+      )
+    }
+
+    return client
+  })
@@ -0,0 +1,87 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { processClientCredentialsGrant } from './client-credentials.js'
+import { JWTService } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis, createSigningJWT } from './test-helpers.js'
+import type { ClientCredentialsGrant } from '../domain.js'
+import type { TokenConfig } from './token.js'
+import type { OAuth2Client } from '@ory/client-fetch'
+
+describe('processClientCredentialsGrant', () => {
+  const hydraClient: OAuth2Client = {
+    client_id: 'ci-job',
+    grant_types: ['client_credentials'],
+    scope: 'read write',
+    token_endpoint_auth_method: 'client_secret_post',
+  }
+
+  const jwt = createSigningJWT('service.jwt.token')
+
+  const config: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [{ resource: 'https://mcp.example.com/mcp', name: 'MCP', scopes: [] }],
+    accessTokenFormat: 'jwt',
+  }
+
+  const grant: ClientCredentialsGrant = { grant_type: 'client_credentials' }
+
+  let layer: Layer.Layer<RedisService | JWTService>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    layer = Layer.mergeAll(
+      RedisServiceLive(createMemoryRedis().client),
+      Layer.succeed(JWTService, jwt)
+    )
+  })
+
+  const issue = (overrides: Partial<ClientCredentialsGrant> = {}, client = hydraClient) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.provide(processClientCredentialsGrant({ ...grant, ...overrides }, client, config), layer)
+      )
+    )
+
+  it('should issue a service token with the client as subject', async () => {
+    const result = await issue({ resource: 'https://mcp.example.com/mcp' })
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right).toEqual({
+        access_token: 'service.jwt.token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'read write',
+      })
+      expect(result.right).not.toHaveProperty('refresh_token')
+    }
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: 'ci-job',
+        client_id: 'ci-job',
+        aud: 'https://mcp.example.com/mcp',
+      }),
+      3600,
+      undefined
+    )
+  })
+
+  it('should reject public clients and clients without the grant', async () => {
+    const publicClient = await issue({}, { ...hydraClient, token_endpoint_auth_method: 'none' })
+    const withoutGrant = await issue({}, { ...hydraClient, grant_types: ['authorization_code'] })
+
+    expect(publicClient._tag === 'Left' && publicClient.left._tag).toBe('UnauthorizedClient')
+    expect(withoutGrant._tag === 'Left' && withoutGrant.left._tag).toBe('UnauthorizedClient')
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+
+  it('should limit the scope to the client allowed scopes', async () => {
+    const narrowed = await issue({ scope: 'read' })
+    const exceeded = await issue({ scope: 'read admin' })
+
+    expect(narrowed._tag === 'Right' && narrowed.right.scope).toBe('read')
+    expect(exceeded._tag === 'Left' && exceeded.left._tag).toBe('InvalidScope')
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * OAuth2 Client Credentials Grant - Effect version
+ * Confidential Hydra clients (CI jobs, internal agents) get service tokens without a browser
+ * The token's subject is the client itself, no upstream tokens stand behind it,
+ * so its issuance is recorded for introspection instead
+ */
+import { Effect } from 'effect'
+import { type AppError, UnauthorizedClient } from '../errors.js'
+import { parseScopeString, validateScopes } from '../validation.js'
+import { issueAccessToken } from './access-token.js'
+import { JWTService } from './jwt.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { DEFAULT_ACCESS_TOKEN_TTL, resolveResource, type TokenConfig } from './token.js'
+import type { AccessTokenResponse, ClientCredentialsGrant } from '../domain.js'
+import type { OAuth2Client } from '@ory/client-fetch'
+
+/**
+ * Process client_credentials grant type
+ * Pipeline: Check client -> Check scope and resource -> Issue access token
+ */
+export const processClientCredentialsGrant = (
+  grant: ClientCredentialsGrant,
+  client: OAuth2Client, // Authenticated with authenticateClient
+  config: TokenConfig
+): Effect.Effect<AccessTokenResponse, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const jwt = yield* JWTService
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Only confidential clients allowed the grant may use it
+    const clientId = client.client_id ?? ''
+    if (
+      client.token_endpoint_auth_method === 'none' ||
+      !client.grant_types?.includes('client_credentials')
+    ) {
+      return yield* Effect.fail(
+        new UnauthorizedClient({ clientId, grantType: grant.grant_type })
+      )
+    }
+    const allowedScope = client.scope ?? ''
+
+    // Step 2: The scope defaults to, and is limited by, the client's allowed scopes
+    const scope = grant.scope ?? allowedScope
+    yield* validateScopes(parseScopeString(scope), parseScopeString(allowedScope))
+
+    // Step 3: A registered resource becomes the audience (RFC 8707)
+    const resource = yield* resolveResource(grant.resource, undefined, config)
+
+    // Step 4: Issue the access token, its subject is the client
+    const jti = yield* jwt.generateJti()
+    const accessToken = yield* issueAccessToken(
+      {
+        sub: clientId,
+        scope,
+        client_id: clientId,
+        jti,
+        aud: resource,
+      },
+      DEFAULT_ACCESS_TOKEN_TTL,
+      config.accessTokenFormat
+    )
+    yield* redisOps.setIssuedJti(jti, DEFAULT_ACCESS_TOKEN_TTL)
+
+    yield* Effect.logInfo('Issued client credentials token').pipe(
+      Effect.annotateLogs({ jti, client_id: clientId, scope })
+    )
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer' as const,
+      expires_in: DEFAULT_ACCESS_TOKEN_TTL,
+      scope,
+    }
+  })
@@ -1,52 +1,40 @@
 /**
  * Consent flow business logic using Effect
  */
+import * as crypto from 'crypto'
 import { Effect } from 'effect'
-import { PKCEStateSchema } from '../domain.js'
-import { type AppError } from '../errors.js'
+import { AuthCodeDataSchema, PKCEStateSchema } from '../domain.js'
+import { type AppError, InvalidGrant } from '../errors.js'
+import { issueAuthCode } from './callback.js'
 import { HydraService } from './hydra.js'
 import { RedisService, createOAuthRedisOps } from './redis.js'
+import { UpstreamIdP } from './upstream.js'
+import type { LoginMode } from '../config.js'
 
 /**
- * Configuration for Google OAuth
+ * Configuration for the upstream redirect
  */
 export interface ConsentConfig {
-  readonly googleClientId: string
   readonly middlewareRedirectUri: string
-}
-
-/**
- * Build Google OAuth URL
- */
-const buildGoogleAuthUrl = (
-  config: ConsentConfig,
-  state: string
-): string => {
-  const googleAuthUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth')
-  googleAuthUrl.searchParams.set('client_id', config.googleClientId)
-  googleAuthUrl.searchParams.set('redirect_uri', config.middlewareRedirectUri)
-  googleAuthUrl.searchParams.set('response_type', 'code')
-  googleAuthUrl.searchParams.set('scope', 'openid profile email')
-  googleAuthUrl.searchParams.set('state', state)
-  googleAuthUrl.searchParams.set('access_type', 'offline')
-  googleAuthUrl.searchParams.set('prompt', 'consent')
-  return googleAuthUrl.toString()
+  readonly loginMode: LoginMode
 }
 
 /**
  * Process consent request
  * 1. Get consent info from Hydra
  * 2. Accept consent
- * 3. Build and return Google OAuth URL
+ * 3. Build and return the upstream identity provider's auth URL carrying upstreamState
  */
 export const processConsent = (
   challenge: string,
+  upstreamState: string,
   config: ConsentConfig,
   requestedScope?: string
-): Effect.Effect<string, AppError, HydraService> =>
+): Effect.Effect<string, AppError, HydraService | UpstreamIdP> =>
   Effect.gen(function* () {
     // Access services
     const hydra = yield* HydraService
+    const upstream = yield* UpstreamIdP
 
     yield* Effect.logInfo('Processing consent challenge').pipe(
       Effect.annotateLogs({ challenge })
@@ -74,26 +62,30 @@ export const processConsent = (
       remember_for: 3600,
     })
 
-    // Step 3: Build Google OAuth URL
-    const googleUrl = buildGoogleAuthUrl(config, challenge)
+    // Step 3: Build upstream auth URL
+    const upstreamUrl = yield* upstream.buildAuthUrl({
+      state: upstreamState,
+      redirectUri: config.middlewareRedirectUri,
+    })
 
-    yield* Effect.logInfo('Redirecting to Google OAuth').pipe(
-      Effect.annotateLogs({ url: googleUrl })
+    yield* Effect.logInfo('Redirecting to upstream identity provider').pipe(
+      Effect.annotateLogs({ provider: upstream.provider, url: upstreamUrl })
     )
 
-    return googleUrl
+    return upstreamUrl
   })
 
 /**
  * Process consent with PKCE from session
- * This version fetches PKCE state from Redis first
+ * Binds a fresh random state to the session's PKCE record, processCallback
+ * only accepts an upstream response carrying it back (login CSRF protection)
  */
 export const processConsentWithPKCE = (
   challenge: string,
   sessionId: string,
   config: ConsentConfig,
   requestedScope?: string
-): Effect.Effect<string, AppError, HydraService | RedisService> =>
+): Effect.Effect<string, AppError, HydraService | RedisService | UpstreamIdP> =>
   Effect.gen(function* () {
     // Access services
     const redis = yield* RedisService
@@ -103,16 +95,74 @@ export const processConsentWithPKCE = (
     // Fetch PKCE from Redis
     const pkceData = yield* redisOps.getPKCEState(sessionId, PKCEStateSchema)
 
+    // Bind a per-flow upstream state to the PKCE record
+    const upstreamState = crypto.randomBytes(32).toString('base64url')
+    yield* redisOps.setPKCEState(sessionId, { ...pkceData, upstream_state: upstreamState }, 3600)
+
+    yield* Effect.logInfo('Bound upstream state to PKCE session').pipe(
+      Effect.annotateLogs({ sessionId })
+    )
+
     // Continue with consent flow
-    const baseUrl = yield* processConsent(challenge, config, requestedScope)
+    return yield* processConsent(challenge, upstreamState, config, requestedScope)
+  })
 
-    // Use actual state from PKCE
-    const url = new URL(baseUrl)
-    url.searchParams.set('state', pkceData.state || challenge)
+/**
+ * Process consent after an upstream-first login (LOGIN_MODE=upstream_first)
+ * The user has already authenticated upstream, so no second upstream redirect
+ * 1. Get consent info from Hydra
+ * 2. Load the upstream tokens kept by processLoginCallback
+ * 3. Accept consent
+ * 4. Issue our auth_code and redirect to the client
+ */
+export const processUpstreamFirstConsent = (
+  challenge: string,
+  pkceKey: string,
+  requestedScope?: string
+): Effect.Effect<string, AppError, HydraService | RedisService> =>
+  Effect.gen(function* () {
+    const hydra = yield* HydraService
+    const redis = yield* RedisService
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Get consent info
+    const consentInfo = yield* hydra.getConsentRequest(challenge)
+
+    // Step 2: Load PKCE state and the upstream login for this session
+    const pkceData = yield* redisOps.getPKCEState(pkceKey, PKCEStateSchema)
+    const authData = yield* redisOps.getUpstreamLogin(pkceKey, AuthCodeDataSchema)
+
+    if (consentInfo.subject !== authData.subject) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Consent subject does not match the upstream login' })
+      )
+    }
+
+    // Step 3: Accept consent with requested scopes
+    yield* hydra.acceptConsentRequest(challenge, {
+      grant_scope: requestedScope ? [requestedScope] : consentInfo.requested_scope,
+      grant_access_token_audience: consentInfo.requested_access_token_audience,
+      session: {
+        id_token: authData.email ? { email: authData.email } : {},
+        access_token: {},
+      },
+      remember: true,
+      remember_for: 3600,
+    })
+
+    yield* Effect.catchAll(
+      redisOps.deleteUpstreamLogin(pkceKey),
+      (err) =>
+        Effect.logError('Failed to delete upstream login').pipe(
+          Effect.annotateLogs({ err, pkceKey })
+        )
+    )
 
-    yield* Effect.logInfo('Using PKCE state from session').pipe(
-      Effect.annotateLogs({ sessionId, state: pkceData.state })
+    yield* Effect.logInfo('Consent accepted after upstream-first login').pipe(
+      Effect.annotateLogs({ subject: consentInfo.subject })
     )
 
-    return url.toString()
+    // Step 4: Issue our auth_code
+    return yield* issueAuthCode(pkceKey, pkceData, authData)
   })
@@ -0,0 +1,190 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DEVICE_CODE_GRANT_TYPE } from '../domain.js'
+import {
+  approveDeviceAuthorization,
+  denyDeviceAuthorization,
+  normalizeUserCode,
+  processDeviceAuthorization,
+  processDeviceCodeGrant,
+  processDeviceDenial,
+  processDeviceLookup,
+} from './device.js'
+import { JWTService } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis, createSigningJWT } from './test-helpers.js'
+import type { AuthCodeData } from '../domain.js'
+import type { TokenConfig } from './token.js'
+import type { OAuth2Client } from '@ory/client-fetch'
+
+describe('device authorization grant', () => {
+  const client: OAuth2Client = {
+    client_id: 'mcp-cli',
+    client_name: 'MCP CLI',
+    grant_types: [DEVICE_CODE_GRANT_TYPE, 'refresh_token'],
+    scope: 'openid email',
+    token_endpoint_auth_method: 'none',
+  }
+
+  const jwt = createSigningJWT('device.jwt.token')
+
+  const config: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [],
+    accessTokenFormat: 'jwt',
+    deviceVerificationUri: 'https://auth.example.com/device/verify',
+  }
+
+  const authData: AuthCodeData = {
+    google_tokens: {
+      tokens: {
+        access_token: 'upstream-access',
+        refresh_token: 'upstream-refresh',
+        expires_in: 3600,
+        scope: 'openid email',
+        token_type: 'Bearer',
+      },
+    },
+    subject: 'user-1',
+    email: 'user@example.com',
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(RedisServiceLive(memory.client), Layer.succeed(JWTService, jwt))
+  })
+
+  const run = <A, E>(effect: Effect.Effect<A, E, RedisService | JWTService>) =>
+    Effect.runPromise(Effect.either(Effect.provide(effect, layer)))
+
+  const start = async (scope?: string) => {
+    const result = await run(
+      processDeviceAuthorization({ client_id: 'mcp-cli', scope }, client, config)
+    )
+    if (result._tag === 'Left') {
+      throw new Error(`Device authorization failed: ${result.left._tag}`)
+    }
+    return result.right
+  }
+
+  const poll = (deviceCode: string, pollingClient = client) =>
+    run(
+      processDeviceCodeGrant(
+        { grant_type: DEVICE_CODE_GRANT_TYPE, device_code: deviceCode, client_id: 'mcp-cli' },
+        pollingClient,
+        config
+      )
+    )
+
+  it('should start an authorization the user can find by its user code', async () => {
+    const started = await start()
+
+    expect(started).toMatchObject({
+      verification_uri: 'https://auth.example.com/device/verify',
+      expires_in: 600,
+      interval: 5,
+    })
+    expect(started.user_code).toMatch(/^[BCDFGHJKLMNPQRSTVWXZ]{4}-[BCDFGHJKLMNPQRSTVWXZ]{4}$/)
+    expect(started.verification_uri_complete).toBe(
+      `https://auth.example.com/device/verify?user_code=${started.user_code}`
+    )
+
+    const typed = normalizeUserCode(started.user_code.replace('-', ' ').toLowerCase())
+    expect(memory.store.get(`device_user_code:${typed}`)).toBe(started.device_code)
+  })
+
+  it('should show the user the client and scope the device asked for', async () => {
+    const { user_code } = await start()
+
+    const found = await run(processDeviceLookup(user_code.toLowerCase()))
+
+    expect(found).toMatchObject({
+      _tag: 'Right',
+      right: { client_id: 'mcp-cli', client_name: 'MCP CLI', scope: 'openid email' },
+    })
+  })
+
+  it('should deny the device when the user refuses it', async () => {
+    const { device_code, user_code } = await start()
+
+    const refused = await run(processDeviceDenial(user_code))
+    const [denied, reentered] = [await poll(device_code), await run(processDeviceLookup(user_code))]
+
+    expect(refused._tag).toBe('Right')
+    expect(denied._tag === 'Left' && denied.left._tag).toBe('AccessDenied')
+    expect(reentered._tag === 'Left' && reentered.left._tag).toBe('RedisKeyNotFound')
+  })
+
+  it('should ask the device to wait, then to slow down', async () => {
+    const { device_code } = await start()
+
+    const first = await poll(device_code)
+    const second = await poll(device_code)
+
+    expect(first._tag === 'Left' && first.left._tag).toBe('AuthorizationPending')
+    expect(second._tag === 'Left' && second.left._tag).toBe('SlowDown')
+  })
+
+  it('should issue tokens once, after the user logged in upstream', async () => {
+    const { device_code, user_code } = await start()
+    await run(approveDeviceAuthorization(device_code, authData))
+
+    const [issued, replayed] = [await poll(device_code), await poll(device_code)]
+
+    expect(issued._tag).toBe('Right')
+    if (issued._tag === 'Right') {
+      expect(issued.right).toMatchObject({
+        access_token: 'device.jwt.token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'openid email',
+      })
+      const refresh = JSON.parse(
+        memory.store.get(`jwt_refresh:${issued.right.refresh_token}`) ?? '{}'
+      )
+      expect(refresh).toMatchObject({ jti: 'jti-1', client_id: 'mcp-cli', subject: 'user-1' })
+    }
+    expect(memory.store.has('google_token:jti-1')).toBe(true)
+    expect(memory.store.has(`device_user_code:${user_code}`)).toBe(false)
+    expect(replayed._tag === 'Left' && replayed.left._tag).toBe('ExpiredToken')
+  })
+
+  it('should issue the scope the user confirmed, not the upstream scope', async () => {
+    const { device_code, user_code } = await start('openid')
+    const confirmed = await run(processDeviceLookup(user_code))
+    await run(approveDeviceAuthorization(device_code, authData))
+
+    const issued = await poll(device_code)
+
+    expect(confirmed._tag === 'Right' && confirmed.right.scope).toBe('openid')
+    expect(issued._tag === 'Right' && issued.right.scope).toBe('openid')
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'openid' }),
+      3600,
+      undefined
+    )
+    if (issued._tag === 'Right') {
+      const refresh = JSON.parse(
+        memory.store.get(`jwt_refresh:${issued.right.refresh_token}`) ?? '{}'
+      )
+      expect(refresh.scope).toBe('openid')
+    }
+  })
+
+  it('should deny the device and reject other clients', async () => {
+    const { device_code } = await start()
+
+    const otherClient = await poll(device_code, { ...client, client_id: 'other-cli' })
+    await run(denyDeviceAuthorization(device_code))
+    const denied = await poll(device_code)
+
+    expect(otherClient._tag === 'Left' && otherClient.left._tag).toBe('InvalidGrant')
+    expect(denied._tag === 'Left' && denied.left._tag).toBe('AccessDenied')
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+})
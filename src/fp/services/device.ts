@@ -0,0 +1,368 @@
+/**
+ * OAuth2 Device Authorization Grant (RFC 8628) - Effect version
+ * The user approves a device by entering its user code and logging in upstream,
+ * the device polls the token endpoint and gets tokens stored like an authorization code's
+ */
+import crypto from 'crypto'
+import { Effect, pipe } from 'effect'
+import { DEVICE_CODE_GRANT_TYPE, DeviceAuthorizationSchema } from '../domain.js'
+import {
+  type AppError,
+  AccessDenied,
+  AuthorizationPending,
+  ExpiredToken,
+  InvalidGrant,
+  SlowDown,
+  UnauthorizedClient,
+} from '../errors.js'
+import { parseScopeString, validateScopes } from '../validation.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { issueUpstreamLoginTokens, resolveResource, type TokenConfig } from './token.js'
+import { UpstreamIdP } from './upstream.js'
+import type {
+  AuthCodeData,
+  DeviceAuthorization,
+  DeviceAuthorizationRequest,
+  DeviceAuthorizationResponse,
+  DeviceCodeGrant,
+  DeviceLogin,
+  OAuth2TokenResponse,
+} from '../domain.js'
+import type { JWTService } from './jwt.js'
+import type { OAuth2Client } from '@ory/client-fetch'
+
+/**
+ * Seconds a device code stays valid, and the device waits between polls
+ */
+export const DEVICE_CODE_TTL = 600
+export const DEVICE_POLL_INTERVAL = 5
+
+/**
+ * User codes avoid vowels and look-alike characters (RFC 8628 §6.1)
+ */
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ'
+
+/**
+ * Configuration for the verification page
+ */
+export interface DeviceConfig {
+  readonly middlewareRedirectUri: string
+}
+
+/**
+ * Generate a user code, formatted XXXX-XXXX
+ */
+const generateUserCode = (): string => {
+  const code = Array.from(
+    { length: 8 },
+    () => USER_CODE_ALPHABET[crypto.randomInt(USER_CODE_ALPHABET.length)]
+  ).join('')
+  return `${code.slice(0, 4)}-${code.slice(4)}`
+}
+
+/**
+ * Users may type the code in any case, with or without the dash
+ */
+export const normalizeUserCode = (input: string): string => {
+  const code = input.toUpperCase().replace(/[^A-Z]/g, '')
+  return `${code.slice(0, 4)}-${code.slice(4)}`
+}
+
+/**
+ * Process a device authorization request (RFC 8628 §3.1)
+ * 1. Check the client is allowed the grant
+ * 2. Check the scope and resource
+ * 3. Store the pending authorization under a device code and a user code
+ */
+export const processDeviceAuthorization = (
+  request: DeviceAuthorizationRequest,
+  client: OAuth2Client, // Authenticated with authenticateClient
+  config: TokenConfig
+): Effect.Effect<DeviceAuthorizationResponse, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: The client must be allowed the grant
+    const clientId = client.client_id ?? ''
+    if (!client.grant_types?.includes(DEVICE_CODE_GRANT_TYPE)) {
+      return yield* Effect.fail(
+        new UnauthorizedClient({ clientId, grantType: DEVICE_CODE_GRANT_TYPE })
+      )
+    }
+
+    const verificationUri = config.deviceVerificationUri
+    if (!verificationUri) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Device authorization is not configured' })
+      )
+    }
+
+    // Step 2: The scope defaults to, and is limited by, the client's allowed scopes
+    const allowedScopes = parseScopeString(client.scope ?? '')
+    const scope = request.scope ?? allowedScopes.join(' ')
+    yield* validateScopes(parseScopeString(scope), allowedScopes)
+
+    const resource = yield* resolveResource(request.resource, undefined, config)
+
+    // Step 3: Store the pending authorization
+    const deviceCode = crypto.randomBytes(32).toString('base64url')
+    const userCode = generateUserCode()
+    const now = Date.now()
+    const authorization: DeviceAuthorization = {
+      client_id: clientId,
+      client_name: client.client_name,
+      user_code: userCode,
+      scope,
+      resource,
+      status: 'pending',
+      interval: DEVICE_POLL_INTERVAL,
+      expires_at: now + (DEVICE_CODE_TTL * 1000),
+      created_at: now,
+    }
+
+    yield* redisOps.setDeviceAuthorization(deviceCode, authorization, DEVICE_CODE_TTL)
+    yield* redisOps.setUserCode(userCode, deviceCode, DEVICE_CODE_TTL)
+
+    yield* Effect.logInfo('Device authorization started').pipe(
+      Effect.annotateLogs({ client_id: clientId, scope, resource })
+    )
+
+    return {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+      expires_in: DEVICE_CODE_TTL,
+      interval: DEVICE_POLL_INTERVAL,
+    }
+  })
+
+/**
+ * Find the pending authorization of a user code, with its device code
+ */
+const getPendingAuthorization = (
+  userCode: string
+): Effect.Effect<{ deviceCode: string; authorization: DeviceAuthorization }, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const deviceCode = yield* redisOps.getUserCode(normalizeUserCode(userCode))
+    const authorization = yield* redisOps.getDeviceAuthorization(
+      deviceCode,
+      DeviceAuthorizationSchema
+    )
+
+    if (authorization.status !== 'pending') {
+      return yield* Effect.fail(new InvalidGrant({ reason: 'Code has already been used' }))
+    }
+
+    return { deviceCode, authorization }
+  })
+
+/**
+ * Process a user code entered on the verification page
+ * Returns the pending authorization, so the user can check the client and
+ * scope before approving or denying the device (RFC 8628 §5.4)
+ */
+export const processDeviceLookup = (
+  userCode: string
+): Effect.Effect<DeviceAuthorization, AppError, RedisService> =>
+  pipe(
+    getPendingAuthorization(userCode),
+    Effect.map(({ authorization }) => authorization)
+  )
+
+/**
+ * Process a device the user approved on the confirmation page
+ * 1. Look up the pending authorization of the user code
+ * 2. Store the pending verification under a fresh upstream state
+ * 3. Build and return the upstream identity provider's auth URL
+ * The upstream callback approves the device with processDeviceCallback
+ */
+export const processDeviceVerification = (
+  userCode: string,
+  pkceKey: string,
+  config: DeviceConfig
+): Effect.Effect<{ upstreamUrl: string; state: string }, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Only a pending authorization can be approved
+    const { deviceCode, authorization } = yield* getPendingAuthorization(userCode)
+
+    // Step 2: Store the pending verification, bound to this browser session
+    const state = crypto.randomBytes(32).toString('base64url')
+    const deviceLogin: DeviceLogin = {
+      device_code: deviceCode,
+      pkce_key: pkceKey,
+      timestamp: Date.now(),
+    }
+
+    yield* redisOps.setDeviceLogin(state, deviceLogin)
+
+    yield* Effect.logInfo('Device verification sent upstream').pipe(
+      Effect.annotateLogs({ client_id: authorization.client_id, provider: upstream.provider })
+    )
+
+    // Step 3: Build upstream auth URL
+    const upstreamUrl = yield* upstream.buildAuthUrl({
+      state,
+      redirectUri: config.middlewareRedirectUri,
+    })
+
+    return { upstreamUrl, state }
+  })
+
+/**
+ * Process a device the user denied on the confirmation page
+ * The device is told access_denied on its next poll
+ */
+export const processDeviceDenial = (
+  userCode: string
+): Effect.Effect<void, AppError, RedisService> =>
+  pipe(
+    getPendingAuthorization(userCode),
+    Effect.flatMap(({ deviceCode }) => denyDeviceAuthorization(deviceCode))
+  )
+
+/**
+ * Settle a pending device authorization, it keeps its remaining lifetime
+ * The user code can't be entered again afterwards
+ */
+const settleDeviceAuthorization = (
+  deviceCode: string,
+  settled: Pick<DeviceAuthorization, 'status' | 'authorization'>
+): Effect.Effect<void, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const authorization = yield* redisOps.getDeviceAuthorization(
+      deviceCode,
+      DeviceAuthorizationSchema
+    )
+    const remaining = Math.floor((authorization.expires_at - Date.now()) / 1000)
+
+    if (authorization.status !== 'pending' || remaining <= 0) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Code has expired or has already been used' })
+      )
+    }
+
+    yield* redisOps.setDeviceAuthorization(deviceCode, { ...authorization, ...settled }, remaining)
+
+    yield* Effect.catchAll(
+      redisOps.deleteUserCode(authorization.user_code),
+      (err) =>
+        Effect.logError('Failed to delete user code').pipe(
+          Effect.annotateLogs({ err, client_id: authorization.client_id })
+        )
+    )
+
+    yield* Effect.logInfo('Device authorization settled').pipe(
+      Effect.annotateLogs({
+        client_id: authorization.client_id,
+        status: settled.status,
+        subject: settled.authorization?.subject,
+      })
+    )
+  })
+
+/**
+ * Approve a device with the upstream login of the user who entered its code
+ */
+export const approveDeviceAuthorization = (deviceCode: string, authData: AuthCodeData) =>
+  settleDeviceAuthorization(deviceCode, { status: 'approved', authorization: authData })
+
+/**
+ * Deny a device, the user refused it or cancelled the upstream login
+ */
+export const denyDeviceAuthorization = (deviceCode: string) =>
+  settleDeviceAuthorization(deviceCode, { status: 'denied' })
+
+/**
+ * Process device_code grant type (RFC 8628 §3.4)
+ * Pipeline: Check client -> Fetch authorization -> Answer pending polls -> Take approved code -> Issue tokens
+ */
+export const processDeviceCodeGrant = (
+  grant: DeviceCodeGrant,
+  client: OAuth2Client, // Authenticated with authenticateClient
+  config: TokenConfig
+): Effect.Effect<OAuth2TokenResponse, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: The client must be allowed the grant
+    const clientId = client.client_id ?? ''
+    if (!client.grant_types?.includes(DEVICE_CODE_GRANT_TYPE)) {
+      return yield* Effect.fail(new UnauthorizedClient({ clientId, grantType: grant.grant_type }))
+    }
+
+    // Step 2: Fetch the authorization, an unknown device code has expired
+    const authorization = yield* pipe(
+      redisOps.getDeviceAuthorization(grant.device_code, DeviceAuthorizationSchema),
+      Effect.catchTag('RedisKeyNotFound', () =>
+        Effect.fail(new ExpiredToken({ tokenType: 'device_code' }))
+      )
+    )
+
+    if (authorization.client_id !== clientId) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Device code was not issued to this client' })
+      )
+    }
+
+    // Step 3: Answer polls until the user has settled the authorization,
+    // a device polling faster than its interval is asked to slow down
+    if (authorization.status === 'pending') {
+      const tooFast = yield* redisOps.recordDevicePoll(grant.device_code, authorization.interval)
+      return yield* Effect.fail(
+        tooFast
+          ? new SlowDown({ clientId, interval: authorization.interval })
+          : new AuthorizationPending({ clientId })
+      )
+    }
+
+    if (authorization.status === 'denied') {
+      yield* redisOps.deleteDeviceAuthorization(grant.device_code)
+      return yield* Effect.fail(new AccessDenied({ clientId }))
+    }
+
+    // Step 4: Take the approved code, so concurrent polls cannot both redeem it
+    const approved = yield* pipe(
+      redisOps.takeDeviceAuthorization(grant.device_code, DeviceAuthorizationSchema),
+      Effect.catchTag('RedisKeyNotFound', () =>
+        Effect.fail(new InvalidGrant({ reason: 'Device code has already been used' }))
+      )
+    )
+
+    // Every token must identify the real upstream user
+    const authData = approved.authorization
+    const subject = authData?.subject
+    if (!authData || !subject) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Device code is not bound to a subject' })
+      )
+    }
+
+    // Step 5: Store the upstream tokens and issue ours, for the device's scope and resource
+    const { response, jti } = yield* issueUpstreamLoginTokens(
+      { ...authData, subject },
+      clientId,
+      approved.resource,
+      config,
+      approved.scope // Scope the user confirmed on the verification page
+    )
+
+    yield* Effect.logInfo('Device code redeemed').pipe(
+      Effect.annotateLogs({ jti, client_id: clientId, subject })
+    )
+
+    return response
+  })
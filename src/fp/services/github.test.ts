@@ -0,0 +1,202 @@
+import axios from 'axios'
+import { Effect } from 'effect'
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import {
+  makeGitHubOAuthService,
+  makeGitHubUpstreamIdP,
+  type GitHubOAuthConfig,
+} from './github.js'
+
+// Mock axios
+vi.mock('axios')
+
+describe('GitHubOAuthService', () => {
+  const mockConfig: GitHubOAuthConfig = {
+    clientId: 'gh-client',
+    clientSecret: 'gh-secret',
+  }
+
+  let githubService: ReturnType<typeof makeGitHubOAuthService>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(axios.isAxiosError).mockImplementation(
+      (error: any) => error?.isAxiosError === true
+    )
+    githubService = makeGitHubOAuthService(mockConfig)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('exchangeCode', () => {
+    it('should exchange code for a non-expiring token', async () => {
+      vi.mocked(axios.post).mockResolvedValue({
+        data: { access_token: 'gho_abc', token_type: 'bearer', scope: 'read:user,user:email' },
+      })
+
+      const tokens = await Effect.runPromise(
+        githubService.exchangeCode('code-1', 'https://auth.example.com/callback')
+      )
+
+      expect(tokens.access_token).toBe('gho_abc')
+      expect(tokens.expires_in).toBeUndefined()
+      expect(axios.post).toHaveBeenCalledWith(
+        'https://github.com/login/oauth/access_token',
+        expect.stringContaining('client_secret=gh-secret'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Accept: 'application/json' }),
+        })
+      )
+    })
+
+    it('should fail with UpstreamAuthError on a 200 error body', async () => {
+      vi.mocked(axios.post).mockResolvedValue({
+        data: {
+          error: 'bad_verification_code',
+          error_description: 'The code passed is incorrect or expired.',
+        },
+      })
+
+      const result = await Effect.runPromise(
+        Effect.either(githubService.exchangeCode('stale', 'https://auth.example.com/callback'))
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('UpstreamAuthError')
+        if (result.left._tag === 'UpstreamAuthError') {
+          expect(result.left.provider).toBe('github')
+          expect(result.left.error).toBe('bad_verification_code')
+        }
+      }
+    })
+  })
+
+  describe('getUser', () => {
+    it('should map API failures to HttpStatusError', async () => {
+      vi.mocked(axios.get).mockRejectedValue({
+        isAxiosError: true,
+        response: { status: 401, statusText: 'Unauthorized', data: { message: 'Bad credentials' } },
+      })
+
+      const result = await Effect.runPromise(Effect.either(githubService.getUser('bad')))
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('HttpStatusError')
+      }
+    })
+  })
+})
+
+describe('makeGitHubUpstreamIdP', () => {
+  const github = makeGitHubOAuthService({ clientId: 'gh-client', clientSecret: 'gh-secret' })
+
+  const mockApi = (orgs: Array<{ id: number; login: string }> = []) =>
+    vi.mocked(axios.get).mockImplementation(async (url: string) => {
+      if (url.endsWith('/user')) {
+        return { data: { id: 1234, login: 'octocat', name: null, avatar_url: 'https://a/1' } }
+      }
+      if (url.endsWith('/user/emails')) {
+        return {
+          data: [
+            { email: 'old@example.com', primary: false, verified: true },
+            { email: 'octocat@example.com', primary: true, verified: true },
+          ],
+        }
+      }
+      return { data: orgs }
+    })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should build the GitHub authorize URL', async () => {
+    const idp = makeGitHubUpstreamIdP(github, { clientId: 'gh-client', scope: 'read:user' })
+
+    const url = new URL(
+      await Effect.runPromise(
+        idp.buildAuthUrl({ state: 'challenge-1', redirectUri: 'https://auth.example.com/callback' })
+      )
+    )
+
+    expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize')
+    expect(url.searchParams.get('client_id')).toBe('gh-client')
+    expect(url.searchParams.get('state')).toBe('challenge-1')
+    expect(url.searchParams.get('scope')).toBe('read:user')
+  })
+
+  it('should request read:org when organizations are allowed', async () => {
+    const idp = makeGitHubUpstreamIdP(github, {
+      clientId: 'gh-client',
+      scope: 'read:user',
+      allowedOrgs: ['Acme'],
+    })
+
+    const url = new URL(
+      await Effect.runPromise(
+        idp.buildAuthUrl({ state: 'challenge-1', redirectUri: 'https://auth.example.com/callback' })
+      )
+    )
+
+    expect(url.searchParams.get('scope')).toBe('read:user read:org')
+  })
+
+  it('should normalise comma separated scopes', async () => {
+    vi.mocked(axios.post).mockResolvedValue({
+      data: { access_token: 'gho_abc', token_type: 'bearer', scope: 'read:user,user:email' },
+    })
+    const idp = makeGitHubUpstreamIdP(github, { clientId: 'gh-client', scope: 'read:user' })
+
+    const tokens = await Effect.runPromise(
+      idp.exchangeCode('code-1', 'https://auth.example.com/callback')
+    )
+
+    expect(tokens.scope).toBe('read:user user:email')
+    expect(tokens.expires_in).toBeUndefined()
+  })
+
+  it('should build the subject from the user id and primary email', async () => {
+    mockApi()
+    const idp = makeGitHubUpstreamIdP(github, { clientId: 'gh-client', scope: 'read:user' })
+
+    const userInfo = await Effect.runPromise(idp.getUserInfo('gho_abc'))
+
+    expect(userInfo.sub).toBe('1234')
+    expect(userInfo.email).toBe('octocat@example.com')
+    expect(userInfo.email_verified).toBe(true)
+    expect(userInfo.name).toBe('octocat')
+  })
+
+  it('should reject users outside the allowed organizations', async () => {
+    mockApi([{ id: 1, login: 'other-org' }])
+    const idp = makeGitHubUpstreamIdP(github, {
+      clientId: 'gh-client',
+      scope: 'read:user read:org',
+      allowedOrgs: ['Acme'],
+    })
+
+    const result = await Effect.runPromise(Effect.either(idp.getUserInfo('gho_abc')))
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('UpstreamAuthError')
+    }
+  })
+
+  it('should accept members of an allowed organization', async () => {
+    mockApi([{ id: 1, login: 'acme' }])
+    const idp = makeGitHubUpstreamIdP(github, {
+      clientId: 'gh-client',
+      scope: 'read:user read:org',
+      allowedOrgs: ['Acme'],
+    })
+
+    const userInfo = await Effect.runPromise(idp.getUserInfo('gho_abc'))
+
+    expect(userInfo.sub).toBe('1234')
+  })
+})
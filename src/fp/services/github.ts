@@ -0,0 +1,351 @@
+/**
+ * GitHub OAuth service using Effect for HTTP operations
+ * GitHub is plain OAuth 2.0 (no ID token, no userinfo endpoint), the identity
+ * is built from the REST API instead:
+ * - Code exchange and refresh (GitHub Apps with expiring user tokens)
+ * - User, email and organization lookup
+ * - Token revocation
+ *
+ * makeGitHubUpstreamIdP adapts it to the provider-neutral UpstreamIdP interface
+ */
+import axios from 'axios'
+import { Context, Effect, Layer, pipe } from 'effect'
+import {
+  GitHubEmailsSchema,
+  GitHubOrgsSchema,
+  GitHubTokenResponseSchema,
+  GitHubUserSchema,
+} from '../domain.js'
+import { HttpStatusError, NetworkError, ParseError, UpstreamAuthError } from '../errors.js'
+import { validateSchema } from '../validation.js'
+import type { UpstreamIdP } from './upstream.js'
+import type {
+  GitHubEmails,
+  GitHubOrgs,
+  GitHubTokenResponse,
+  GitHubUser,
+  UpstreamTokenResponse,
+  UpstreamUserInfo,
+} from '../domain.js'
+import type { HttpError } from '../errors.js'
+import type { AxiosError } from 'axios'
+import type { Schema } from 'effect'
+
+/**
+ * GitHub OAuth service interface
+ */
+export interface GitHubOAuthService {
+  readonly exchangeCode: (
+    code: string,
+    redirectUrl: string
+  ) => Effect.Effect<GitHubTokenResponse, HttpError | UpstreamAuthError>
+
+  readonly refreshAccessToken: (
+    refreshToken: string
+  ) => Effect.Effect<GitHubTokenResponse, HttpError | UpstreamAuthError>
+
+  readonly getUser: (accessToken: string) => Effect.Effect<GitHubUser, HttpError>
+
+  readonly getUserEmails: (accessToken: string) => Effect.Effect<GitHubEmails, HttpError>
+
+  readonly getUserOrgs: (accessToken: string) => Effect.Effect<GitHubOrgs, HttpError>
+
+  readonly revokeToken: (token: string) => Effect.Effect<void, HttpError>
+}
+
+/**
+ * GitHub OAuth service tag
+ */
+export const GitHubOAuthService = Context.GenericTag<GitHubOAuthService>('GitHubOAuthService')
+
+/**
+ * Configuration for GitHub OAuth
+ * The URLs can be pointed at a GitHub Enterprise Server instance
+ */
+export interface GitHubOAuthConfig {
+  clientId: string
+  clientSecret: string
+  tokenEndpoint?: string
+  apiUrl?: string
+}
+
+/**
+ * Create GitHub OAuth service implementation
+ */
+export const makeGitHubOAuthService = (config: GitHubOAuthConfig): GitHubOAuthService => {
+  const TOKEN_ENDPOINT = config.tokenEndpoint ?? 'https://github.com/login/oauth/access_token'
+  const API_URL = (config.apiUrl ?? 'https://api.github.com').replace(/\/$/, '')
+
+  /**
+   * Helper to handle axios errors
+   */
+  const handleAxiosError = (error: unknown, operationName: string): HttpError => {
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError
+
+      if (axiosError.response) {
+        return new HttpStatusError({
+          status: axiosError.response.status,
+          statusText: axiosError.response.statusText,
+          body: axiosError.response.data,
+        })
+      }
+    }
+
+    return new NetworkError({
+      message: `Network error during GitHub ${operationName}`,
+      cause: error,
+    })
+  }
+
+  /**
+   * POST to the token endpoint
+   * GitHub reports OAuth errors with a 200 status and an error body
+   */
+  const tokenRequest = (
+    params: Record<string, string>,
+    operationName: string
+  ): Effect.Effect<GitHubTokenResponse, HttpError | UpstreamAuthError> =>
+    pipe(
+      Effect.tryPromise({
+        try: async () => {
+          const response = await axios.post(
+            TOKEN_ENDPOINT,
+            new URLSearchParams({
+              ...params,
+              client_id: config.clientId,
+              client_secret: config.clientSecret,
+            }).toString(),
+            {
+              headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Accept: 'application/json',
+              },
+            }
+          )
+          return response.data
+        },
+        catch: (error) => handleAxiosError(error, operationName),
+      }),
+      Effect.flatMap((data) =>
+        data && typeof data.error === 'string'
+          ? Effect.fail(
+              new UpstreamAuthError({
+                provider: 'github',
+                error: data.error,
+                errorDescription: data.error_description,
+              })
+            )
+          : Effect.succeed(data)
+      ),
+      Effect.flatMap((data) => validateSchema(GitHubTokenResponseSchema, data)),
+      Effect.mapError(
+        (error): HttpError | UpstreamAuthError =>
+          error._tag === 'SchemaValidationError'
+            ? new ParseError({
+                message: `Failed to parse GitHub token response: ${error.errors.join(', ')}`,
+              })
+            : error
+      ),
+      Effect.tapError((error) =>
+        Effect.logError(`=== GITHUB ${operationName} ERROR ===`).pipe(
+          Effect.annotateLogs({ error_tag: error._tag, error_details: error })
+        )
+      )
+    )
+
+  /**
+   * GET a REST API resource with the user's token
+   */
+  const apiGet = <A, I>(
+    path: string,
+    accessToken: string,
+    schema: Schema.Schema<A, I, never>
+  ): Effect.Effect<A, HttpError> =>
+    pipe(
+      Effect.tryPromise({
+        try: async () => {
+          const response = await axios.get(`${API_URL}${path}`, {
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              Accept: 'application/vnd.github+json',
+            },
+          })
+          return response.data
+        },
+        catch: (error) => handleAxiosError(error, `GET ${path}`),
+      }),
+      Effect.flatMap((data) => validateSchema(schema, data)),
+      Effect.mapError(
+        (error): HttpError =>
+          error._tag === 'SchemaValidationError'
+            ? new ParseError({
+                message: `Failed to parse GitHub ${path} response: ${error.errors.join(', ')}`,
+              })
+            : error
+      )
+    )
+
+  return {
+    exchangeCode: (code, redirectUrl) =>
+      tokenRequest({ code, redirect_uri: redirectUrl }, 'exchangeCode'),
+
+    refreshAccessToken: (refreshToken) =>
+      tokenRequest(
+        { grant_type: 'refresh_token', refresh_token: refreshToken },
+        'refreshAccessToken'
+      ),
+
+    getUser: (accessToken) => apiGet('/user', accessToken, GitHubUserSchema),
+
+    getUserEmails: (accessToken) => apiGet('/user/emails', accessToken, GitHubEmailsSchema),
+
+    getUserOrgs: (accessToken) => apiGet('/user/orgs', accessToken, GitHubOrgsSchema),
+
+    revokeToken: (token) =>
+      Effect.tryPromise({
+        try: async () => {
+          await axios.delete(`${API_URL}/applications/${config.clientId}/token`, {
+            auth: { username: config.clientId, password: config.clientSecret },
+            headers: { Accept: 'application/vnd.github+json' },
+            data: { access_token: token },
+          })
+        },
+        catch: (error) => handleAxiosError(error, 'revokeToken'),
+      }),
+  }
+}
+
+/**
+ * Create a Layer for GitHubOAuthService
+ */
+export const GitHubOAuthServiceLive = (config: GitHubOAuthConfig) =>
+  Layer.succeed(GitHubOAuthService, makeGitHubOAuthService(config))
+
+/**
+ * Configuration for the GitHub upstream identity provider
+ */
+export interface GitHubUpstreamIdPConfig {
+  clientId: string
+  scope: string
+  allowedOrgs?: ReadonlyArray<string>
+  authEndpoint?: string
+}
+
+/**
+ * Convert GitHub's token response to the upstream shape
+ * GitHub separates scopes with commas, OAuth 2.0 uses spaces
+ */
+const toUpstreamTokens = (
+  tokens: GitHubTokenResponse,
+  requestedScope: string
+): UpstreamTokenResponse => ({
+  access_token: tokens.access_token,
+  token_type: tokens.token_type,
+  scope:
+    tokens.scope
+      .split(',')
+      .map((scope) => scope.trim())
+      .filter(Boolean)
+      .join(' ') || requestedScope,
+  expires_in: tokens.expires_in,
+  refresh_token: tokens.refresh_token,
+})
+
+/**
+ * Add read:org to a scope when logins are restricted to organizations
+ * Without it /user/orgs only lists public memberships
+ */
+const withOrgScope = (scope: string, allowedOrgs: ReadonlyArray<string>): string => {
+  const scopes = scope.split(' ').filter(Boolean)
+  return allowedOrgs.length > 0 && !scopes.includes('read:org')
+    ? [...scopes, 'read:org'].join(' ')
+    : scope
+}
+
+/**
+ * Adapt GitHubOAuthService to the UpstreamIdP interface
+ * The subject is the numeric GitHub user id, which survives login renames
+ */
+export const makeGitHubUpstreamIdP = (
+  github: GitHubOAuthService,
+  config: GitHubUpstreamIdPConfig
+): UpstreamIdP => {
+  const AUTH_ENDPOINT = config.authEndpoint ?? 'https://github.com/login/oauth/authorize'
+  const allowedOrgs = (config.allowedOrgs ?? []).map((org) => org.toLowerCase())
+  const requestedScope = withOrgScope(config.scope, allowedOrgs)
+
+  return {
+    provider: 'github',
+
+    buildAuthUrl: ({ state, redirectUri, scope }) =>
+      Effect.sync(() => {
+        const githubAuthUrl = new URL(AUTH_ENDPOINT)
+        githubAuthUrl.searchParams.set('client_id', config.clientId)
+        githubAuthUrl.searchParams.set('redirect_uri', redirectUri)
+        githubAuthUrl.searchParams.set('scope', withOrgScope(scope ?? config.scope, allowedOrgs))
+        githubAuthUrl.searchParams.set('state', state)
+        return githubAuthUrl.toString()
+      }),
+
+    exchangeCode: (code, redirectUri) =>
+      pipe(
+        github.exchangeCode(code, redirectUri),
+        Effect.map((tokens) => toUpstreamTokens(tokens, requestedScope))
+      ),
+
+    refreshToken: (refreshToken) =>
+      pipe(
+        github.refreshAccessToken(refreshToken),
+        Effect.map((tokens) => toUpstreamTokens(tokens, requestedScope))
+      ),
+
+    getUserInfo: (accessToken) =>
+      Effect.gen(function* () {
+        const [user, emails] = yield* Effect.all(
+          [
+            github.getUser(accessToken),
+            // /user/emails needs the user:email scope, fall back to the public email
+            github.getUserEmails(accessToken).pipe(
+              Effect.catchAll((error) =>
+                Effect.logWarning('Could not read GitHub user emails').pipe(
+                  Effect.annotateLogs({ error_tag: error._tag }),
+                  Effect.as([] as GitHubEmails)
+                )
+              )
+            ),
+          ],
+          { concurrency: 'unbounded' }
+        )
+
+        if (allowedOrgs.length > 0) {
+          const orgs = yield* github.getUserOrgs(accessToken)
+          const isMember = orgs.some((org) => allowedOrgs.includes(org.login.toLowerCase()))
+
+          if (!isMember) {
+            return yield* Effect.fail(
+              new UpstreamAuthError({
+                provider: 'github',
+                error: 'access_denied',
+                errorDescription: `GitHub user ${user.login} is not a member of an allowed organization`,
+              })
+            )
+          }
+        }
+
+        const primary = emails.find((email) => email.primary && email.verified)
+
+        const userInfo: UpstreamUserInfo = {
+          sub: String(user.id),
+          email: primary?.email ?? user.email ?? undefined,
+          email_verified: primary ? true : undefined,
+          name: user.name ?? user.login,
+          picture: user.avatar_url,
+        }
+
+        return userInfo
+      }),
+
+    revokeToken: (token) => github.revokeToken(token),
+  }
+}
@@ -3,7 +3,11 @@ import { Effect } from 'effect'
 import { OAuth2Client } from 'google-auth-library'
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { HttpStatusError, NetworkError, GoogleAuthError } from '../errors.js'
-import { makeGoogleOAuthService, type GoogleOAuthConfig } from './google.js'
+import {
+  makeGoogleOAuthService,
+  makeGoogleUpstreamIdP,
+  type GoogleOAuthConfig,
+} from './google.js'
 import type { GoogleTokenResponse, RefreshTokenData } from '../domain.js'
 
 // Mock axios
@@ -436,4 +440,129 @@ describe('GoogleOAuthService', () => {
       )
     })
   })
+
+  describe('exchangeCode', () => {
+    it('should exchange code for tokens at the token endpoint', async () => {
+      const mockResponse: GoogleTokenResponse = {
+        access_token: 'access-token-123',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'openid profile email',
+        refresh_token: 'refresh-token-123',
+        id_token: 'id-token-123',
+      }
+
+      vi.mocked(axios.post).mockResolvedValue({
+        data: mockResponse,
+        status: 200,
+      })
+
+      const result = await Effect.runPromise(
+        googleService.exchangeCode('auth-code-123', 'https://auth.example.com/callback')
+      )
+
+      expect(result).toEqual(mockResponse)
+      expect(axios.post).toHaveBeenCalledWith(
+        'https://oauth2.googleapis.com/token',
+        expect.stringContaining('grant_type=authorization_code'),
+        expect.any(Object)
+      )
+    })
+
+    it('should handle invalid code errors', async () => {
+      const axiosError = {
+        isAxiosError: true,
+        response: {
+          status: 400,
+          data: {
+            error: 'invalid_grant',
+            error_description: 'Malformed auth code.',
+          },
+        },
+      }
+
+      vi.mocked(axios.post).mockRejectedValue(axiosError)
+      vi.mocked(axios.isAxiosError).mockReturnValue(true)
+
+      const result = await Effect.runPromise(
+        Effect.either(googleService.exchangeCode('bad-code', 'https://auth.example.com/callback'))
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left).toBeInstanceOf(GoogleAuthError)
+      }
+    })
+  })
+
+  describe('makeGoogleUpstreamIdP', () => {
+    const upstreamConfig = {
+      clientId: 'test-client-id',
+      scope: 'openid profile email',
+    }
+
+    it('should build the Google auth URL', async () => {
+      const upstream = makeGoogleUpstreamIdP(googleService, upstreamConfig)
+
+      const result = await Effect.runPromise(
+        upstream.buildAuthUrl({
+          state: 'state-123',
+          redirectUri: 'https://auth.example.com/callback',
+        })
+      )
+
+      const url = new URL(result)
+      expect(url.origin).toBe('https://accounts.google.com')
+      expect(url.searchParams.get('client_id')).toBe('test-client-id')
+      expect(url.searchParams.get('redirect_uri')).toBe('https://auth.example.com/callback')
+      expect(url.searchParams.get('scope')).toBe('openid profile email')
+      expect(url.searchParams.get('state')).toBe('state-123')
+      expect(url.searchParams.get('access_type')).toBe('offline')
+    })
+
+    it('should normalise Google user info', async () => {
+      const upstream = makeGoogleUpstreamIdP(googleService, upstreamConfig)
+
+      vi.mocked(axios.get).mockResolvedValue({
+        data: {
+          id: 'google-sub-123',
+          email: 'user@example.com',
+          verified_email: true,
+          name: 'Test User',
+        },
+        status: 200,
+      })
+
+      const result = await Effect.runPromise(
+        upstream.getUserInfo('access-token-123', 'id-token-123')
+      )
+
+      expect(result).toEqual({
+        sub: 'google-sub-123',
+        email: 'user@example.com',
+        email_verified: true,
+        name: 'Test User',
+        picture: undefined,
+      })
+    })
+
+    it('should refresh through the token endpoint', async () => {
+      const upstream = makeGoogleUpstreamIdP(googleService, upstreamConfig)
+
+      vi.mocked(axios.post).mockResolvedValue({
+        data: {
+          access_token: 'new-access-token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'openid',
+        },
+        status: 200,
+      })
+
+      const result = await Effect.runPromise(upstream.refreshToken('refresh-token-123'))
+
+      expect(result.access_token).toBe('new-access-token')
+      expect(upstream.provider).toBe('google')
+    })
+  })
 })
@@ -7,6 +7,9 @@
  * - Auth URL generation
  * - Token exchange from code
  * - User info retrieval
+ * - Token revocation
+ *
+ * makeGoogleUpstreamIdP adapts it to the provider-neutral UpstreamIdP interface
  */
 import axios from 'axios'
 import { Effect, pipe, Context, Layer } from 'effect'
@@ -17,10 +20,12 @@ import {
 } from '../domain.js'
 import { NetworkError, HttpStatusError, ParseError, GoogleAuthError } from '../errors.js'
 import { validateSchema } from '../validation.js'
+import type { UpstreamIdP } from './upstream.js'
 import type {
   GoogleTokenResponse,
   GoogleUserInfoResponse,
-  RefreshTokenData} from '../domain.js';
+  RefreshTokenData,
+  UpstreamUserInfo} from '../domain.js';
 import type { HttpError} from '../errors.js';
 import type { AxiosError } from 'axios';
 
@@ -51,6 +56,13 @@ export interface GoogleOAuthService {
     accessToken: string,
     idToken: string
   ) => Effect.Effect<GoogleUserInfoResponse, HttpError | GoogleAuthError>
+
+  readonly exchangeCode: (
+    code: string,
+    redirectUrl: string
+  ) => Effect.Effect<GoogleTokenResponse, HttpError | GoogleAuthError>
+
+  readonly revokeToken: (token: string) => Effect.Effect<void, HttpError | GoogleAuthError>
 }
 
 /**
@@ -67,6 +79,7 @@ export interface GoogleOAuthConfig {
   redirectUri?: string
   tokenEndpoint?: string
   userInfoEndpoint?: string
+  revokeEndpoint?: string
 }
 
 /**
@@ -77,6 +90,7 @@ export const makeGoogleOAuthService = (
 ): GoogleOAuthService => {
   const TOKEN_ENDPOINT = config.tokenEndpoint ?? 'https://oauth2.googleapis.com/token'
   const USER_INFO_ENDPOINT = config.userInfoEndpoint ?? 'https://www.googleapis.com/oauth2/v2/userinfo'
+  const REVOKE_ENDPOINT = config.revokeEndpoint ?? 'https://oauth2.googleapis.com/revoke'
 
   // Create OAuth2Client if redirectUri is provided (for auth flow operations)
   const oauth2Client = config.redirectUri ? new OAuth2Client({
@@ -387,6 +401,65 @@ export const makeGoogleOAuthService = (
               : error
         )
       ),
+
+    exchangeCode: (code: string, redirectUrl: string) =>
+      pipe(
+        Effect.tryPromise({
+          try: async () => {
+            const response = await axios.post(
+              TOKEN_ENDPOINT,
+              new URLSearchParams({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: redirectUrl,
+                client_id: config.clientId,
+                client_secret: config.clientSecret,
+              }).toString(),
+              {
+                headers: {
+                  'Content-Type': 'application/x-www-form-urlencoded',
+                },
+              }
+            )
+            return response.data
+          },
+          catch: (error) => handleAxiosError(error, 'exchangeCode'),
+        }),
+        Effect.flatMap((data) => validateSchema(GoogleTokenResponseSchema, data)),
+        Effect.tapError((error) =>
+          Effect.logError('=== GOOGLE exchangeCode ERROR ===').pipe(
+            Effect.annotateLogs({
+              error_tag: error._tag,
+              error_details: error,
+              code_preview: code ? `${code.substring(0, 20)}...` : 'none',
+            })
+          )
+        ),
+        Effect.mapError(
+          (error): HttpError | GoogleAuthError =>
+            error._tag === 'SchemaValidationError'
+              ? new ParseError({
+                  message: `Failed to parse Google token response: ${error.errors.join(', ')}`,
+                })
+              : error
+        )
+      ),
+
+    revokeToken: (token: string) =>
+      Effect.tryPromise({
+        try: async () => {
+          await axios.post(
+            REVOKE_ENDPOINT,
+            new URLSearchParams({ token }).toString(),
+            {
+              headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+              },
+            }
+          )
+        },
+        catch: (error) => handleAxiosError(error, 'revokeToken'),
+      }),
   }
 }
 
@@ -395,3 +468,58 @@ export const makeGoogleOAuthService = (
  */
 export const GoogleOAuthServiceLive = (config: GoogleOAuthConfig) =>
   Layer.succeed(GoogleOAuthService, makeGoogleOAuthService(config))
+
+/**
+ * Configuration for the Google upstream identity provider
+ */
+export interface GoogleUpstreamConfig {
+  clientId: string
+  scope: string
+  authEndpoint?: string
+}
+
+/**
+ * Adapt GoogleOAuthService to the UpstreamIdP interface
+ */
+export const makeGoogleUpstreamIdP = (
+  google: GoogleOAuthService,
+  config: GoogleUpstreamConfig
+): UpstreamIdP => {
+  const AUTH_ENDPOINT = config.authEndpoint ?? 'https://accounts.google.com/o/oauth2/v2/auth'
+
+  return {
+    provider: 'google',
+
+    buildAuthUrl: ({ state, redirectUri, scope }) =>
+      Effect.sync(() => {
+        const googleAuthUrl = new URL(AUTH_ENDPOINT)
+        googleAuthUrl.searchParams.set('client_id', config.clientId)
+        googleAuthUrl.searchParams.set('redirect_uri', redirectUri)
+        googleAuthUrl.searchParams.set('response_type', 'code')
+        googleAuthUrl.searchParams.set('scope', scope ?? config.scope)
+        googleAuthUrl.searchParams.set('state', state)
+        googleAuthUrl.searchParams.set('access_type', 'offline')
+        googleAuthUrl.searchParams.set('prompt', 'consent')
+        return googleAuthUrl.toString()
+      }),
+
+    exchangeCode: (code, redirectUri) => google.exchangeCode(code, redirectUri),
+
+    refreshToken: (refreshToken) => google.refreshAccessToken(refreshToken),
+
+    // The userinfo endpoint is authorized by the access token, not the ID token
+    getUserInfo: (accessToken) =>
+      pipe(
+        google.getUserInfo(accessToken, accessToken),
+        Effect.map((userInfo): UpstreamUserInfo => ({
+          sub: userInfo.id,
+          email: userInfo.email,
+          email_verified: userInfo.verified_email,
+          name: userInfo.name,
+          picture: userInfo.picture,
+        }))
+      ),
+
+    revokeToken: (token) => google.revokeToken(token),
+  }
+}
@@ -0,0 +1,117 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { processClientCredentialsGrant } from './client-credentials.js'
+import { processIntrospection } from './introspection.js'
+import { JWTService, type JWTClaims } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis, createSigningJWT, createVerifyingJWT } from './test-helpers.js'
+import { DEFAULT_TOKEN_CONFIG } from './token.js'
+
+describe('processIntrospection', () => {
+  const now = Math.floor(Date.now() / 1000)
+  const claims: JWTClaims = {
+    sub: 'user-1',
+    scope: 'openid email',
+    client_id: 'client-1',
+    jti: 'jti-1',
+    iat: now,
+    exp: now + 600,
+  }
+
+  const jwt = createVerifyingJWT(claims)
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService>
+
+  beforeEach(() => {
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(RedisServiceLive(memory.client), Layer.succeed(JWTService, jwt))
+
+    memory.store.set('google_token:jti-1', '{}')
+    memory.store.set(
+      'jwt_refresh:rt-1',
+      JSON.stringify({
+        jti: 'jti-1',
+        client_id: 'client-1',
+        scope: 'openid email',
+        subject: 'user-1',
+        created_at: now * 1000,
+      })
+    )
+  })
+
+  const introspect = (token: string, hint?: string) =>
+    Effect.runPromise(
+      Effect.provide(processIntrospection({ token, token_type_hint: hint }), layer)
+    )
+
+  it('should describe an active access token', async () => {
+    const response = await introspect('access.jwt.token')
+
+    expect(response).toEqual({
+      active: true,
+      sub: 'user-1',
+      client_id: 'client-1',
+      scope: 'openid email',
+      exp: now + 600,
+      iat: now,
+      token_type: 'Bearer',
+    })
+  })
+
+  it('should report a denylisted access token as inactive', async () => {
+    memory.store.set('revoked_jti:jti-1', String(Date.now()))
+
+    expect(await introspect('access.jwt.token')).toEqual({ active: false })
+  })
+
+  it('should report an access token without upstream tokens as inactive', async () => {
+    memory.store.delete('google_token:jti-1')
+
+    expect(await introspect('access.jwt.token')).toEqual({ active: false })
+  })
+
+  it('should describe an active client credentials token', async () => {
+    memory.store.delete('google_token:jti-1')
+    const issued = await Effect.runPromise(
+      Effect.provide(
+        processClientCredentialsGrant(
+          { grant_type: 'client_credentials' },
+          {
+            client_id: 'ci-job',
+            grant_types: ['client_credentials'],
+            scope: 'read',
+            token_endpoint_auth_method: 'client_secret_basic',
+          },
+          { ...DEFAULT_TOKEN_CONFIG, accessTokenFormat: 'opaque' }
+        ),
+        Layer.mergeAll(
+          RedisServiceLive(memory.client),
+          Layer.succeed(JWTService, createSigningJWT('unused'))
+        )
+      )
+    )
+
+    expect(await introspect(issued.access_token)).toMatchObject({
+      active: true,
+      sub: 'ci-job',
+      client_id: 'ci-job',
+      scope: 'read',
+    })
+  })
+
+  it('should describe an active refresh token', async () => {
+    const response = await introspect('rt-1', 'refresh_token')
+
+    expect(response).toMatchObject({
+      active: true,
+      sub: 'user-1',
+      client_id: 'client-1',
+      token_type: 'refresh_token',
+    })
+  })
+
+  it('should report unknown tokens as inactive', async () => {
+    expect(await introspect('unknown-token')).toEqual({ active: false })
+  })
+})
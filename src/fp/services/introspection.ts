@@ -0,0 +1,117 @@
+/**
+ * OAuth2 Token Introspection (RFC 7662) - Effect version
+ * Lets resource servers check the JWT access tokens and refresh tokens we mint,
+ * including whether they were revoked
+ */
+import { Effect, pipe } from 'effect'
+import { JWTRefreshDataSchema } from '../domain.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { verifyAccessToken } from './revocation.js'
+import type { IntrospectionRequest, IntrospectionResponse, JWTRefreshData } from '../domain.js'
+import type { AppError } from '../errors.js'
+import type { JWTClaims, JWTService } from './jwt.js'
+
+const INACTIVE: IntrospectionResponse = { active: false }
+
+/**
+ * Introspect one of our access tokens
+ * Active while the signature verifies or the opaque token is stored, the JTI is not denylisted
+ * and its upstream tokens exist, or for tokens without upstream tokens, its issuance is recorded
+ */
+const introspectAccessToken = (
+  token: string
+): Effect.Effect<IntrospectionResponse, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Invalid, expired and revoked tokens are all just inactive
+    const claims = yield* pipe(
+      verifyAccessToken(token),
+      Effect.map((data): JWTClaims | undefined => data),
+      Effect.catchIf(
+        (error) => error._tag === 'ParseError' || error._tag === 'TokenRevoked',
+        () => Effect.succeed(undefined)
+      )
+    )
+
+    if (!claims) {
+      return INACTIVE
+    }
+
+    const issued =
+      (yield* redisOps.hasGoogleToken(claims.jti)) || (yield* redisOps.isJtiIssued(claims.jti))
+    if (!issued) {
+      return INACTIVE
+    }
+
+    return {
+      active: true,
+      sub: claims.sub,
+      client_id: claims.client_id,
+      scope: claims.scope,
+      exp: claims.exp,
+      iat: claims.iat,
+      aud: claims.aud,
+      token_type: 'Bearer',
+    }
+  })
+
+/**
+ * Introspect one of our refresh tokens
+ * Active while it is stored and its upstream tokens exist
+ */
+const introspectRefreshToken = (
+  token: string
+): Effect.Effect<IntrospectionResponse, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const jwtRefreshData = yield* pipe(
+      redisOps.getJWTRefresh(token, JWTRefreshDataSchema),
+      Effect.map((data): JWTRefreshData | undefined => data),
+      Effect.catchTag('RedisKeyNotFound', () => Effect.succeed(undefined))
+    )
+
+    if (!jwtRefreshData || !(yield* redisOps.hasGoogleToken(jwtRefreshData.jti))) {
+      return INACTIVE
+    }
+
+    return {
+      active: true,
+      sub: jwtRefreshData.subject,
+      client_id: jwtRefreshData.client_id,
+      scope: jwtRefreshData.scope,
+      iat: Math.floor(jwtRefreshData.created_at / 1000),
+      aud: jwtRefreshData.resource,
+      token_type: 'refresh_token',
+    }
+  })
+
+/**
+ * Process a token introspection request (RFC 7662)
+ * 1. Look the token up as the hinted type first, then as the other type
+ * 2. Describe it if active, otherwise answer `active: false`
+ */
+export const processIntrospection = (
+  request: IntrospectionRequest
+): Effect.Effect<IntrospectionResponse, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo('Processing token introspection').pipe(
+      Effect.annotateLogs({ token_type_hint: request.token_type_hint })
+    )
+
+    const asAccessToken = introspectAccessToken(request.token)
+    const asRefreshToken = introspectRefreshToken(request.token)
+
+    // Step 1: Try the hinted token type first
+    const [first, second] =
+      request.token_type_hint === 'refresh_token'
+        ? [asRefreshToken, asAccessToken]
+        : [asAccessToken, asRefreshToken]
+
+    // Step 2: Describe the first match
+    const response = yield* first
+    return response.active ? response : yield* second
+  })
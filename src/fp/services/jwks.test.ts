@@ -0,0 +1,86 @@
+import axios from 'axios'
+import { SignJWT, exportJWK, generateKeyPair, jwtVerify, type JWK } from 'jose'
+import { describe, it, expect, beforeAll, beforeEach, vi, afterEach } from 'vitest'
+import { JWKS_COOLDOWN_MS, JWKS_REFRESH_MS, makeJWKSCache } from './jwks.js'
+
+// Mock axios
+vi.mock('axios')
+
+describe('makeJWKSCache', () => {
+  const url = 'https://hydra.example.com/.well-known/jwks.json'
+
+  const keys: Record<string, { jwk: JWK; privateKey: CryptoKey }> = {}
+
+  const signWith = (kid: string) =>
+    new SignJWT({ sub: 'user-1' })
+      .setProtectedHeader({ alg: 'ES256', kid })
+      .sign(keys[kid].privateKey)
+
+  const publish = (...kids: string[]) =>
+    vi.mocked(axios.get).mockResolvedValue({ data: { keys: kids.map((kid) => keys[kid].jwk) } })
+
+  beforeAll(async () => {
+    await Promise.all(
+      ['key-1', 'key-2'].map(async (kid) => {
+        const { publicKey, privateKey } = await generateKeyPair('ES256')
+        keys[kid] = { jwk: { ...(await exportJWK(publicKey)), kid, alg: 'ES256' }, privateKey }
+      })
+    )
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should verify repeatedly with a single fetch', async () => {
+    publish('key-1')
+    const cache = makeJWKSCache(url)
+    const token = await signWith('key-1')
+
+    await jwtVerify(token, cache.getKey)
+    await jwtVerify(token, cache.getKey)
+    const jwks = await cache.getJWKS()
+
+    expect(jwks.keys.map((key) => key.kid)).toEqual(['key-1'])
+    expect(axios.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refetch once the cooldown has passed when the kid is unknown', async () => {
+    publish('key-1')
+    const cache = makeJWKSCache(url)
+    await cache.getJWKS()
+
+    publish('key-1', 'key-2')
+    const token = await signWith('key-2')
+
+    await expect(jwtVerify(token, cache.getKey)).rejects.toThrow()
+    expect(axios.get).toHaveBeenCalledTimes(1)
+
+    vi.setSystemTime(Date.now() + JWKS_COOLDOWN_MS)
+    const { payload } = await jwtVerify(token, cache.getKey)
+
+    expect(payload.sub).toBe('user-1')
+    expect(axios.get).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refresh in the background and keep the keys when a refresh fails', async () => {
+    publish('key-1')
+    const cache = makeJWKSCache(url)
+    await cache.getJWKS()
+
+    publish('key-2')
+    await vi.advanceTimersByTimeAsync(JWKS_REFRESH_MS)
+    expect((await cache.getJWKS()).keys.map((key) => key.kid)).toEqual(['key-2'])
+
+    vi.mocked(axios.get).mockRejectedValue(new Error('503'))
+    await vi.advanceTimersByTimeAsync(JWKS_REFRESH_MS)
+
+    expect((await cache.getJWKS()).keys.map((key) => key.kid)).toEqual(['key-2'])
+  })
+})
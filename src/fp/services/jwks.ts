@@ -0,0 +1,118 @@
+/**
+ * Process-wide cache of remote JWKS documents
+ * Tokens are verified against the cached keys, so verification needs no network round trip.
+ * A token signed with a key we have not seen yet triggers a refetch, at most once per cooldown.
+ */
+import axios from 'axios'
+import { createLocalJWKSet, errors, type JWTVerifyGetKey } from 'jose'
+import { syncLogger } from '../../logging-effect.js'
+import type { JWKS } from './jwt.js'
+
+/**
+ * How often a cached JWKS is refetched in the background, and the least time between refetches
+ */
+export const JWKS_REFRESH_MS = 10 * 60 * 1000
+export const JWKS_COOLDOWN_MS = 30 * 1000
+
+/**
+ * Cached JWKS of one URL
+ */
+export interface JWKSCache {
+  readonly getJWKS: () => Promise<JWKS>
+  readonly getKey: JWTVerifyGetKey // Key resolver for jwtVerify
+}
+
+/**
+ * Create a JWKS cache for a URL
+ */
+export const makeJWKSCache = (url: string): JWKSCache => {
+  let cached: { jwks: JWKS; keySet: JWTVerifyGetKey } | null = null
+  let fetchPromise: Promise<JWKS> | null = null
+  let fetchedAt = 0
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined
+
+  const scheduleRefresh = (delay: number) => {
+    clearTimeout(refreshTimer)
+    refreshTimer = setTimeout(() => {
+      refresh().catch(() => undefined)
+    }, delay)
+    refreshTimer.unref()
+  }
+
+  const refresh = (): Promise<JWKS> => {
+    fetchPromise ??= axios
+      .get<JWKS>(url)
+      .then(
+        ({ data }) => {
+          if (!Array.isArray(data?.keys)) {
+            throw new Error('JWKS response has no keys')
+          }
+
+          cached = { jwks: data, keySet: createLocalJWKSet(data) }
+          fetchedAt = Date.now()
+          scheduleRefresh(JWKS_REFRESH_MS)
+
+          syncLogger.debug('Fetched JWKS', { url, kids: data.keys.map((key) => key.kid) })
+
+          return data
+        },
+        (error) => {
+          // Keep verifying against the keys we have
+          fetchedAt = Date.now()
+          scheduleRefresh(JWKS_COOLDOWN_MS)
+
+          syncLogger.error('Failed to fetch JWKS', { url, error: String(error) })
+          throw error
+        }
+      )
+      .finally(() => {
+        fetchPromise = null
+      })
+
+    return fetchPromise
+  }
+
+  const current = async () => {
+    if (!cached) {
+      await refresh()
+    }
+
+    return cached as NonNullable<typeof cached>
+  }
+
+  return {
+    getJWKS: async () => (await current()).jwks,
+
+    getKey: async (protectedHeader, token) => {
+      const { keySet } = await current()
+
+      try {
+        return await keySet(protectedHeader, token)
+      } catch (error) {
+        // An unknown kid may be a key published since our last fetch
+        if (!(error instanceof errors.JWKSNoMatchingKey) || Date.now() - fetchedAt < JWKS_COOLDOWN_MS) {
+          throw error
+        }
+
+        await refresh()
+        return (await current()).keySet(protectedHeader, token)
+      }
+    },
+  }
+}
+
+const caches = new Map<string, JWKSCache>()
+
+/**
+ * Get the process-wide JWKS cache of a URL
+ */
+export const getJWKSCache = (url: string): JWKSCache => {
+  const existing = caches.get(url)
+  if (existing) {
+    return existing
+  }
+
+  const cache = makeJWKSCache(url)
+  caches.set(url, cache)
+  return cache
+}
@@ -0,0 +1,168 @@
+import crypto from 'crypto'
+import { Effect, Layer } from 'effect'
+import { SignJWT, exportJWK, generateKeyPair } from 'jose'
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { OAuth2ApiService } from '../../api/oauth2.js'
+import { JWT_BEARER_GRANT_TYPE } from '../domain.js'
+import { processIntrospection } from './introspection.js'
+import { processJwtBearerGrant } from './jwt-bearer.js'
+import { JWTService } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis, createSigningJWT } from './test-helpers.js'
+import type { JwtBearerGrant } from '../domain.js'
+import type { TokenConfig } from './token.js'
+import type { JsonWebKey, OAuth2Client, TrustedOAuth2JwtGrantIssuer } from '@ory/client-fetch'
+
+describe('processJwtBearerGrant', () => {
+  const TOKEN_ENDPOINT = 'https://auth.example.com/oauth2/token'
+
+  const client: OAuth2Client = {
+    client_id: 'agent',
+    grant_types: [JWT_BEARER_GRANT_TYPE],
+    scope: 'read write',
+  }
+
+  const trusted: TrustedOAuth2JwtGrantIssuer = {
+    id: 'trust-1',
+    issuer: 'https://ci.example.com',
+    subject: 'deploy-bot',
+    scope: ['read', 'write', 'admin'],
+    public_key: { set: 'trust-ci', kid: 'ci-key' },
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  }
+
+  const jwt = createSigningJWT('issued.jwt.token')
+
+  const config: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [],
+    accessTokenFormat: 'jwt',
+    assertionAudiences: [TOKEN_ENDPOINT],
+  }
+
+  let privateKey: CryptoKey
+  let publicJwk: JsonWebKey
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService | OAuth2ApiService>
+
+  const api = {
+    listTrustedJwtGrantIssuers: vi.fn(() => Effect.succeed([trusted])),
+    getJsonWebKey: vi.fn(() => Effect.succeed({ keys: [publicJwk] })),
+  }
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair('RS256')
+    privateKey = keys.privateKey as CryptoKey
+    publicJwk = { ...(await exportJWK(keys.publicKey)), kid: 'ci-key', alg: 'RS256' } as JsonWebKey
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(JWTService, jwt),
+      Layer.succeed(OAuth2ApiService, api as unknown as OAuth2ApiService)
+    )
+  })
+
+  const assertion = (claims: { sub?: string; aud?: string; exp?: string } = {}) =>
+    new SignJWT({})
+      .setProtectedHeader({ alg: 'RS256', kid: 'ci-key' })
+      .setIssuer('https://ci.example.com')
+      .setSubject(claims.sub ?? 'deploy-bot')
+      .setAudience(claims.aud ?? TOKEN_ENDPOINT)
+      .setJti(crypto.randomUUID())
+      .setIssuedAt()
+      .setExpirationTime(claims.exp ?? '5m')
+      .sign(privateKey)
+
+  const exchange = async (
+    overrides: Partial<JwtBearerGrant> = {},
+    signed?: string,
+    cfg: TokenConfig = config
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.provide(
+          processJwtBearerGrant(
+            {
+              grant_type: JWT_BEARER_GRANT_TYPE,
+              assertion: signed ?? (await assertion()),
+              ...overrides,
+            },
+            client,
+            cfg
+          ),
+          layer
+        )
+      )
+    )
+
+  it('should issue a token for the asserted subject', async () => {
+    const result = await exchange()
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right).toEqual({
+        access_token: 'issued.jwt.token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'read write',
+      })
+    }
+    expect(api.getJsonWebKey).toHaveBeenCalledWith('trust-ci', 'ci-key')
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: 'deploy-bot', client_id: 'agent', scope: 'read write' }),
+      3600,
+      undefined
+    )
+  })
+
+  it('should reject untrusted subjects, audiences and expired assertions', async () => {
+    const results = await Promise.all([
+      exchange({}, await assertion({ sub: 'someone-else' })),
+      exchange({}, await assertion({ aud: 'https://other.example.com' })),
+      exchange({}, await assertion({ exp: '-1m' })),
+      exchange({}, 'not-a-jwt'),
+    ])
+
+    results.forEach((result) => {
+      expect(result._tag === 'Left' && result.left._tag).toBe('InvalidGrant')
+    })
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+
+  it('should limit the scope to what the issuer and client allow', async () => {
+    const exceeded = await exchange({ scope: 'read admin' })
+
+    expect(exceeded._tag === 'Left' && exceeded.left._tag).toBe('InvalidScope')
+  })
+  it('should accept an assertion only once', async () => {
+    const signed = await assertion()
+
+    const first = await exchange({}, signed)
+    const replay = await exchange({}, signed)
+
+    expect(first._tag).toBe('Right')
+    expect(replay._tag === 'Left' && replay.left._tag).toBe('InvalidGrant')
+    expect(jwt.sign).toHaveBeenCalledTimes(1)
+  })
+
+  it('should issue a token that introspects as active', async () => {
+    const result = await exchange({}, undefined, { ...config, accessTokenFormat: 'opaque' })
+    const token = result._tag === 'Right' ? result.right.access_token : ''
+
+    const introspected = await Effect.runPromise(
+      Effect.provide(processIntrospection({ token }), layer)
+    )
+
+    expect(introspected).toMatchObject({
+      active: true,
+      sub: 'deploy-bot',
+      client_id: 'agent',
+      scope: 'read write',
+    })
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * OAuth2 JWT Bearer Grant (RFC 7523) - Effect version
+ * Assertions are verified with the keys of the issuers trusted in Hydra, whose trust
+ * relations also limit the subjects and scopes a token can be issued for.
+ * Each assertion is accepted once, and as no upstream tokens stand behind the access
+ * token its issuance is recorded for introspection
+ */
+import { Effect, pipe } from 'effect'
+import { createLocalJWKSet, decodeJwt, jwtVerify, type JSONWebKeySet } from 'jose'
+import { OAuth2ApiService } from '../../api/oauth2.js'
+import { JWT_BEARER_GRANT_TYPE } from '../domain.js'
+import { type AppError, InvalidGrant, UnauthorizedClient } from '../errors.js'
+import { parseScopeString, validateScopes } from '../validation.js'
+import { issueAccessToken } from './access-token.js'
+import { JWTService } from './jwt.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { DEFAULT_ACCESS_TOKEN_TTL, resolveResource, type TokenConfig } from './token.js'
+import type { AccessTokenResponse, JwtBearerGrant } from '../domain.js'
+import type { OAuth2Client, TrustedOAuth2JwtGrantIssuer } from '@ory/client-fetch'
+
+/**
+ * Whether a trust relation covers the subject and has not expired
+ */
+const coversSubject = (trusted: TrustedOAuth2JwtGrantIssuer, subject: string): boolean =>
+  (trusted.allow_any_subject === true || trusted.subject === subject) &&
+  (trusted.expires_at === undefined || new Date(trusted.expires_at).getTime() > Date.now())
+
+/**
+ * Verify an assertion with the public key of a trust relation
+ * Succeeds with undefined when the key is gone or doesn't verify the assertion
+ */
+const verifyWithTrustedKey = (
+  assertion: string,
+  trusted: TrustedOAuth2JwtGrantIssuer,
+  audiences: ReadonlyArray<string>
+): Effect.Effect<TrustedOAuth2JwtGrantIssuer | undefined, AppError, OAuth2ApiService> =>
+  Effect.gen(function* () {
+    const api = yield* OAuth2ApiService
+    const { set, kid } = trusted.public_key ?? {}
+    if (!set || !kid) {
+      return undefined
+    }
+
+    const jwks = yield* pipe(
+      api.getJsonWebKey(set, kid),
+      Effect.map((keys): JSONWebKeySet | undefined => keys as JSONWebKeySet),
+      Effect.catchIf(
+        (error) => error._tag === 'HttpStatusError' && error.status === 404,
+        () => Effect.succeed(undefined)
+      )
+    )
+    if (!jwks) {
+      return undefined
+    }
+
+    return yield* pipe(
+      Effect.tryPromise(() =>
+        jwtVerify(assertion, createLocalJWKSet(jwks), {
+          issuer: trusted.issuer,
+          audience: [...audiences],
+          requiredClaims: ['exp', 'sub', 'jti'],
+        })
+      ),
+      Effect.as(trusted),
+      Effect.orElseSucceed(() => undefined)
+    )
+  })
+
+/**
+ * Process JWT bearer grant type
+ * Pipeline: Check client -> Find trust relations -> Verify assertion -> Check scope -> Issue access token
+ */
+export const processJwtBearerGrant = (
+  grant: JwtBearerGrant,
+  client: OAuth2Client, // Authenticated with authenticateClient
+  config: TokenConfig
+): Effect.Effect<AccessTokenResponse, AppError, RedisService | JWTService | OAuth2ApiService> =>
+  Effect.gen(function* () {
+    const api = yield* OAuth2ApiService
+    const redis = yield* RedisService
+    const jwt = yield* JWTService
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: The client must be allowed the grant
+    const clientId = client.client_id ?? ''
+    if (!client.grant_types?.includes(JWT_BEARER_GRANT_TYPE)) {
+      return yield* Effect.fail(
+        new UnauthorizedClient({ clientId, grantType: grant.grant_type })
+      )
+    }
+
+    const audiences = config.assertionAudiences ?? []
+    if (audiences.length === 0) {
+      return yield* Effect.fail(new InvalidGrant({ reason: 'JWT bearer grant is not configured' }))
+    }
+
+    // Step 2: Find the trust relations for the assertion's issuer and subject,
+    // nothing is trusted before the signature is verified
+    const unverified = yield* Effect.try({
+      try: () => decodeJwt(grant.assertion),
+      catch: () => new InvalidGrant({ reason: 'Assertion is not a JWT' }),
+    })
+    const { iss: issuer, sub: subject, jti: assertionJti, exp } = unverified
+    if (!issuer || !subject) {
+      return yield* Effect.fail(new InvalidGrant({ reason: 'Assertion has no issuer or subject' }))
+    }
+
+    const candidates = (yield* api.listTrustedJwtGrantIssuers({ issuer })).filter(
+      (trusted) => trusted.issuer === issuer && coversSubject(trusted, subject)
+    )
+
+    // Step 3: Verify the assertion with the trusted keys, it must name us as audience
+    const verified = yield* Effect.forEach(candidates, (trusted) =>
+      verifyWithTrustedKey(grant.assertion, trusted, audiences)
+    )
+    const trusted = verified.find((candidate) => candidate !== undefined)
+    if (!trusted) {
+      yield* Effect.logWarning('JWT bearer assertion rejected').pipe(
+        Effect.annotateLogs({ client_id: clientId, issuer, subject, candidates: candidates.length })
+      )
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Assertion is expired or not signed by a trusted issuer' })
+      )
+    }
+
+    // A replayed assertion is rejected until it would have expired anyway (RFC 7523 §3)
+    const consumed = yield* redisOps.consumeAssertionJti(
+      issuer,
+      assertionJti as string,
+      Math.max(1, (exp as number) - Math.floor(Date.now() / 1000))
+    )
+    if (!consumed) {
+      yield* Effect.logWarning('JWT bearer assertion replayed').pipe(
+        Effect.annotateLogs({ client_id: clientId, issuer, jti: assertionJti })
+      )
+      return yield* Effect.fail(new InvalidGrant({ reason: 'Assertion has already been used' }))
+    }
+
+    // Step 4: The scope defaults to, and is limited by, the scopes both the
+    // trust relation and the client allow
+    const clientScopes = parseScopeString(client.scope ?? '')
+    const allowedScopes = (trusted.scope ?? []).filter((scope) => clientScopes.includes(scope))
+    const scope = grant.scope ?? allowedScopes.join(' ')
+    yield* validateScopes(parseScopeString(scope), allowedScopes)
+
+    // Step 5: A registered resource becomes the audience (RFC 8707)
+    const resource = yield* resolveResource(grant.resource, undefined, config)
+
+    // Step 6: Issue the access token for the asserted subject
+    const jti = yield* jwt.generateJti()
+    const accessToken = yield* issueAccessToken(
+      {
+        sub: subject,
+        scope,
+        client_id: clientId,
+        jti,
+        aud: resource,
+      },
+      DEFAULT_ACCESS_TOKEN_TTL,
+      config.accessTokenFormat
+    )
+    yield* redisOps.setIssuedJti(jti, DEFAULT_ACCESS_TOKEN_TTL)
+
+    yield* Effect.logInfo('Issued JWT bearer token').pipe(
+      Effect.annotateLogs({ jti, client_id: clientId, issuer, subject, scope })
+    )
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer' as const,
+      expires_in: DEFAULT_ACCESS_TOKEN_TTL,
+      scope,
+    }
+  })
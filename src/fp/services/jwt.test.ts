@@ -0,0 +1,142 @@
+import axios from 'axios'
+import { Effect } from 'effect'
+import { exportJWK, generateKeyPair, type JWK } from 'jose'
+import { describe, it, expect, beforeAll, beforeEach, vi, afterEach } from 'vitest'
+import {
+  HYDRA_KEY_REFRESH_MS,
+  HYDRA_KEY_RETRY_MS,
+  makeJWTService,
+  selectSigningKey,
+  type JWTConfig,
+} from './jwt.js'
+
+// Mock axios
+vi.mock('axios')
+
+const createHydraKey = async (kid: string, alg = 'RS256'): Promise<JWK> => {
+  const { privateKey } = await generateKeyPair(alg, { extractable: true })
+  return { ...(await exportJWK(privateKey)), kid, alg, use: 'sig' }
+}
+
+describe('selectSigningKey', () => {
+  it('should pick the newest key that can sign', () => {
+    const keys: JWK[] = [
+      { kty: 'RSA', kid: 'public-only', n: 'n', e: 'AQAB' },
+      { kty: 'RSA', kid: 'encryption', use: 'enc', d: 'd' },
+      { kty: 'RSA', kid: 'newest', use: 'sig', d: 'd' },
+      { kty: 'RSA', kid: 'older', use: 'sig', d: 'd' },
+    ]
+
+    expect(selectSigningKey(keys)?.kid).toBe('newest')
+    expect(selectSigningKey([])).toBeUndefined()
+  })
+
+  it('should pick the kid that appeared last, whatever Hydra\'s order', () => {
+    const keys: JWK[] = [
+      { kty: 'RSA', kid: 'older', use: 'sig', d: 'd' },
+      { kty: 'RSA', kid: 'rotated', use: 'sig', d: 'd' },
+    ]
+
+    expect(selectSigningKey(keys, new Map([['older', 1]]))?.kid).toBe('rotated')
+    expect(selectSigningKey(keys, new Map([['older', 1], ['rotated', 2]]))?.kid).toBe('rotated')
+  })
+})
+
+describe('makeJWTService key refresh', () => {
+  const mockConfig: JWTConfig = {
+    provider: 'hydra',
+    issuer: 'https://auth.example.com',
+    audience: 'https://api.example.com',
+    hydraPublicUrl: 'https://hydra.example.com',
+    hydraAdminUrl: 'http://hydra:4445',
+    baseUrl: 'https://auth.example.com',
+  }
+
+  const claims = { sub: 'user-1', scope: 'openid', client_id: 'client-1', jti: 'jti-1' }
+
+  let first: JWK
+  let second: JWK
+
+  const kidOf = (jwt: string) =>
+    JSON.parse(Buffer.from(jwt.split('.')[0], 'base64url').toString()).kid
+
+  beforeAll(async () => {
+    first = await createHydraKey('key-1')
+    second = await createHydraKey('key-2')
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should pick up a rotated key without a restart', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { keys: [first] } })
+    const jwt = makeJWTService(mockConfig)
+
+    expect(kidOf(await Effect.runPromise(jwt.sign(claims, 60)))).toBe('key-1')
+
+    vi.mocked(axios.get).mockResolvedValue({ data: { keys: [second, first] } })
+    await vi.advanceTimersByTimeAsync(HYDRA_KEY_REFRESH_MS)
+
+    expect(kidOf(await Effect.runPromise(jwt.sign(claims, 60)))).toBe('key-2')
+    expect(await Effect.runPromise(jwt.getKeyHealth())).toMatchObject({
+      status: 'healthy',
+      kid: 'key-2',
+    })
+  })
+
+  it('should sign with the alg of the selected key', async () => {
+    vi.mocked(axios.get).mockResolvedValue({
+      data: { keys: [await createHydraKey('ec-key', 'ES256')] },
+    })
+    const jwt = makeJWTService(mockConfig)
+
+    const token = await Effect.runPromise(jwt.sign(claims, 60))
+
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toMatchObject({
+      alg: 'ES256',
+      kid: 'ec-key',
+    })
+  })
+
+  it('should retry a failed initial fetch', async () => {
+    vi.mocked(axios.get).mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+    const jwt = makeJWTService(mockConfig)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(await Effect.runPromise(jwt.getKeyHealth())).toMatchObject({
+      status: 'unavailable',
+      lastError: 'Error: connect ECONNREFUSED',
+    })
+
+    vi.mocked(axios.get).mockResolvedValue({ data: { keys: [first] } })
+    await vi.advanceTimersByTimeAsync(HYDRA_KEY_RETRY_MS)
+
+    expect(await Effect.runPromise(jwt.getKeyHealth())).toMatchObject({
+      status: 'healthy',
+      kid: 'key-1',
+    })
+  })
+
+  it('should keep signing with the last key while refreshes fail', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { keys: [first] } })
+    const jwt = makeJWTService(mockConfig)
+    await vi.advanceTimersByTimeAsync(0)
+
+    vi.mocked(axios.get).mockRejectedValue(new Error('503'))
+    await vi.advanceTimersByTimeAsync(HYDRA_KEY_REFRESH_MS)
+
+    expect(kidOf(await Effect.runPromise(jwt.sign(claims, 60)))).toBe('key-1')
+    expect(await Effect.runPromise(jwt.getKeyHealth())).toMatchObject({
+      status: 'stale',
+      kid: 'key-1',
+      lastError: 'Error: 503',
+    })
+  })
+})
@@ -1,27 +1,31 @@
 /**
  * JWT Service using Effect and jose
  * Generates and verifies JWTs for OAuth2 token responses
- * Fetches signing keys from Hydra's JWKS endpoint
+ * Fetches signing keys from Hydra's JWKS endpoint, or from the local key store
  */
 import { Effect, Context, Layer } from 'effect'
 import {
   SignJWT,
   jwtVerify,
   importJWK,
-  createRemoteJWKSet,
+  createLocalJWKSet,
   type JWTPayload,
+  type JWTVerifyGetKey,
   type JWK,
 } from 'jose'
 import axios from 'axios'
 import crypto from 'crypto'
-import { ParseError, NetworkError, type AppError } from '../errors.js'
+import { ParseError, NetworkError, KeyStoreError, type AppError } from '../errors.js'
 import { syncLogger } from '../../logging-effect.js'
+import { getJWKSCache } from './jwks.js'
+import type { SigningKeyStore } from './keystore.js'
 
 /**
  * JWT Claims structure
  */
 export interface JWTClaims extends JWTPayload {
   sub: string // Subject (user ID)
+  email?: string // Upstream email, when the provider shares one
   scope: string // Space-separated scopes
   client_id: string // OAuth2 client ID
   jti: string // JWT ID (unique identifier for this token)
@@ -31,7 +35,7 @@ export interface JWTClaims extends JWTPayload {
 }
 
 /**
- * JWKS (JSON Web Key Set) structure from Hydra
+ * JWKS (JSON Web Key Set) structure
  */
 export interface JWKS {
   keys: JWK[]
@@ -50,6 +54,7 @@ interface HydraJWKSResponse {
  */
 interface HydraKey {
   kid: string
+  alg: string // The key's own alg, RS256 when Hydra doesn't name one
   privateKey: CryptoKey
   publicJWK: JWK
 }
@@ -59,7 +64,7 @@ interface HydraKey {
  */
 export interface JWTService {
   /**
-   * Sign a JWT with the given claims (Hydra mode)
+   * Sign a JWT with the given claims (Hydra mode), aud defaults to the configured audience
    * Or return provided Google ID token (Google mode)
    */
   readonly sign: (
@@ -82,6 +87,23 @@ export interface JWTService {
    * Get JWKS (JSON Web Key Set) for public key distribution
    */
   readonly getJWKS: () => Effect.Effect<JWKS, AppError>
+
+  /**
+   * Report the state of the signing key
+   */
+  readonly getKeyHealth: () => Effect.Effect<KeyHealth>
+}
+
+/**
+ * Signing key state, for health checks
+ * stale: refreshes are failing and the last fetched key is still in use
+ */
+export interface KeyHealth {
+  readonly provider: JWTProvider
+  readonly status: 'healthy' | 'stale' | 'unavailable'
+  readonly kid?: string
+  readonly fetchedAt?: string // When the key in use was fetched, ISO 8601
+  readonly lastError?: string
 }
 
 /**
@@ -92,7 +114,7 @@ export const JWTService = Context.GenericTag<JWTService>('JWTService')
 /**
  * JWT Provider type
  */
-export type JWTProvider = 'hydra' | 'google'
+export type JWTProvider = 'hydra' | 'google' | 'local'
 
 /**
  * JWT Service configuration
@@ -101,15 +123,48 @@ export interface JWTConfig {
   provider: JWTProvider // JWT signing provider ('hydra' or 'google')
   issuer: string // Token issuer (usually the application URL)
   audience: string // Token audience (usually the client application)
+  resources?: ReadonlyArray<string> // Registered protected resources, accepted as audience too
   hydraPublicUrl: string // Hydra public URL for JWKS endpoint
   hydraAdminUrl: string // Hydra admin URL for fetching keys
+  baseUrl: string // Public URL of this app, serves the JWKS of local keys
+  keyStore?: SigningKeyStore // Signing keys in local mode
+}
+
+/**
+ * How often the Hydra signing key is refetched, and how soon a failed fetch is retried
+ */
+export const HYDRA_KEY_REFRESH_MS = 5 * 60 * 1000
+export const HYDRA_KEY_RETRY_MS = 10 * 1000
+
+/**
+ * Pick the key to sign with from Hydra's key set, by kid
+ * A rotated set keeps the older keys for verification. The newest is the kid seen last,
+ * `seenKids` maps each kid to when it first appeared. Kids first seen together, as on
+ * startup, keep Hydra's order, which lists the newest first
+ */
+export const selectSigningKey = (
+  keys: ReadonlyArray<JWK>,
+  seenKids: ReadonlyMap<string, number> = new Map()
+): JWK | undefined => {
+  const firstSeen = (jwk: JWK) => seenKids.get(jwk.kid ?? '') ?? Number.POSITIVE_INFINITY
+
+  return keys
+    .filter((jwk) => jwk.kid && jwk.d && jwk.use !== 'enc')
+    .reduce<JWK | undefined>(
+      (newest, jwk) => (newest && firstSeen(newest) >= firstSeen(jwk) ? newest : jwk),
+      undefined
+    )
 }
 
 /**
  * Fetch signing key from Hydra admin API
  * Hydra's admin API can provide private keys for specific key sets
+ * `seenKids` is updated with the kids of the fetched set
  */
-const fetchHydraKey = async (hydraAdminUrl: string): Promise<HydraKey> => {
+const fetchHydraKey = async (
+  hydraAdminUrl: string,
+  seenKids: Map<string, number>
+): Promise<HydraKey> => {
   try {
     // Fetch from Hydra's admin API for the JWT access token key set
     // This endpoint returns keys including private keys for signing
@@ -126,15 +181,26 @@ const fetchHydraKey = async (hydraAdminUrl: string): Promise<HydraKey> => {
       throw new Error('No keys returned from Hydra')
     }
 
-    // Use the first key (Hydra typically has one active key)
-    const jwk = response.data.keys[0]
+    const { keys } = response.data
+    const jwk = selectSigningKey(keys, seenKids)
+
+    // Remember when each kid appeared, forgetting keys Hydra no longer lists
+    const fetchedAt = Date.now()
+    const known = new Map(seenKids)
+    seenKids.clear()
+    keys.forEach(({ kid }) => {
+      if (kid) {
+        seenKids.set(kid, known.get(kid) ?? fetchedAt)
+      }
+    })
 
-    if (!jwk.kid) {
-      throw new Error('Key missing kid field')
+    if (!jwk?.kid) {
+      throw new Error('No private signing key with a kid returned from Hydra')
     }
 
-    // Import the private key from JWK
-    const privateKey = await importJWK(jwk, jwk.alg || 'RS256')
+    // Import the private key from JWK, it signs with its own alg
+    const alg = jwk.alg ?? 'RS256'
+    const privateKey = await importJWK(jwk, alg)
 
     // Ensure we got a CryptoKey (not Uint8Array)
     if (!(privateKey instanceof CryptoKey)) {
@@ -149,6 +215,7 @@ const fetchHydraKey = async (hydraAdminUrl: string): Promise<HydraKey> => {
 
     return {
       kid: jwk.kid,
+      alg,
       privateKey,
       publicJWK: jwk,
     }
@@ -162,13 +229,76 @@ const fetchHydraKey = async (hydraAdminUrl: string): Promise<HydraKey> => {
 }
 
 
+/**
+ * Public JWKS of the keys our access tokens are signed with
+ */
+export const getJWKSUri = (
+  config: Pick<JWTConfig, 'provider' | 'hydraPublicUrl' | 'baseUrl'>
+): string => {
+  switch (config.provider) {
+    case 'google':
+      return 'https://www.googleapis.com/oauth2/v3/certs'
+    case 'local':
+      return `${config.baseUrl.replace(/\/$/, '')}/.well-known/jwks.json`
+    default:
+      return `${config.hydraPublicUrl}/.well-known/jwks.json`
+  }
+}
+
 /**
  * Create JWT Service implementation
  */
 export const makeJWTService = (config: JWTConfig): JWTService => {
   // Only fetch keys for Hydra mode (Google mode doesn't need keys for signing)
+  // The key is refetched on a timer so a rotation in Hydra reaches every node without a restart
+  let cachedKey: { key: HydraKey; fetchedAt: number } | null = null
   let keyPromise: Promise<HydraKey> | null = null
-  let cachedKey: HydraKey | null = null
+  let lastError: string | undefined
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined
+  const seenKids = new Map<string, number>()
+
+  const scheduleRefresh = (delay: number) => {
+    clearTimeout(refreshTimer)
+    refreshTimer = setTimeout(() => {
+      refreshKey().catch(() => undefined)
+    }, delay)
+    refreshTimer.unref()
+  }
+
+  const refreshKey = (): Promise<HydraKey> => {
+    keyPromise ??= fetchHydraKey(config.hydraAdminUrl, seenKids)
+      .then(
+        (key) => {
+          const previous = cachedKey?.key
+          cachedKey = { key, fetchedAt: Date.now() }
+          lastError = undefined
+          scheduleRefresh(HYDRA_KEY_REFRESH_MS)
+
+          if (!previous) {
+            syncLogger.info(`JWT service initialized with ${config.provider} key`, {
+              provider: config.provider,
+              kid: key.kid,
+              issuer: config.issuer,
+              jwksUrl: getJWKSUri(config),
+            })
+          } else if (previous.kid !== key.kid) {
+            syncLogger.info('Hydra signing key rotated', { previousKid: previous.kid, kid: key.kid })
+          }
+
+          return key
+        },
+        (error) => {
+          lastError = String(error)
+          scheduleRefresh(HYDRA_KEY_RETRY_MS)
+          throw error
+        }
+      )
+      .finally(() => {
+        keyPromise = null
+      })
+
+    return keyPromise
+  }
 
   const getKey = async (): Promise<HydraKey> => {
     // In Google mode, we don't sign JWTs, so we don't need signing keys
@@ -176,28 +306,85 @@ export const makeJWTService = (config: JWTConfig): JWTService => {
       throw new Error('getKey() should not be called in Google mode')
     }
 
-    if (cachedKey) {
-      return cachedKey
-    }
+    // Keep signing with the last key while refreshes fail, Hydra still publishes it
+    return cachedKey?.key ?? refreshKey()
+  }
 
-    keyPromise ??= fetchHydraKey(config.hydraAdminUrl)
+  const localKeyStore: Effect.Effect<SigningKeyStore, KeyStoreError> = config.keyStore
+    ? Effect.succeed(config.keyStore)
+    : Effect.fail(new KeyStoreError({ message: 'JWT_PROVIDER=local requires a signing key store' }))
 
-    cachedKey = await keyPromise
-    syncLogger.info(`JWT service initialized with ${config.provider} key`, {
-      provider: config.provider,
-      kid: cachedKey.kid,
-      issuer: config.issuer,
-      jwksUrl: `${config.hydraPublicUrl}/.well-known/jwks.json`,
+  /**
+   * Sign claims with one of our own keys (Hydra or local mode)
+   */
+  const signWithKey = async (
+    claims: Omit<JWTClaims, 'iat' | 'exp' | 'kid'>,
+    expiresIn: number,
+    key: { kid: string; alg: string; privateKey: CryptoKey }
+  ): Promise<string> => {
+    const now = Math.floor(Date.now() / 1000)
+
+    const jwt = await new SignJWT({
+      ...claims,
+      kid: key.kid, // Include kid in claims for client validation
+      iat: now,
+      exp: now + expiresIn,
+    })
+      .setProtectedHeader({
+        alg: key.alg,
+        typ: 'JWT',
+        kid: key.kid, // Include kid in header for key lookup
+      })
+      .setIssuer(config.issuer)
+      .setAudience((claims.aud as JWTClaims['aud']) ?? config.audience)
+      .sign(key.privateKey)
+
+    syncLogger.debug(`JWT signed with ${config.provider} key`, {
+      kid: key.kid,
+      sub: claims.sub,
+      client_id: claims.client_id,
+      jti: claims.jti,
     })
 
-    return cachedKey
+    return jwt
   }
 
+  /**
+   * Verify a JWT against a key set
+   */
+  const verifyWithKeySet = (token: string, keySet: JWTVerifyGetKey) =>
+    Effect.tryPromise({
+      try: async () => {
+        const { payload } = await jwtVerify(token, keySet, {
+          issuer: config.issuer,
+          audience: [config.audience, ...(config.resources ?? [])],
+        })
+
+        // Validate required claims
+        if (!payload.sub || !payload.jti || !payload.client_id) {
+          throw new Error('Missing required claims in JWT')
+        }
+
+        return payload as JWTClaims
+      },
+      catch: (error) =>
+        new ParseError({
+          message: `Failed to verify JWT: ${String(error)}`,
+        }),
+    })
+
   // Initialize key eagerly only for Hydra mode
   if (config.provider === 'hydra') {
-    getKey().catch((error) => {
+    refreshKey().catch((error) => {
       syncLogger.error(`Failed to fetch JWT key from ${config.provider}`, { error })
     })
+  } else if (config.provider === 'local') {
+    syncLogger.info('JWT service initialized in local mode', {
+      provider: config.provider,
+      issuer: config.issuer,
+      jwksUrl: getJWKSUri(config),
+      hasKeyStore: !!config.keyStore,
+    })
   } else {
     syncLogger.info('JWT service initialized in Google mode', {
       provider: config.provider,
@@ -207,9 +394,27 @@ export const makeJWTService = (config: JWTConfig): JWTService => {
     })
   }
 
+  const createJWTError = (error: unknown) =>
+    new ParseError({
+      message: `Failed to create JWT: ${String(error)}`,
+    })
+
   return {
-    sign: (claims, expiresIn, googleIdToken) =>
-      Effect.tryPromise({
+    sign: (claims, expiresIn, googleIdToken) => {
+      // Local mode: Sign with the active key of our key store
+      if (config.provider === 'local') {
+        return localKeyStore.pipe(
+          Effect.flatMap((keyStore) => keyStore.getSigningKey()),
+          Effect.flatMap((key) =>
+            Effect.tryPromise({
+              try: () => signWithKey(claims, expiresIn, key),
+              catch: createJWTError,
+            })
+          )
+        )
+      }
+
+      return Effect.tryPromise({
         try: async () => {
           // Google mode: Return Google's ID token directly
           if (config.provider === 'google') {
@@ -229,86 +434,70 @@ export const makeJWTService = (config: JWTConfig): JWTService => {
 
           // Hydra mode: Sign our own JWT
           const key = await getKey()
-          const now = Math.floor(Date.now() / 1000)
-
-          const jwt = await new SignJWT({
-            ...claims,
-            kid: key.kid, // Include kid in claims for client validation
-            iat: now,
-            exp: now + expiresIn,
-          })
-            .setProtectedHeader({
-              alg: 'RS256',
-              typ: 'JWT',
-              kid: key.kid, // Include kid in header for key lookup
-            })
-            .setIssuer(config.issuer)
-            .setAudience(config.audience)
-            .sign(key.privateKey)
-
-          syncLogger.debug('JWT signed with Hydra key', {
-            kid: key.kid,
-            sub: claims.sub,
-            client_id: claims.client_id,
-            jti: claims.jti,
-          })
-
-          return jwt
+          return signWithKey(claims, expiresIn, key)
         },
-        catch: (error) =>
-          new ParseError({
-            message: `Failed to create JWT: ${String(error)}`,
-          }),
-      }),
+        catch: createJWTError,
+      })
+    },
 
     verify: (token) =>
-      Effect.tryPromise({
-        try: async () => {
-          // Use provider's public JWKS for verification
-          const jwksUrl = config.provider === 'google'
-            ? 'https://www.googleapis.com/oauth2/v3/certs'
-            : `${config.hydraPublicUrl}/.well-known/jwks.json`
-
-          const JWKS = createRemoteJWKSet(new URL(jwksUrl))
-
-          const { payload } = await jwtVerify(token, JWKS, {
-            issuer: config.issuer,
-            audience: config.audience,
-          })
-
-          // Validate required claims
-          if (!payload.sub || !payload.jti || !payload.client_id) {
-            throw new Error('Missing required claims in JWT')
-          }
-
-          return payload as JWTClaims
-        },
-        catch: (error) =>
-          new ParseError({
-            message: `Failed to verify JWT: ${String(error)}`,
-          }),
-      }),
+      config.provider === 'local'
+        ? // Local keys are verified without a round trip to our own JWKS endpoint
+          localKeyStore.pipe(
+            Effect.flatMap((keyStore) => keyStore.getJWKS()),
+            Effect.flatMap((jwks) => verifyWithKeySet(token, createLocalJWKSet(jwks)))
+          )
+        : // Use provider's public JWKS for verification, cached for the whole process
+          verifyWithKeySet(token, getJWKSCache(getJWKSUri(config)).getKey),
 
     generateJti: () =>
       Effect.sync(() => crypto.randomBytes(16).toString('base64url')),
 
     getJWKS: () =>
-      Effect.tryPromise({
-        try: async () => {
-          // Return provider's public JWKS URL for clients to use
-          const jwksUrl = config.provider === 'google'
-            ? 'https://www.googleapis.com/oauth2/v3/certs'
-            : `${config.hydraPublicUrl}/.well-known/jwks.json`
+      config.provider === 'local'
+        ? Effect.flatMap(localKeyStore, (keyStore) => keyStore.getJWKS())
+        : Effect.tryPromise({
+            try: () => getJWKSCache(getJWKSUri(config)).getJWKS(),
+            catch: (error) =>
+              new ParseError({
+                message: `Failed to fetch JWKS from ${config.provider}: ${String(error)}`,
+              }),
+          }),
 
-          const response = await axios.get<JWKS>(jwksUrl)
+    getKeyHealth: () => {
+      if (config.provider === 'local') {
+        return localKeyStore.pipe(
+          Effect.flatMap((keyStore) => keyStore.getSigningKey()),
+          Effect.match({
+            onSuccess: (key): KeyHealth => ({ provider: config.provider, status: 'healthy', kid: key.kid }),
+            onFailure: (error): KeyHealth => ({
+              provider: config.provider,
+              status: 'unavailable',
+              lastError: error.message,
+            }),
+          })
+        )
+      }
 
-          return response.data
-        },
-        catch: (error) =>
-          new ParseError({
-            message: `Failed to fetch JWKS from ${config.provider}: ${String(error)}`,
-          }),
-      }),
+      return Effect.sync((): KeyHealth => {
+        // Google mode signs nothing
+        if (config.provider === 'google') {
+          return { provider: config.provider, status: 'healthy' }
+        }
+
+        if (!cachedKey) {
+          return { provider: config.provider, status: 'unavailable', lastError }
+        }
+
+        return {
+          provider: config.provider,
+          status: lastError ? 'stale' : 'healthy',
+          kid: cachedKey.key.kid,
+          fetchedAt: new Date(cachedKey.fetchedAt).toISOString(),
+          lastError,
+        }
+      })
+    },
   }
 }
 
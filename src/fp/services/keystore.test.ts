@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { Effect } from 'effect'
+import { SignJWT, createLocalJWKSet, jwtVerify } from 'jose'
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  KEY_PREPUBLISH_MS,
+  RETIRED_KEY_TTL_MS,
+  makeFileKeyBackend,
+  makeSigningKeyStore,
+  planKeyRotation,
+  type SigningKeyBackend,
+} from './keystore.js'
+import type { SigningKeyAlgorithm } from '../config.js'
+import type { SigningKey } from '../domain.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// In-memory key store backend
+const createMemoryBackend = (initial: SigningKey[] = []) => {
+  let keys: ReadonlyArray<SigningKey> = initial
+  const backend: SigningKeyBackend = {
+    load: async () => keys,
+    update: async (plan) => {
+      const { add, remove } = await plan(keys)
+      keys = [...keys.filter((key) => !remove.includes(key.kid)), ...add]
+      return keys
+    },
+  }
+  return { backend, keys: () => keys }
+}
+
+const key = (kid: string, activatesAt: number): SigningKey => ({
+  kid,
+  alg: 'RS256',
+  public_jwk: {},
+  private_jwk: '',
+  created_at: activatesAt,
+  activates_at: activatesAt,
+})
+
+describe('planKeyRotation', () => {
+  const now = Date.now()
+  const rotationMs = 30 * DAY_MS
+
+  it('should create a key that activates immediately when there is none', () => {
+    expect(planKeyRotation([], now, rotationMs)).toEqual({ create: now, remove: [] })
+  })
+
+  it('should keep a key that is not due yet', () => {
+    expect(planKeyRotation([key('a', now - DAY_MS)], now, rotationMs)).toEqual({ remove: [] })
+  })
+
+  it('should publish the next key ahead of its activation', () => {
+    const activeSince = now - rotationMs + KEY_PREPUBLISH_MS / 2
+
+    expect(planKeyRotation([key('a', activeSince)], now, rotationMs)).toEqual({
+      create: now + KEY_PREPUBLISH_MS,
+      remove: [],
+    })
+  })
+
+  it('should wait while the next key is pending', () => {
+    expect(
+      planKeyRotation([key('a', now - rotationMs), key('b', now + DAY_MS)], now, rotationMs)
+    ).toEqual({ remove: [] })
+  })
+
+  it('should remove keys once they have been retired long enough', () => {
+    const keys = [
+      key('a', now - 2 * rotationMs),
+      key('b', now - rotationMs + 2 * DAY_MS),
+      key('c', now - RETIRED_KEY_TTL_MS / 2),
+    ]
+
+    expect(planKeyRotation(keys, now, rotationMs)).toEqual({ remove: ['a'] })
+  })
+})
+
+describe('makeSigningKeyStore', () => {
+  const config = { secret: 'test-secret', algorithm: 'RS256' as const, rotationDays: 30 }
+
+  const signAndVerify = async (algorithm: SigningKeyAlgorithm) => {
+    const memory = createMemoryBackend()
+    const store = makeSigningKeyStore(memory.backend, { ...config, algorithm })
+
+    const signingKey = await Effect.runPromise(store.getSigningKey())
+    const jwt = await new SignJWT({ sub: 'user-1' })
+      .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid })
+      .sign(signingKey.privateKey)
+
+    const jwks = await Effect.runPromise(store.getJWKS())
+    const { payload } = await jwtVerify(jwt, createLocalJWKSet(jwks))
+
+    return { memory, signingKey, payload }
+  }
+
+  it.each(['RS256', 'ES256', 'EdDSA'] as const)(
+    'should create a %s key whose public half verifies its signatures',
+    async (algorithm) => {
+      const { signingKey, payload } = await signAndVerify(algorithm)
+
+      expect(signingKey.alg).toBe(algorithm)
+      expect(payload.sub).toBe('user-1')
+    }
+  )
+
+  it('should store private keys sealed', async () => {
+    const { memory } = await signAndVerify('RS256')
+    const [stored] = memory.keys()
+
+    expect(stored.private_jwk.startsWith('v1.')).toBe(true)
+    expect(stored.private_jwk).not.toContain('"d"')
+    expect(stored.public_jwk).not.toHaveProperty('d')
+  })
+
+  it('should fail when the secret does not open the stored keys', async () => {
+    const { memory } = await signAndVerify('RS256')
+    const store = makeSigningKeyStore(memory.backend, { ...config, secret: 'other-secret' })
+
+    const result = await Effect.runPromise(Effect.either(store.getSigningKey()))
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('KeyStoreError')
+    }
+  })
+})
+
+describe('makeFileKeyBackend', () => {
+  let dir: string | undefined
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should hand the active key over to every instance sharing the file', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'keystore-'))
+    const file = path.join(dir, 'signing-keys.json')
+    const config = { secret: 'test-secret', algorithm: 'ES256' as const, rotationDays: 30 }
+
+    const first = makeSigningKeyStore(makeFileKeyBackend(file), config)
+    const second = makeSigningKeyStore(makeFileKeyBackend(file), config)
+
+    const [a, b] = await Promise.all([
+      Effect.runPromise(first.getSigningKey()),
+      Effect.runPromise(second.getSigningKey()),
+    ])
+
+    expect(a.kid).toBe(b.kid)
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,429 @@
+/**
+ * Local signing key store using Effect
+ * Keeps the keys our access tokens are signed with in Postgres or a file, independent of Hydra.
+ * Keys rotate on a schedule: the next key is published ahead of use, retired keys stay
+ * published until the tokens signed with them have expired.
+ */
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import { Effect, Schema } from 'effect'
+import { exportJWK, generateKeyPair, importJWK, type JWK } from 'jose'
+import { syncLogger } from '../../logging-effect.js'
+import { SigningKeySchema } from '../domain.js'
+import { KeyStoreError } from '../errors.js'
+import type { SigningKeyAlgorithm, SigningKeyConfig } from '../config.js'
+import type { SigningKey } from '../domain.js'
+import type { JWKS } from './jwt.js'
+import type { Pool } from 'pg'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A new key is published this long before signing switches to it,
+ * so verifiers caching our JWKS know it before they see tokens signed with it
+ */
+export const KEY_PREPUBLISH_MS = DAY_MS
+
+/**
+ * A retired key stays published this long, longer than any access token lives
+ */
+export const RETIRED_KEY_TTL_MS = DAY_MS
+
+/**
+ * How often an instance rereads the store, picking up keys created by other instances
+ */
+const RELOAD_INTERVAL_MS = 60 * 1000
+
+/**
+ * Changes to the stored keys
+ */
+export interface KeyChanges {
+  readonly add: ReadonlyArray<SigningKey>
+  readonly remove: ReadonlyArray<string> // kids
+}
+
+/**
+ * Where signing keys are kept
+ * update holds a lock across instances while it plans and applies changes
+ */
+export interface SigningKeyBackend {
+  readonly load: () => Promise<ReadonlyArray<SigningKey>>
+  readonly update: (
+    plan: (keys: ReadonlyArray<SigningKey>) => Promise<KeyChanges>
+  ) => Promise<ReadonlyArray<SigningKey>>
+}
+
+/**
+ * The key tokens are currently signed with
+ */
+export interface ActiveSigningKey {
+  readonly kid: string
+  readonly alg: SigningKeyAlgorithm
+  readonly privateKey: CryptoKey
+}
+
+/**
+ * Signing key store interface
+ */
+export interface SigningKeyStore {
+  /**
+   * The active key, rotating first when the next key is due
+   */
+  readonly getSigningKey: () => Effect.Effect<ActiveSigningKey, KeyStoreError>
+
+  /**
+   * Public keys of the upcoming, active and recently retired keys
+   */
+  readonly getJWKS: () => Effect.Effect<JWKS, KeyStoreError>
+}
+
+const SEAL_VERSION = 'v1'
+
+/**
+ * Encrypt a private key with the store secret (AES-256-GCM, scrypt derived key)
+ */
+const seal = (secret: string, plaintext: string): string => {
+  const salt = crypto.randomBytes(16)
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(secret, salt, 32), iv)
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+
+  return [SEAL_VERSION, ...[salt, iv, cipher.getAuthTag(), data].map((part) => part.toString('base64url'))].join('.')
+}
+
+/**
+ * Decrypt a private key sealed with the store secret
+ */
+const unseal = (secret: string, sealed: string): string => {
+  const [version, salt, iv, tag, data] = sealed.split('.')
+  if (version !== SEAL_VERSION || !salt || !iv || !tag || !data) {
+    throw new Error('Unsupported sealed key format')
+  }
+
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    crypto.scryptSync(secret, Buffer.from(salt, 'base64url'), 32),
+    Buffer.from(iv, 'base64url')
+  )
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Generate a new key pair, its private half sealed
+ */
+const createSigningKey = async (
+  alg: SigningKeyAlgorithm,
+  secret: string,
+  activatesAt: number
+): Promise<SigningKey> => {
+  const { publicKey, privateKey } = await generateKeyPair(alg, { extractable: true })
+  const kid = crypto.randomUUID()
+
+  return {
+    kid,
+    alg,
+    public_jwk: { ...(await exportJWK(publicKey)), kid, alg, use: 'sig' },
+    private_jwk: seal(secret, JSON.stringify({ ...(await exportJWK(privateKey)), kid, alg })),
+    created_at: Date.now(),
+    activates_at: activatesAt,
+  }
+}
+
+/**
+ * The newest key signing has switched to
+ */
+const findActiveKey = (keys: ReadonlyArray<SigningKey>, now: number): SigningKey | undefined =>
+  keys
+    .filter((key) => key.activates_at <= now)
+    .reduce<SigningKey | undefined>(
+      (latest, key) => (!latest || key.activates_at > latest.activates_at ? key : latest),
+      undefined
+    )
+
+/**
+ * Plan the rotation of the stored keys
+ * - create: when the next key activates, if one is due
+ * - remove: keys retired longer than RETIRED_KEY_TTL_MS
+ */
+export const planKeyRotation = (
+  keys: ReadonlyArray<SigningKey>,
+  now: number,
+  rotationMs: number
+): { readonly create?: number; readonly remove: ReadonlyArray<string> } => {
+  const sorted = [...keys].sort((a, b) => a.activates_at - b.activates_at)
+
+  // A key retires when the key after it activates
+  const remove = sorted
+    .filter((_, index) => {
+      const next = sorted[index + 1]
+      return next !== undefined && next.activates_at + RETIRED_KEY_TTL_MS <= now
+    })
+    .map((key) => key.kid)
+
+  const active = findActiveKey(sorted, now)
+  const pending = sorted.some((key) => key.activates_at > now)
+
+  if (pending) {
+    return { remove }
+  }
+  if (!active) {
+    return { create: now, remove }
+  }
+
+  const rotatesAt = active.activates_at + rotationMs
+  return now >= rotatesAt - KEY_PREPUBLISH_MS
+    ? { create: Math.max(rotatesAt, now + KEY_PREPUBLISH_MS), remove }
+    : { remove }
+}
+
+/**
+ * Create the signing key store
+ * Keys are reread every minute, rotation is checked whenever they are
+ */
+export const makeSigningKeyStore = (
+  backend: SigningKeyBackend,
+  config: Pick<SigningKeyConfig, 'secret' | 'algorithm' | 'rotationDays'>
+): SigningKeyStore => {
+  const rotationMs = config.rotationDays * DAY_MS
+
+  let cached: { promise: Promise<ReadonlyArray<SigningKey>>; loadedAt: number } | null = null
+  const privateKeys = new Map<string, Promise<CryptoKey>>()
+
+  const reload = async (): Promise<ReadonlyArray<SigningKey>> => {
+    const keys = await backend.load()
+    const plan = planKeyRotation(keys, Date.now(), rotationMs)
+
+    if (plan.create === undefined && plan.remove.length === 0) {
+      return keys
+    }
+
+    // Another instance may have rotated in the meantime, so plan again under the lock
+    return backend.update(async (current) => {
+      const { create, remove } = planKeyRotation(current, Date.now(), rotationMs)
+      const add =
+        create !== undefined ? [await createSigningKey(config.algorithm, config.secret, create)] : []
+
+      syncLogger.info('Rotating signing keys', {
+        created: add.map((key) => ({ kid: key.kid, activates_at: new Date(key.activates_at).toISOString() })),
+        removed: remove,
+      })
+
+      return { add, remove }
+    })
+  }
+
+  const getKeys = (): Promise<ReadonlyArray<SigningKey>> => {
+    if (!cached || Date.now() - cached.loadedAt > RELOAD_INTERVAL_MS) {
+      const promise = reload().catch((error: unknown) => {
+        cached = null
+        throw error
+      })
+      cached = { promise, loadedAt: Date.now() }
+    }
+    return cached.promise
+  }
+
+  const importPrivateKey = (key: SigningKey): Promise<CryptoKey> => {
+    const existing = privateKeys.get(key.kid)
+    if (existing) {
+      return existing
+    }
+
+    const imported = importJWK(JSON.parse(unseal(config.secret, key.private_jwk)) as JWK, key.alg).then(
+      (privateKey) => {
+        if (!(privateKey instanceof CryptoKey)) {
+          throw new Error('Expected CryptoKey from importJWK')
+        }
+        return privateKey
+      }
+    )
+    privateKeys.set(key.kid, imported)
+    imported.catch(() => privateKeys.delete(key.kid))
+
+    return imported
+  }
+
+  return {
+    getSigningKey: () =>
+      Effect.tryPromise({
+        try: async () => {
+          const active = findActiveKey(await getKeys(), Date.now())
+          if (!active) {
+            throw new Error('No active signing key')
+          }
+
+          return { kid: active.kid, alg: active.alg, privateKey: await importPrivateKey(active) }
+        },
+        catch: (error) =>
+          new KeyStoreError({ message: `Failed to get signing key: ${String(error)}`, cause: error }),
+      }),
+
+    getJWKS: () =>
+      Effect.tryPromise({
+        try: async () => ({ keys: (await getKeys()).map((key) => key.public_jwk as JWK) }),
+        catch: (error) =>
+          new KeyStoreError({ message: `Failed to load signing keys: ${String(error)}`, cause: error }),
+      }),
+  }
+}
+
+const decodeSigningKeys = Schema.decodeUnknownSync(Schema.Array(SigningKeySchema))
+
+/**
+ * Key store backend in Postgres, shared by every instance
+ * Updates are serialised with a transaction-level advisory lock
+ */
+export const makePostgresKeyBackend = (pool: Pool): SigningKeyBackend => {
+  const ADVISORY_LOCK_ID = 7_302_614 // Arbitrary, identifies the signing_keys lock
+  const SELECT_KEYS =
+    'SELECT kid, alg, public_jwk, private_jwk, created_at, activates_at FROM signing_keys ORDER BY activates_at'
+
+  let ready: Promise<unknown> | null = null
+  const ensureTable = () => {
+    ready ??= pool
+      .query(
+        `CREATE TABLE IF NOT EXISTS signing_keys (
+          kid text PRIMARY KEY,
+          alg text NOT NULL,
+          public_jwk jsonb NOT NULL,
+          private_jwk text NOT NULL,
+          created_at bigint NOT NULL,
+          activates_at bigint NOT NULL
+        )`
+      )
+      .catch((error: unknown) => {
+        ready = null
+        throw error
+      })
+    return ready
+  }
+
+  // bigint columns are returned as strings
+  const toSigningKeys = (rows: ReadonlyArray<Record<string, unknown>>) =>
+    decodeSigningKeys(
+      rows.map((row) => ({
+        ...row,
+        created_at: Number(row.created_at),
+        activates_at: Number(row.activates_at),
+      }))
+    )
+
+  return {
+    load: async () => {
+      await ensureTable()
+      const { rows } = await pool.query(SELECT_KEYS)
+      return toSigningKeys(rows)
+    },
+
+    update: async (plan) => {
+      await ensureTable()
+      const client = await pool.connect()
+
+      try {
+        await client.query('BEGIN')
+        await client.query('SELECT pg_advisory_xact_lock($1)', [ADVISORY_LOCK_ID])
+
+        const { rows } = await client.query(SELECT_KEYS)
+        const keys = toSigningKeys(rows)
+        const { add, remove } = await plan(keys)
+
+        await client.query('DELETE FROM signing_keys WHERE kid = ANY($1)', [remove])
+        await Promise.all(
+          add.map((key) =>
+            client.query(
+              'INSERT INTO signing_keys (kid, alg, public_jwk, private_jwk, created_at, activates_at) VALUES ($1, $2, $3, $4, $5, $6)',
+              [key.kid, key.alg, key.public_jwk, key.private_jwk, key.created_at, key.activates_at]
+            )
+          )
+        )
+        await client.query('COMMIT')
+
+        return [...keys.filter((key) => !remove.includes(key.kid)), ...add]
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw error
+      } finally {
+        client.release()
+      }
+    },
+  }
+}
+
+/**
+ * Key store backend in a JSON file, private keys sealed
+ * Updates are serialised with a lock file next to it, instances share keys only through a shared volume
+ */
+export const makeFileKeyBackend = (path: string): SigningKeyBackend => {
+  const LOCK_RETRY_MS = 100
+  const LOCK_ATTEMPTS = 50
+  const STALE_LOCK_MS = 30 * 1000
+  const lockPath = `${path}.lock`
+
+  const read = async (): Promise<ReadonlyArray<SigningKey>> => {
+    const raw = await fs.readFile(path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return '[]'
+      }
+      throw error
+    })
+    return decodeSigningKeys(JSON.parse(raw))
+  }
+
+  const acquireLock = async (attempt: number): Promise<void> => {
+    try {
+      await (await fs.open(lockPath, 'wx')).close()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+
+      // A lock left behind by a crashed instance is broken
+      const lockedAt = await fs.stat(lockPath).then(
+        ({ mtimeMs }) => mtimeMs,
+        () => Date.now()
+      )
+      if (Date.now() - lockedAt > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true })
+      } else if (attempt >= LOCK_ATTEMPTS) {
+        throw new Error(`Timed out waiting for ${lockPath}`)
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+      }
+      return acquireLock(attempt + 1)
+    }
+  }
+
+  return {
+    load: read,
+
+    update: async (plan) => {
+      await acquireLock(0)
+
+      try {
+        const keys = await read()
+        const { add, remove } = await plan(keys)
+        const next = [...keys.filter((key) => !remove.includes(key.kid)), ...add]
+
+        // Replace the file atomically, readers never see a partial write
+        const tmpPath = `${path}.${process.pid}.tmp`
+        await fs.writeFile(tmpPath, JSON.stringify(next, null, 2), { mode: 0o600 })
+        await fs.rename(tmpPath, path)
+
+        return next
+      } finally {
+        await fs.rm(lockPath, { force: true })
+      }
+    },
+  }
+}
+
+/**
+ * Create the signing key store configured by SIGNING_KEY_STORE
+ */
+export const createSigningKeyStore = (config: SigningKeyConfig, pool: Pool): SigningKeyStore =>
+  makeSigningKeyStore(
+    config.store === 'file' ? makeFileKeyBackend(config.file) : makePostgresKeyBackend(pool),
+    config
+  )
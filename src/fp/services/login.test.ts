@@ -0,0 +1,157 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { processLoginCallback } from './callback.js'
+import { processUpstreamFirstConsent } from './consent.js'
+import { HydraService } from './hydra.js'
+import { processUpstreamFirstLogin } from './login.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis } from './test-helpers.js'
+import { UpstreamIdPLive, type UpstreamIdP } from './upstream.js'
+
+const createMockHydra = () => ({
+  getLoginRequest: vi.fn(() => Effect.succeed({ challenge: 'login-1', skip: false } as any)),
+  acceptLoginRequest: vi.fn(() =>
+    Effect.succeed({ redirect_to: 'https://hydra.example.com/oauth2/auth?login_verifier=v' })
+  ),
+  getConsentRequest: vi.fn(() =>
+    Effect.succeed({
+      challenge: 'consent-1',
+      subject: 'upstream-user-1',
+      requested_scope: ['openid'],
+      requested_access_token_audience: [],
+    } as any)
+  ),
+  acceptConsentRequest: vi.fn(() =>
+    Effect.succeed({ redirect_to: 'https://hydra.example.com/oauth2/auth?consent_verifier=v' })
+  ),
+})
+
+const mockUpstream: UpstreamIdP = {
+  provider: 'oidc',
+  buildAuthUrl: ({ state, redirectUri }) =>
+    Effect.succeed(`https://idp.example.com/authorize?state=${state}&redirect_uri=${redirectUri}`),
+  exchangeCode: () =>
+    Effect.succeed({
+      access_token: 'upstream-at',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'openid email',
+    }),
+  refreshToken: () => Effect.die('not used'),
+  getUserInfo: () =>
+    Effect.succeed({
+      sub: 'upstream-user-1',
+      email: 'user@example.com',
+      acr: 'urn:example:mfa',
+      amr: ['pwd', 'otp'],
+    }),
+  revokeToken: () => Effect.void,
+}
+
+describe('upstream-first login', () => {
+  const config = {
+    middlewareRedirectUri: 'https://auth.example.com/callback',
+    loginMode: 'upstream_first' as const,
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let hydra: ReturnType<typeof createMockHydra>
+  let layer: Layer.Layer<HydraService | RedisService | UpstreamIdP>
+
+  beforeEach(() => {
+    memory = createMemoryRedis()
+    hydra = createMockHydra()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(HydraService, hydra as unknown as HydraService),
+      UpstreamIdPLive(mockUpstream)
+    )
+
+    memory.store.set(
+      'pkce_session:pkce-1',
+      JSON.stringify({
+        code_challenge: 'challenge',
+        code_challenge_method: 'S256',
+        scope: 'openid',
+        state: 'client-state',
+        redirect_uri: 'https://client.example.com/cb',
+        client_id: 'client-1',
+        timestamp: Date.now(),
+      })
+    )
+  })
+
+  const startLogin = async () => {
+    const url = await Effect.runPromise(
+      Effect.provide(processUpstreamFirstLogin('login-1', 'pkce-1', config), layer)
+    )
+    return new URL(url).searchParams.get('state') as string
+  }
+
+  it('should hold the login challenge and redirect upstream', async () => {
+    const state = await startLogin()
+
+    expect(hydra.acceptLoginRequest).not.toHaveBeenCalled()
+    expect(JSON.parse(memory.store.get(`login_state:${state}`) as string)).toMatchObject({
+      login_challenge: 'login-1',
+      pkce_key: 'pkce-1',
+    })
+  })
+
+  it('should accept the login with the verified upstream subject', async () => {
+    const state = await startLogin()
+
+    const redirect = await Effect.runPromise(
+      Effect.provide(processLoginCallback('upstream-code', state, 'pkce-1', config), layer)
+    )
+
+    expect(redirect).toContain('login_verifier')
+    expect(hydra.acceptLoginRequest).toHaveBeenCalledWith(
+      'login-1',
+      expect.objectContaining({
+        subject: 'upstream-user-1',
+        acr: 'urn:example:mfa',
+        amr: ['pwd', 'otp'],
+      })
+    )
+    expect(memory.store.has(`login_state:${state}`)).toBe(false)
+    expect(memory.store.has('upstream_login:pkce-1')).toBe(true)
+  })
+
+  it('should reject a state started by another session', async () => {
+    const state = await startLogin()
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        Effect.provide(processLoginCallback('upstream-code', state, 'pkce-2', config), layer)
+      )
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('StateMismatch')
+    }
+    expect(hydra.acceptLoginRequest).not.toHaveBeenCalled()
+  })
+
+  it('should issue the client auth code at consent without a second upstream trip', async () => {
+    const state = await startLogin()
+    await Effect.runPromise(
+      Effect.provide(processLoginCallback('upstream-code', state, 'pkce-1', config), layer)
+    )
+
+    const redirect = new URL(
+      await Effect.runPromise(
+        Effect.provide(processUpstreamFirstConsent('consent-1', 'pkce-1'), layer)
+      )
+    )
+
+    expect(redirect.origin + redirect.pathname).toBe('https://client.example.com/cb')
+    expect(redirect.searchParams.get('state')).toBe('client-state')
+
+    const code = redirect.searchParams.get('code')
+    const authData = JSON.parse(memory.store.get(`auth_code:${code}`) as string)
+    expect(authData.subject).toBe('upstream-user-1')
+    expect(memory.store.has('upstream_login:pkce-1')).toBe(false)
+  })
+})
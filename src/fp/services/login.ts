@@ -1,9 +1,22 @@
 /**
  * Login flow business logic using Effect
  */
+import * as crypto from 'crypto'
 import { Effect } from 'effect'
 import { type AppError } from '../errors.js'
 import { HydraService } from './hydra.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { UpstreamIdP } from './upstream.js'
+import type { LoginMode } from '../config.js'
+import type { LoginState } from '../domain.js'
+
+/**
+ * Configuration for login
+ */
+export interface LoginConfig {
+  readonly middlewareRedirectUri: string
+  readonly loginMode: LoginMode
+}
 
 /**
  * Process login request
@@ -46,3 +59,51 @@ export const processLogin = (
 
     return String(redirectTo.redirect_to)
   })
+
+/**
+ * Process login request with upstream authentication first
+ * The challenge stays open, processLoginCallback accepts it once the
+ * upstream provider has returned the user
+ * 1. Get login request details from Hydra
+ * 2. Store the pending login under a fresh upstream state
+ * 3. Build and return the upstream identity provider's auth URL
+ */
+export const processUpstreamFirstLogin = (
+  challenge: string,
+  pkceKey: string,
+  config: LoginConfig
+): Effect.Effect<string, AppError, HydraService | RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const hydra = yield* HydraService
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Get login request details (also validates the challenge)
+    const loginRequest = yield* hydra.getLoginRequest(challenge)
+
+    yield* Effect.logInfo('Holding login until upstream authentication').pipe(
+      Effect.annotateLogs({
+        clientId: loginRequest.client?.client_id,
+        skip: loginRequest.skip,
+        provider: upstream.provider,
+      })
+    )
+
+    // Step 2: Store the pending login
+    const state = crypto.randomBytes(32).toString('base64url')
+    const loginState: LoginState = {
+      login_challenge: challenge,
+      pkce_key: pkceKey,
+      timestamp: Date.now(),
+    }
+
+    yield* redisOps.setLoginState(state, loginState)
+
+    // Step 3: Build upstream auth URL
+    return yield* upstream.buildAuthUrl({
+      state,
+      redirectUri: config.middlewareRedirectUri,
+    })
+  })
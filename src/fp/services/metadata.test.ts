@@ -0,0 +1,102 @@
+import axios from 'axios'
+import { Effect } from 'effect'
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { makeMetadataSource, type MetadataConfig } from './metadata.js'
+
+// Mock axios
+vi.mock('axios')
+
+describe('makeMetadataSource', () => {
+  const mockConfig: MetadataConfig = {
+    baseUrl: 'https://auth.example.com/',
+    issuer: 'https://auth.example.com',
+    hydraInternalUrl: 'http://hydra:4444',
+    jwksUri: 'https://hydra.example.com/.well-known/jwks.json',
+    introspection: false,
+  }
+
+  const discovery = {
+    issuer: 'https://hydra.example.com/',
+    authorization_endpoint: 'https://hydra.example.com/oauth2/auth',
+    token_endpoint: 'https://hydra.example.com/oauth2/token',
+    jwks_uri: 'https://hydra.example.com/.well-known/jwks.json',
+    userinfo_endpoint: 'https://hydra.example.com/userinfo',
+    grant_types_supported: ['authorization_code', 'implicit'],
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(axios.isAxiosError).mockImplementation(
+      (error: any) => error?.isAxiosError === true
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should override Hydra endpoints with our own', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+    const source = makeMetadataSource(mockConfig)
+
+    const metadata = await Effect.runPromise(source.getMetadata())
+
+    expect(axios.get).toHaveBeenCalledWith('http://hydra:4444/.well-known/openid-configuration')
+    expect(metadata.issuer).toBe('https://auth.example.com')
+    expect(metadata.userinfo_endpoint).toBe('https://hydra.example.com/userinfo')
+    expect(metadata.token_endpoint).toBe('https://auth.example.com/oauth2/token')
+    expect(metadata.device_authorization_endpoint).toBe(
+      'https://auth.example.com/oauth2/device/auth'
+    )
+    expect(metadata.revocation_endpoint).toBe('https://auth.example.com/oauth2/revoke')
+    expect(metadata.revocation_endpoint_auth_methods_supported).toEqual(
+      metadata.token_endpoint_auth_methods_supported
+    )
+    expect(metadata.grant_types_supported).toEqual([
+      'authorization_code',
+      'refresh_token',
+      'client_credentials',
+      'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      'urn:ietf:params:oauth:grant-type:device_code',
+    ])
+    expect(metadata.code_challenge_methods_supported).toEqual(['S256', 'plain'])
+    expect(metadata).not.toHaveProperty('introspection_endpoint')
+  })
+
+  it('should advertise introspection when a resource server credential is configured', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+    const source = makeMetadataSource({ ...mockConfig, introspection: true })
+
+    const metadata = await Effect.runPromise(source.getMetadata())
+
+    expect(metadata.introspection_endpoint).toBe('https://auth.example.com/oauth2/introspect')
+    expect(metadata.grant_types_supported).toContain(
+      'urn:ietf:params:oauth:grant-type:token-exchange'
+    )
+  })
+
+  it('should cache the discovery document', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+    const source = makeMetadataSource(mockConfig)
+
+    await Effect.runPromise(source.getMetadata())
+    await Effect.runPromise(source.getMetadata())
+
+    expect(axios.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail with NetworkError and retry when Hydra is unreachable', async () => {
+    vi.mocked(axios.get).mockRejectedValueOnce({ isAxiosError: true, message: 'ECONNREFUSED' })
+    const source = makeMetadataSource(mockConfig)
+
+    const result = await Effect.runPromise(Effect.either(source.getMetadata()))
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('NetworkError')
+    }
+
+    vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+    await expect(Effect.runPromise(source.getMetadata())).resolves.toHaveProperty('token_endpoint')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Authorization server metadata (RFC 8414) using Effect
+ * Hydra's discovery document, with the endpoints this app serves in front of Hydra
+ */
+import axios from 'axios'
+import { Effect } from 'effect'
+import {
+  AuthorizationServerMetadataSchema,
+  GrantTypeSchema,
+  TOKEN_EXCHANGE_GRANT_TYPE,
+  PKCEMethodSchema,
+  TokenEndpointAuthMethodSchema,
+} from '../domain.js'
+import { NetworkError, ParseError, type HttpError } from '../errors.js'
+import { validateSchema } from '../validation.js'
+import type { AuthorizationServerMetadata } from '../domain.js'
+
+/**
+ * Configuration for the metadata document
+ */
+export interface MetadataConfig {
+  readonly baseUrl: string // Public URL of this app
+  readonly issuer: string // Issuer of our tokens, the metadata is served under it (RFC 8414 §3.3)
+  readonly hydraInternalUrl: string // Where Hydra's own discovery document is fetched from
+  readonly jwksUri: string // JWKS of the keys our access tokens are signed with
+  readonly introspection: boolean // Whether a resource server credential is configured
+}
+
+/**
+ * How long Hydra's discovery document is reused
+ */
+const DISCOVERY_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Our overrides of Hydra's discovery document
+ * Authorization and registration go through this app's proxy, tokens are minted by this app
+ */
+export const buildMetadataOverrides = (config: MetadataConfig) => {
+  const baseUrl = config.baseUrl.replace(/\/$/, '')
+
+  return {
+    issuer: config.issuer,
+    authorization_endpoint: `${baseUrl}/oauth2/auth`,
+    registration_endpoint: `${baseUrl}/oauth2/register`,
+    token_endpoint: `${baseUrl}/oauth2/token`,
+    device_authorization_endpoint: `${baseUrl}/oauth2/device/auth`,
+    // Each client must use the method it is registered with in Hydra, at both endpoints
+    token_endpoint_auth_methods_supported: [...TokenEndpointAuthMethodSchema.literals],
+    revocation_endpoint: `${baseUrl}/oauth2/revoke`,
+    revocation_endpoint_auth_methods_supported: [...TokenEndpointAuthMethodSchema.literals],
+    ...(config.introspection
+      ? {
+          introspection_endpoint: `${baseUrl}/oauth2/introspect`,
+          introspection_endpoint_auth_methods_supported: [
+            'client_secret_basic',
+            'client_secret_post',
+          ],
+        }
+      : {}),
+    jwks_uri: config.jwksUri,
+    // Token exchange is only open to the resource server with the introspection credential
+    grant_types_supported: GrantTypeSchema.literals.filter(
+      (grantType) => config.introspection || grantType !== TOKEN_EXCHANGE_GRANT_TYPE
+    ),
+    code_challenge_methods_supported: [...PKCEMethodSchema.literals],
+  }
+}
+
+/**
+ * Create the metadata document source
+ * Hydra's document is cached, a failed fetch is retried on next use
+ */
+export const makeMetadataSource = (config: MetadataConfig) => {
+  const DISCOVERY_URL = `${config.hydraInternalUrl.replace(/\/$/, '')}/.well-known/openid-configuration`
+
+  let cached: { promise: Promise<AuthorizationServerMetadata>; fetchedAt: number } | null = null
+
+  const fetchDiscovery = async (): Promise<AuthorizationServerMetadata> => {
+    const response = await axios.get(DISCOVERY_URL)
+    return Effect.runPromise(validateSchema(AuthorizationServerMetadataSchema, response.data))
+  }
+
+  const getHydraDiscovery = (): Effect.Effect<AuthorizationServerMetadata, HttpError> =>
+    Effect.tryPromise({
+      try: () => {
+        if (!cached || Date.now() - cached.fetchedAt > DISCOVERY_TTL_MS) {
+          const promise = fetchDiscovery().catch((error: unknown) => {
+            cached = null
+            throw error
+          })
+          cached = { promise, fetchedAt: Date.now() }
+        }
+        return cached.promise
+      },
+      catch: (error): HttpError =>
+        axios.isAxiosError(error)
+          ? new NetworkError({ message: 'Failed to fetch Hydra discovery document', cause: error })
+          : new ParseError({ message: `Invalid Hydra discovery document: ${String(error)}` }),
+    })
+
+  return {
+    /**
+     * The metadata document served at both well-known locations
+     */
+    getMetadata: (): Effect.Effect<AuthorizationServerMetadata, HttpError> =>
+      Effect.map(getHydraDiscovery(), (discovery) => ({
+        ...discovery,
+        ...buildMetadataOverrides(config),
+      })),
+  }
+}
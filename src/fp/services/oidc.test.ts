@@ -0,0 +1,198 @@
+import axios from 'axios'
+import { Effect } from 'effect'
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { makeOidcUpstreamIdP, type OidcUpstreamIdPConfig } from './oidc.js'
+
+// Mock axios
+vi.mock('axios')
+
+describe('makeOidcUpstreamIdP', () => {
+  const mockConfig: OidcUpstreamIdPConfig = {
+    issuer: 'https://idp.example.com',
+    clientId: 'oidc-client',
+    clientSecret: 'oidc-secret',
+    scope: 'openid profile email',
+  }
+
+  const discovery = {
+    issuer: 'https://idp.example.com',
+    authorization_endpoint: 'https://idp.example.com/authorize',
+    token_endpoint: 'https://idp.example.com/token',
+    jwks_uri: 'https://idp.example.com/jwks',
+    userinfo_endpoint: 'https://idp.example.com/userinfo',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(axios.isAxiosError).mockImplementation(
+      (error: any) => error?.isAxiosError === true
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('buildAuthUrl', () => {
+    it('should build the auth URL from the discovered authorization endpoint', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const url = await Effect.runPromise(
+        idp.buildAuthUrl({ state: 'challenge-1', redirectUri: 'https://auth.example.com/callback' })
+      )
+
+      const parsed = new URL(url)
+      expect(parsed.origin + parsed.pathname).toBe('https://idp.example.com/authorize')
+      expect(parsed.searchParams.get('client_id')).toBe('oidc-client')
+      expect(parsed.searchParams.get('response_type')).toBe('code')
+      expect(parsed.searchParams.get('state')).toBe('challenge-1')
+      expect(parsed.searchParams.get('scope')).toBe('openid profile email')
+      expect(axios.get).toHaveBeenCalledWith(
+        'https://idp.example.com/.well-known/openid-configuration'
+      )
+    })
+
+    it('should fetch the discovery document only once', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+      const params = { state: 's', redirectUri: 'https://auth.example.com/callback' }
+
+      await Effect.runPromise(idp.buildAuthUrl(params))
+      await Effect.runPromise(idp.buildAuthUrl(params))
+
+      expect(axios.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject a discovery document for a different issuer', async () => {
+      vi.mocked(axios.get).mockResolvedValue({
+        data: { ...discovery, issuer: 'https://evil.example.com' },
+      })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const result = await Effect.runPromise(
+        Effect.either(idp.buildAuthUrl({ state: 's', redirectUri: 'https://a/cb' }))
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('ParseError')
+      }
+    })
+  })
+
+  describe('exchangeCode', () => {
+    it('should use client_secret_basic by default and fill in missing fields', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      vi.mocked(axios.post).mockResolvedValue({
+        data: { access_token: 'at', token_type: 'Bearer', refresh_token: 'rt' },
+      })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const tokens = await Effect.runPromise(
+        idp.exchangeCode('code-1', 'https://auth.example.com/callback')
+      )
+
+      expect(tokens.access_token).toBe('at')
+      expect(tokens.refresh_token).toBe('rt')
+      expect(tokens.expires_in).toBe(3600)
+      expect(tokens.scope).toBe('openid profile email')
+
+      const [url, body, options] = vi.mocked(axios.post).mock.calls[0]
+      expect(url).toBe('https://idp.example.com/token')
+      expect(body).toContain('grant_type=authorization_code')
+      expect(body).not.toContain('client_secret')
+      expect((options as any).headers.Authorization).toBe(
+        `Basic ${Buffer.from('oidc-client:oidc-secret').toString('base64')}`
+      )
+    })
+
+    it('should send credentials in the body for client_secret_post', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      vi.mocked(axios.post).mockResolvedValue({
+        data: { access_token: 'at', token_type: 'Bearer', expires_in: 600, scope: 'openid' },
+      })
+      const idp = makeOidcUpstreamIdP({
+        ...mockConfig,
+        tokenEndpointAuthMethod: 'client_secret_post',
+      })
+
+      await Effect.runPromise(idp.exchangeCode('code-1', 'https://auth.example.com/callback'))
+
+      const [, body, options] = vi.mocked(axios.post).mock.calls[0]
+      expect(body).toContain('client_id=oidc-client')
+      expect(body).toContain('client_secret=oidc-secret')
+      expect((options as any).headers.Authorization).toBeUndefined()
+    })
+
+    it('should map OAuth error responses to UpstreamAuthError', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      vi.mocked(axios.post).mockRejectedValue({
+        isAxiosError: true,
+        response: {
+          status: 400,
+          statusText: 'Bad Request',
+          data: { error: 'invalid_grant', error_description: 'code expired' },
+        },
+      })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const result = await Effect.runPromise(
+        Effect.either(idp.exchangeCode('stale', 'https://auth.example.com/callback'))
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('UpstreamAuthError')
+        if (result.left._tag === 'UpstreamAuthError') {
+          expect(result.left.provider).toBe('oidc')
+          expect(result.left.error).toBe('invalid_grant')
+        }
+      }
+    })
+  })
+
+  describe('getUserInfo', () => {
+    it('should read claims from the userinfo endpoint', async () => {
+      vi.mocked(axios.get).mockImplementation(async (url: string) =>
+        url === discovery.userinfo_endpoint
+          ? { data: { sub: 'user-42', email: 'user@example.com', email_verified: true } }
+          : { data: discovery }
+      )
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const userInfo = await Effect.runPromise(idp.getUserInfo('at'))
+
+      expect(userInfo.sub).toBe('user-42')
+      expect(userInfo.email).toBe('user@example.com')
+      expect(axios.get).toHaveBeenCalledWith(discovery.userinfo_endpoint, {
+        headers: { Authorization: 'Bearer at', Accept: 'application/json' },
+      })
+    })
+
+    it('should reject an ID token that fails verification', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      const result = await Effect.runPromise(
+        Effect.either(idp.getUserInfo('at', 'not-a-jwt'))
+      )
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left._tag).toBe('UpstreamAuthError')
+      }
+    })
+  })
+
+  describe('revokeToken', () => {
+    it('should skip revocation when the provider has no revocation endpoint', async () => {
+      vi.mocked(axios.get).mockResolvedValue({ data: discovery })
+      const idp = makeOidcUpstreamIdP(mockConfig)
+
+      await Effect.runPromise(idp.revokeToken('rt'))
+
+      expect(axios.post).not.toHaveBeenCalled()
+    })
+  })
+})
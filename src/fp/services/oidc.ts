@@ -0,0 +1,306 @@
+/**
+ * Generic OpenID Connect upstream identity provider
+ * Endpoints come from the issuer's discovery document, so any compliant
+ * provider (Okta, Keycloak, Entra ID, Auth0, ...) can sit behind Hydra
+ */
+import axios from 'axios'
+import { Effect, pipe } from 'effect'
+import { createRemoteJWKSet, jwtVerify } from 'jose'
+import {
+  OidcDiscoverySchema,
+  OidcTokenResponseSchema,
+  UpstreamUserInfoSchema,
+} from '../domain.js'
+import { HttpStatusError, NetworkError, ParseError, UpstreamAuthError } from '../errors.js'
+import { validateSchema } from '../validation.js'
+import type { UpstreamIdP } from './upstream.js'
+import type { OidcTokenEndpointAuthMethod } from '../config.js'
+import type { OidcDiscovery, UpstreamTokenResponse } from '../domain.js'
+import type { HttpError } from '../errors.js'
+import type { AxiosError } from 'axios'
+import type { JWTVerifyGetKey } from 'jose'
+
+/**
+ * Configuration for the OIDC upstream
+ */
+export interface OidcUpstreamIdPConfig {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  scope: string
+  tokenEndpointAuthMethod?: OidcTokenEndpointAuthMethod
+  discoveryUrl?: string
+}
+
+const PROVIDER = 'oidc'
+
+/**
+ * Map axios failures to upstream or HTTP errors
+ */
+const handleAxiosError = (
+  error: unknown,
+  operationName: string
+): HttpError | UpstreamAuthError => {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<{ error?: unknown; error_description?: unknown }>
+    const data = axiosError.response?.data
+
+    if (data && typeof data.error === 'string') {
+      return new UpstreamAuthError({
+        provider: PROVIDER,
+        error: data.error,
+        errorDescription:
+          typeof data.error_description === 'string' ? data.error_description : undefined,
+      })
+    }
+
+    if (axiosError.response) {
+      return new HttpStatusError({
+        status: axiosError.response.status,
+        statusText: axiosError.response.statusText,
+        body: data,
+      })
+    }
+  }
+
+  return new NetworkError({
+    message: `Network error during OIDC ${operationName}`,
+    cause: error,
+  })
+}
+
+/**
+ * Create the generic OIDC UpstreamIdP
+ */
+export const makeOidcUpstreamIdP = (config: OidcUpstreamIdPConfig): UpstreamIdP => {
+  const issuer = config.issuer.replace(/\/$/, '')
+  const DISCOVERY_URL = config.discoveryUrl ?? `${issuer}/.well-known/openid-configuration`
+  const authMethod = config.tokenEndpointAuthMethod ?? 'client_secret_basic'
+
+  // Discovery is fetched once and shared, a failed fetch is retried on next use
+  let discoveryPromise: Promise<OidcDiscovery> | null = null
+  let jwks: JWTVerifyGetKey | null = null
+
+  const fetchDiscovery = async (): Promise<OidcDiscovery> => {
+    const response = await axios.get(DISCOVERY_URL)
+    const discovery = await Effect.runPromise(
+      validateSchema(OidcDiscoverySchema, response.data)
+    )
+
+    if (discovery.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error(`Discovery issuer ${discovery.issuer} does not match ${issuer}`)
+    }
+
+    return discovery
+  }
+
+  const getDiscovery = (): Effect.Effect<OidcDiscovery, HttpError> =>
+    Effect.tryPromise({
+      try: () => {
+        discoveryPromise ??= fetchDiscovery().catch((error: unknown) => {
+          discoveryPromise = null
+          throw error
+        })
+        return discoveryPromise
+      },
+      catch: (error): HttpError =>
+        axios.isAxiosError(error)
+          ? new NetworkError({ message: 'Failed to fetch OIDC discovery document', cause: error })
+          : new ParseError({ message: `Invalid OIDC discovery document: ${String(error)}` }),
+    })
+
+  const getJWKS = (discovery: OidcDiscovery): JWTVerifyGetKey => {
+    jwks ??= createRemoteJWKSet(new URL(discovery.jwks_uri))
+    return jwks
+  }
+
+  /**
+   * POST to the token endpoint with the configured client authentication
+   */
+  const tokenRequest = (
+    params: Record<string, string>,
+    operationName: string,
+    fallbackScope: string
+  ): Effect.Effect<UpstreamTokenResponse, HttpError | UpstreamAuthError> =>
+    pipe(
+      getDiscovery(),
+      Effect.flatMap((discovery) =>
+        Effect.tryPromise({
+          try: async () => {
+            const body = new URLSearchParams(params)
+            const headers: Record<string, string> = {
+              'Content-Type': 'application/x-www-form-urlencoded',
+              Accept: 'application/json',
+            }
+
+            if (authMethod === 'client_secret_post') {
+              body.set('client_id', config.clientId)
+              body.set('client_secret', config.clientSecret)
+            } else {
+              const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+              headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+            }
+
+            const response = await axios.post(discovery.token_endpoint, body.toString(), {
+              headers,
+            })
+            return response.data
+          },
+          catch: (error) => handleAxiosError(error, operationName),
+        })
+      ),
+      Effect.flatMap((data) => validateSchema(OidcTokenResponseSchema, data)),
+      Effect.map((tokens): UpstreamTokenResponse => ({
+        access_token: tokens.access_token,
+        token_type: tokens.token_type,
+        expires_in: tokens.expires_in ?? 3600,
+        scope: tokens.scope ?? fallbackScope,
+        id_token: tokens.id_token,
+        refresh_token: tokens.refresh_token,
+      })),
+      Effect.mapError(
+        (error): HttpError | UpstreamAuthError =>
+          error._tag === 'SchemaValidationError'
+            ? new ParseError({
+                message: `Failed to parse OIDC token response: ${error.errors.join(', ')}`,
+              })
+            : error
+      ),
+      Effect.tapError((error) =>
+        Effect.logError(`=== OIDC ${operationName} ERROR ===`).pipe(
+          Effect.annotateLogs({ error_tag: error._tag, error_details: error, issuer })
+        )
+      )
+    )
+
+  /**
+   * Verify an ID token against the discovered JWKS
+   */
+  const verifyIdToken = (
+    discovery: OidcDiscovery,
+    idToken: string
+  ): Effect.Effect<Record<string, unknown>, UpstreamAuthError> =>
+    Effect.tryPromise({
+      try: async () => {
+        const { payload } = await jwtVerify(idToken, getJWKS(discovery), {
+          issuer: discovery.issuer,
+          audience: config.clientId,
+        })
+        return payload as Record<string, unknown>
+      },
+      catch: (error) =>
+        new UpstreamAuthError({
+          provider: PROVIDER,
+          error: 'invalid_id_token',
+          errorDescription: String(error),
+        }),
+    })
+
+  /**
+   * Fetch claims from the userinfo endpoint
+   */
+  const fetchUserInfo = (
+    endpoint: string,
+    accessToken: string
+  ): Effect.Effect<Record<string, unknown>, HttpError | UpstreamAuthError> =>
+    Effect.tryPromise({
+      try: async () => {
+        const response = await axios.get(endpoint, {
+          headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+        })
+        return response.data as Record<string, unknown>
+      },
+      catch: (error) => handleAxiosError(error, 'getUserInfo'),
+    })
+
+  return {
+    provider: PROVIDER,
+
+    buildAuthUrl: ({ state, redirectUri, scope }) =>
+      pipe(
+        getDiscovery(),
+        Effect.map((discovery) => {
+          const authUrl = new URL(discovery.authorization_endpoint)
+          authUrl.searchParams.set('client_id', config.clientId)
+          authUrl.searchParams.set('redirect_uri', redirectUri)
+          authUrl.searchParams.set('response_type', 'code')
+          authUrl.searchParams.set('scope', scope ?? config.scope)
+          authUrl.searchParams.set('state', state)
+          return authUrl.toString()
+        })
+      ),
+
+    exchangeCode: (code, redirectUri) =>
+      tokenRequest(
+        { grant_type: 'authorization_code', code, redirect_uri: redirectUri },
+        'exchangeCode',
+        config.scope
+      ),
+
+    refreshToken: (refreshToken) =>
+      tokenRequest(
+        { grant_type: 'refresh_token', refresh_token: refreshToken },
+        'refreshToken',
+        config.scope
+      ),
+
+    getUserInfo: (accessToken, idToken) =>
+      Effect.gen(function* () {
+        const discovery = yield* getDiscovery()
+
+        const idClaims = idToken ? yield* verifyIdToken(discovery, idToken) : {}
+        const userInfoClaims = discovery.userinfo_endpoint
+          ? yield* fetchUserInfo(discovery.userinfo_endpoint, accessToken)
+          : {}
+
+        // OIDC Core 5.3.2: userinfo sub must match the ID token sub
+        if (idClaims.sub && userInfoClaims.sub && idClaims.sub !== userInfoClaims.sub) {
+          return yield* Effect.fail(
+            new UpstreamAuthError({
+              provider: PROVIDER,
+              error: 'subject_mismatch',
+              errorDescription: 'userinfo sub does not match ID token sub',
+            })
+          )
+        }
+
+        return yield* pipe(
+          validateSchema(UpstreamUserInfoSchema, { ...idClaims, ...userInfoClaims }),
+          Effect.mapError(
+            (error): HttpError =>
+              new ParseError({
+                message: `Failed to parse OIDC user info: ${error.errors.join(', ')}`,
+              })
+          )
+        )
+      }),
+
+    revokeToken: (token) =>
+      pipe(
+        getDiscovery(),
+        Effect.flatMap((discovery) => {
+          const endpoint = discovery.revocation_endpoint
+          if (!endpoint) {
+            return Effect.logWarning('OIDC provider has no revocation_endpoint, skipping').pipe(
+              Effect.annotateLogs({ issuer })
+            )
+          }
+
+          return Effect.tryPromise({
+            try: async () => {
+              await axios.post(
+                endpoint,
+                new URLSearchParams({
+                  token,
+                  client_id: config.clientId,
+                  client_secret: config.clientSecret,
+                }).toString(),
+                { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+              )
+            },
+            catch: (error) => handleAxiosError(error, 'revokeToken'),
+          })
+        })
+      ),
+  }
+}
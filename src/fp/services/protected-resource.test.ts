@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildProtectedResourceMetadata,
+  buildWWWAuthenticate,
+  findProtectedResource,
+  getProtectedResourceMetadataUrl,
+} from './protected-resource.js'
+import type { ProtectedResource } from '../config.js'
+
+describe('protected resource metadata', () => {
+  const baseUrl = 'https://auth.example.com/'
+
+  const resources: ProtectedResource[] = [
+    { resource: 'https://mcp.example.com/mcp', name: 'Example MCP', scopes: ['openid', 'profile'] },
+    { resource: 'https://tools.example.com', name: 'Tools', scopes: [] },
+  ]
+
+  it('should insert the well-known suffix before the resource path', () => {
+    expect(getProtectedResourceMetadataUrl(baseUrl, 'https://mcp.example.com/mcp')).toBe(
+      'https://auth.example.com/.well-known/oauth-protected-resource/mcp'
+    )
+    expect(getProtectedResourceMetadataUrl(baseUrl, 'https://tools.example.com')).toBe(
+      'https://auth.example.com/.well-known/oauth-protected-resource'
+    )
+  })
+
+  it('should find resources by metadata path', () => {
+    expect(findProtectedResource(resources, '/.well-known/oauth-protected-resource/mcp')).toBe(
+      resources[0]
+    )
+    expect(findProtectedResource(resources, '/.well-known/oauth-protected-resource')).toBe(
+      resources[1]
+    )
+    expect(
+      findProtectedResource(resources, '/.well-known/oauth-protected-resource/other')
+    ).toBeUndefined()
+  })
+
+  it('should name this app as the authorization server', () => {
+    const metadata = buildProtectedResourceMetadata(resources[0], { baseUrl })
+
+    expect(metadata).toEqual({
+      resource: 'https://mcp.example.com/mcp',
+      resource_name: 'Example MCP',
+      authorization_servers: ['https://auth.example.com'],
+      scopes_supported: ['openid', 'profile'],
+      bearer_methods_supported: ['header'],
+    })
+  })
+
+  it('should list only the resource server\'s own keys', () => {
+    const metadata = buildProtectedResourceMetadata(
+      { ...resources[0], jwksUri: 'https://mcp.example.com/jwks.json' },
+      { baseUrl }
+    )
+
+    expect(metadata.jwks_uri).toBe('https://mcp.example.com/jwks.json')
+  })
+
+  it('should point WWW-Authenticate challenges at the metadata', () => {
+    expect(buildWWWAuthenticate(baseUrl, resources[0])).toBe(
+      'Bearer resource_metadata="https://auth.example.com/.well-known/oauth-protected-resource/mcp", scope="openid profile"'
+    )
+    expect(
+      buildWWWAuthenticate(baseUrl, resources[1], {
+        error: 'invalid_token',
+        errorDescription: 'The "token" expired',
+      })
+    ).toBe(
+      'Bearer resource_metadata="https://auth.example.com/.well-known/oauth-protected-resource", error="invalid_token", error_description="The \\"token\\" expired"'
+    )
+  })
+})
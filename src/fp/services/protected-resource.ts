@@ -0,0 +1,77 @@
+/**
+ * Protected resource metadata (RFC 9728)
+ * Resource servers fronted by this app point clients at their metadata, which names this app
+ * as their authorization server
+ */
+import { getProtectedResourceMetadataPath } from '../config.js'
+import type { ProtectedResource } from '../config.js'
+import type { ProtectedResourceMetadata } from '../domain.js'
+
+/**
+ * Configuration for protected resource metadata
+ */
+export interface ProtectedResourceConfig {
+  readonly baseUrl: string // Public URL of this app, the authorization server
+  readonly resources: ReadonlyArray<ProtectedResource>
+}
+
+/**
+ * Options for a WWW-Authenticate challenge (RFC 6750 section 3)
+ */
+export interface BearerChallenge {
+  readonly error?: 'invalid_request' | 'invalid_token' | 'insufficient_scope'
+  readonly errorDescription?: string
+  readonly scope?: string
+}
+
+/**
+ * URL of a protected resource's metadata, served by this app
+ */
+export const getProtectedResourceMetadataUrl = (baseUrl: string, resource: string): string =>
+  `${baseUrl.replace(/\/$/, '')}${getProtectedResourceMetadataPath(resource)}`
+
+/**
+ * Find the registered resource served at a metadata path
+ */
+export const findProtectedResource = (
+  resources: ReadonlyArray<ProtectedResource>,
+  path: string
+): ProtectedResource | undefined =>
+  resources.find((entry) => getProtectedResourceMetadataPath(entry.resource) === path.replace(/\/$/, ''))
+
+/**
+ * Build the metadata document of a registered resource
+ * jwks_uri is the resource server's own key set, listed only when it has one (RFC 9728 §2)
+ */
+export const buildProtectedResourceMetadata = (
+  resource: ProtectedResource,
+  config: Pick<ProtectedResourceConfig, 'baseUrl'>
+): ProtectedResourceMetadata => ({
+  resource: resource.resource,
+  resource_name: resource.name,
+  authorization_servers: [config.baseUrl.replace(/\/$/, '')],
+  scopes_supported: [...resource.scopes],
+  bearer_methods_supported: ['header'],
+  ...(resource.jwksUri && { jwks_uri: resource.jwksUri }),
+})
+
+/**
+ * Build the WWW-Authenticate header a resource server answers 401 and 403 with
+ * resource_metadata sends the client to the resource's metadata and from there to us
+ */
+export const buildWWWAuthenticate = (
+  baseUrl: string,
+  resource: ProtectedResource,
+  challenge: BearerChallenge = {}
+): string => {
+  const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+  const params = [
+    ['resource_metadata', getProtectedResourceMetadataUrl(baseUrl, resource.resource)],
+    ['scope', challenge.scope ?? (resource.scopes.length > 0 ? resource.scopes.join(' ') : undefined)],
+    ['error', challenge.error],
+    ['error_description', challenge.errorDescription],
+  ].filter((param): param is [string, string] => param[1] !== undefined)
+
+  return `Bearer ${params.map(([name, value]) => `${name}=${quote(value)}`).join(', ')}`
+}
@@ -265,6 +265,47 @@ describe('RedisService', () => {
       expect(result).toBe(0)
     })
   })
+
+  describe('take', () => {
+    const mockTransaction = (results: Array<[Error | null, unknown]> | null) => {
+      const transaction = {
+        get: vi.fn(() => transaction),
+        del: vi.fn(() => transaction),
+        exec: vi.fn(async () => results),
+      }
+      vi.mocked(mockRedis).multi = vi.fn(() => transaction) as any
+      return transaction
+    }
+
+    it('should get and delete keys in one transaction', async () => {
+      const transaction = mockTransaction([
+        [null, 'value-1'],
+        [null, null],
+        [null, 1],
+      ])
+
+      const result = await Effect.runPromise(redisService.take('key1', 'key2'))
+
+      expect(result).toEqual(['value-1', null])
+      expect(transaction.get).toHaveBeenCalledWith('key1')
+      expect(transaction.get).toHaveBeenCalledWith('key2')
+      expect(transaction.del).toHaveBeenCalledWith('key1', 'key2')
+    })
+
+    it('should fail when a command in the transaction fails', async () => {
+      mockTransaction([
+        [new Error('WRONGTYPE'), null],
+        [null, 0],
+      ])
+
+      const result = await Effect.runPromise(Effect.either(redisService.take('key1')))
+
+      expect(result._tag).toBe('Left')
+      if (result._tag === 'Left') {
+        expect(result.left).toBeInstanceOf(RedisConnectionError)
+      }
+    })
+  })
 // TODO: Type 'RedisService' must have a 'Symbol.iterator' method that returns an iterator.
 //   describe('RedisServiceLive Layer', () => {
 //     it('should create a valid Layer', async () => {
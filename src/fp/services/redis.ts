@@ -3,7 +3,6 @@
  * All Redis operations return Effect<Result, RedisError>
  */
 import { Effect, pipe, Context, Layer } from 'effect'
-import type { Schema } from 'effect'
 import {
   RedisConnectionError,
   RedisKeyNotFound,
@@ -14,6 +13,8 @@ import {
   type RedisError
 } from '../errors.js'
 import { validateSchema } from '../validation.js'
+import type { TokenVault } from './vault.js'
+import type { Schema } from 'effect'
 import type { Redis } from 'ioredis'
 
 /**
@@ -36,7 +37,35 @@ export interface RedisService {
     expireSeconds?: number
   ) => Effect.Effect<'OK', RedisError>
   readonly del: (...keys: string[]) => Effect.Effect<number, RedisError>
+  /**
+   * Atomically read and delete keys (MULTI), values are null for missing keys
+   */
+  readonly take: (...keys: string[]) => Effect.Effect<Array<string | null>, RedisError>
   readonly exists: (...keys: string[]) => Effect.Effect<number, RedisError>
+  /**
+   * All keys matching a glob pattern (SCAN, not KEYS)
+   */
+  readonly scan: (pattern: string) => Effect.Effect<string[], RedisError>
+  /**
+   * Set a value only when the key does not exist (SET NX), false when it did
+   */
+  readonly setIfAbsent: (
+    key: string,
+    value: string,
+    expireSeconds: number
+  ) => Effect.Effect<boolean, RedisError>
+  /**
+   * Replace a value only while it still equals expected, keeping its TTL
+   */
+  readonly compareAndSet: (
+    key: string,
+    expected: string,
+    value: string
+  ) => Effect.Effect<boolean, RedisError>
+  /**
+   * Seals records holding upstream tokens, see createOAuthRedisOps
+   */
+  readonly vault?: TokenVault
 }
 
 /**
@@ -44,10 +73,54 @@ export interface RedisService {
  */
 export const RedisService = Context.GenericTag<RedisService>('RedisService')
 
+/**
+ * Parse a raw Redis value as JSON and validate it
+ */
+const parseJSON = <A, I>(
+  key: string,
+  raw: string | null,
+  schema: Schema.Schema<A, I, never>
+): Effect.Effect<A, RedisError | SchemaValidationError> =>
+  pipe(
+    Effect.suspend((): Effect.Effect<unknown, RedisError> => {
+      if (raw === null) {
+        return Effect.fail(new RedisKeyNotFound({ key }))
+      }
+      return Effect.try({
+        try: () => JSON.parse(raw),
+        catch: (error) => new RedisParseError({ key, raw, error }),
+      })
+    }),
+    Effect.flatMap((parsed) => validateSchema(schema, parsed))
+  )
+
+/**
+ * Open a raw record with the token vault, records pass through without one
+ */
+const openRecord = (
+  vault: TokenVault | undefined,
+  key: string,
+  raw: string | null
+): Effect.Effect<string | null, RedisError> =>
+  raw === null || !vault
+    ? Effect.succeed(raw)
+    : Effect.try({
+        try: () => vault.open(raw, key),
+        catch: (error) => new RedisParseError({ key, raw, error }),
+      })
+
+// Compare-and-set in one round trip, a nil reply means the value had changed
+const COMPARE_AND_SET_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('SET', KEYS[1], ARGV[2], 'KEEPTTL')
+end
+return false`
+
 /**
  * Create a RedisService implementation from an ioredis client
  */
-export const makeRedisService = (client: Redis): RedisService => ({
+export const makeRedisService = (client: Redis, vault?: TokenVault): RedisService => ({
+  vault,
+
   get: (key: string) =>
     Effect.tryPromise({
       try: () => client.get(key),
@@ -62,16 +135,7 @@ export const makeRedisService = (client: Redis): RedisService => ({
         catch: (error) =>
           new RedisConnectionError({ message: `Failed to get key ${key}: ${error}` }),
       }),
-      Effect.flatMap((raw): Effect.Effect<unknown, RedisError> => {
-        if (raw === null) {
-          return Effect.fail(new RedisKeyNotFound({ key }))
-        }
-        return Effect.try({
-          try: () => JSON.parse(raw),
-          catch: (error) => new RedisParseError({ key, raw, error }),
-        })
-      }),
-      Effect.flatMap((parsed) => validateSchema(schema, parsed))
+      Effect.flatMap((raw) => parseJSON(key, raw, schema))
     ),
 
   set: (key: string, value: string, expireSeconds?: number) =>
@@ -110,19 +174,66 @@ export const makeRedisService = (client: Redis): RedisService => ({
       catch: (error) => new RedisDeleteError({ key: keys.join(', '), error }),
     }),
 
+  take: (...keys: string[]) =>
+    Effect.tryPromise({
+      try: async () => {
+        const transaction = keys.reduce((tx, key) => tx.get(key), client.multi())
+        transaction.del(...keys)
+
+        const results = await transaction.exec()
+        if (!results) {
+          throw new Error('Transaction aborted')
+        }
+        const failed = results.find(([error]) => error)
+        if (failed) {
+          throw failed[0]
+        }
+        return results.slice(0, keys.length).map(([, value]) => value as string | null)
+      },
+      catch: (error) =>
+        new RedisConnectionError({ message: `Failed to take keys ${keys.join(', ')}: ${error}` }),
+    }),
+
   exists: (...keys: string[]) =>
     Effect.tryPromise({
       try: () => client.exists(...keys),
       catch: (error) =>
         new RedisConnectionError({ message: `Failed to check existence: ${error}` }),
     }),
+
+  scan: (pattern: string) =>
+    Effect.tryPromise({
+      try: () => {
+        const scanFrom = async (cursor: string, keys: Set<string>): Promise<string[]> => {
+          const [next, batch] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
+          batch.forEach((key) => keys.add(key))
+          return next === '0' ? [...keys] : scanFrom(next, keys)
+        }
+        return scanFrom('0', new Set()) // SCAN may return a key more than once
+      },
+      catch: (error) =>
+        new RedisConnectionError({ message: `Failed to scan ${pattern}: ${error}` }),
+    }),
+
+  setIfAbsent: (key: string, value: string, expireSeconds: number) =>
+    Effect.tryPromise({
+      try: async () => (await client.set(key, value, 'EX', expireSeconds, 'NX')) === 'OK',
+      catch: (error) => new RedisWriteError({ key, error }),
+    }),
+
+  compareAndSet: (key: string, expected: string, value: string) =>
+    Effect.tryPromise({
+      try: async () => (await client.eval(COMPARE_AND_SET_SCRIPT, 1, key, expected, value)) !== null,
+      catch: (error) => new RedisWriteError({ key, error }),
+    }),
 })
 
 /**
  * Create a Layer for the RedisService
+ * With a token vault, upstream tokens are encrypted at rest
  */
-export const RedisServiceLive = (client: Redis) =>
-  Layer.succeed(RedisService, makeRedisService(client))
+export const RedisServiceLive = (client: Redis, vault?: TokenVault) =>
+  Layer.succeed(RedisService, makeRedisService(client, vault))
 
 /**
  * Specialized Redis operations for OAuth2/PKCE data
@@ -131,9 +242,72 @@ export const createOAuthRedisOps = (service: RedisService) => {
   const PKCE_PREFIX = 'pkce_session:'
   const AUTH_CODE_PREFIX = 'auth_code:'
   const AUTH_CODE_STATE_PREFIX = 'auth_code_state:'
+  const AUTH_CODE_REDEMPTION_PREFIX = 'auth_code_used:' // Redeemed code -> AuthCodeRedemption
   const REFRESH_TOKEN_PREFIX = 'refresh_token:'
   const GOOGLE_TOKEN_PREFIX = 'google_token:' // JTI -> GoogleTokenData
   const JWT_REFRESH_PREFIX = 'jwt_refresh:' // Our refresh token -> JWTRefreshData
+  const CONSUMED_REFRESH_PREFIX = 'jwt_refresh_consumed:' // Rotated refresh token -> ConsumedRefreshToken
+  const REFRESH_FAMILY_PREFIX = 'refresh_family:' // Family ID -> RefreshTokenFamily
+  const REVOKED_JTI_PREFIX = 'revoked_jti:' // Denylisted access token JTI
+  const ISSUED_JTI_PREFIX = 'issued_jti:' // JTI of an access token without upstream tokens
+  const ASSERTION_JTI_PREFIX = 'assertion_jti:' // Issuer and JTI of a consumed JWT assertion
+  const ACCESS_TOKEN_PREFIX = 'access_token:' // Opaque access token -> AccessTokenData
+  const LOGIN_STATE_PREFIX = 'login_state:' // Upstream state -> LoginState
+  const UPSTREAM_LOGIN_PREFIX = 'upstream_login:' // PKCE session -> AuthCodeData
+  const DEVICE_CODE_PREFIX = 'device_code:' // Device code -> DeviceAuthorization
+  const USER_CODE_PREFIX = 'device_user_code:' // User code -> device code
+  const DEVICE_LOGIN_PREFIX = 'device_login:' // Upstream state -> DeviceLogin
+  const DEVICE_POLL_PREFIX = 'device_poll:' // Device code polled within its interval
+
+  // Records holding upstream tokens, sealed when a token vault is configured
+  const UPSTREAM_TOKEN_PREFIXES = [
+    AUTH_CODE_PREFIX,
+    UPSTREAM_LOGIN_PREFIX,
+    REFRESH_TOKEN_PREFIX,
+    GOOGLE_TOKEN_PREFIX,
+    DEVICE_CODE_PREFIX,
+  ]
+  const { vault } = service
+
+  const getSealedJSON = <A, I>(
+    key: string,
+    schema: Schema.Schema<A, I, never>
+  ): Effect.Effect<A, RedisError | SchemaValidationError> =>
+    pipe(
+      service.get(key),
+      Effect.flatMap((raw) => openRecord(vault, key, raw)),
+      Effect.flatMap((raw) => parseJSON(key, raw, schema))
+    )
+
+  const setSealedJSON = (key: string, data: unknown, ttlSeconds?: number) =>
+    vault
+      ? pipe(
+          Effect.try({
+            try: () => vault.seal(JSON.stringify(data), key),
+            catch: (error) => new RedisWriteError({ key, error }),
+          }),
+          Effect.flatMap((sealed) => service.set(key, sealed, ttlSeconds))
+        )
+      : service.setJSON(key, data, ttlSeconds)
+
+  const resealRecord = (sealingVault: TokenVault, prefix: string, key: string) =>
+    Effect.gen(function* () {
+      const raw = yield* service.get(key)
+      if (raw === null || sealingVault.isCurrent(raw)) {
+        return 'skipped' as const
+      }
+
+      const opened = yield* Effect.either(openRecord(sealingVault, key, raw))
+      if (opened._tag === 'Left' || opened.right === null) {
+        yield* Effect.logWarning('Failed to open upstream token record').pipe(
+          Effect.annotateLogs({ prefix })
+        )
+        return 'failed' as const
+      }
+
+      const replaced = yield* service.compareAndSet(key, raw, sealingVault.seal(opened.right, key))
+      return replaced ? ('resealed' as const) : ('skipped' as const)
+    })
 
   return {
     getPKCEState: <A, I>(sessionId: string, schema: Schema.Schema<A, I, never>) =>
@@ -146,10 +320,10 @@ export const createOAuthRedisOps = (service: RedisService) => {
       service.del(`${PKCE_PREFIX}${sessionId}`),
 
     getAuthCode: <A, I>(code: string, schema: Schema.Schema<A, I, never>) =>
-      service.getJSON(`${AUTH_CODE_PREFIX}${code}`, schema),
+      getSealedJSON(`${AUTH_CODE_PREFIX}${code}`, schema),
 
     setAuthCode: (code: string, data: unknown, ttlSeconds: number = 300) =>
-      service.setJSON(`${AUTH_CODE_PREFIX}${code}`, data, ttlSeconds),
+      setSealedJSON(`${AUTH_CODE_PREFIX}${code}`, data, ttlSeconds),
 
     deleteAuthCode: (code: string) => service.del(`${AUTH_CODE_PREFIX}${code}`),
 
@@ -162,15 +336,109 @@ export const createOAuthRedisOps = (service: RedisService) => {
     deleteAuthCodeState: (code: string) =>
       service.del(`${AUTH_CODE_STATE_PREFIX}${code}`),
 
+    // Single use: the code and its state are read and deleted in one step
+    takeAuthCode: <A, I, B, J>(
+      code: string,
+      dataSchema: Schema.Schema<A, I, never>,
+      stateSchema: Schema.Schema<B, J, never>
+    ) =>
+      pipe(
+        service.take(`${AUTH_CODE_PREFIX}${code}`, `${AUTH_CODE_STATE_PREFIX}${code}`),
+        Effect.flatMap(([rawData, rawState]) =>
+          Effect.all([
+            pipe(
+              openRecord(vault, `${AUTH_CODE_PREFIX}${code}`, rawData),
+              Effect.flatMap((raw) => parseJSON(`${AUTH_CODE_PREFIX}${code}`, raw, dataSchema))
+            ),
+            parseJSON(`${AUTH_CODE_STATE_PREFIX}${code}`, rawState, stateSchema),
+          ])
+        )
+      ),
+
+    getAuthCodeRedemption: <A, I>(code: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${AUTH_CODE_REDEMPTION_PREFIX}${code}`, schema),
+
+    setAuthCodeRedemption: (code: string, data: unknown, ttlSeconds: number = 60 * 60) =>
+      service.setJSON(`${AUTH_CODE_REDEMPTION_PREFIX}${code}`, data, ttlSeconds),
+
+    // Upstream-first login (LOGIN_MODE=upstream_first)
+    getLoginState: <A, I>(state: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${LOGIN_STATE_PREFIX}${state}`, schema),
+
+    setLoginState: (state: string, data: unknown, ttlSeconds: number = 600) =>
+      service.setJSON(`${LOGIN_STATE_PREFIX}${state}`, data, ttlSeconds),
+
+    deleteLoginState: (state: string) => service.del(`${LOGIN_STATE_PREFIX}${state}`),
+
+    getUpstreamLogin: <A, I>(sessionId: string, schema: Schema.Schema<A, I, never>) =>
+      getSealedJSON(`${UPSTREAM_LOGIN_PREFIX}${sessionId}`, schema),
+
+    setUpstreamLogin: (sessionId: string, data: unknown, ttlSeconds: number = 600) =>
+      setSealedJSON(`${UPSTREAM_LOGIN_PREFIX}${sessionId}`, data, ttlSeconds),
+
+    deleteUpstreamLogin: (sessionId: string) =>
+      service.del(`${UPSTREAM_LOGIN_PREFIX}${sessionId}`),
+
+    // Device authorization (RFC 8628), approved records hold the upstream tokens
+    getDeviceAuthorization: <A, I>(deviceCode: string, schema: Schema.Schema<A, I, never>) =>
+      getSealedJSON(`${DEVICE_CODE_PREFIX}${deviceCode}`, schema),
+
+    setDeviceAuthorization: (deviceCode: string, data: unknown, ttlSeconds: number) =>
+      setSealedJSON(`${DEVICE_CODE_PREFIX}${deviceCode}`, data, ttlSeconds),
+
+    deleteDeviceAuthorization: (deviceCode: string) =>
+      service.del(`${DEVICE_CODE_PREFIX}${deviceCode}`),
+
+    // Single use: the approved device code is read and deleted in one step
+    takeDeviceAuthorization: <A, I>(deviceCode: string, schema: Schema.Schema<A, I, never>) =>
+      pipe(
+        service.take(`${DEVICE_CODE_PREFIX}${deviceCode}`),
+        Effect.flatMap(([raw]) => openRecord(vault, `${DEVICE_CODE_PREFIX}${deviceCode}`, raw ?? null)),
+        Effect.flatMap((raw) => parseJSON(`${DEVICE_CODE_PREFIX}${deviceCode}`, raw, schema))
+      ),
+
+    getUserCode: (userCode: string) =>
+      pipe(
+        service.get(`${USER_CODE_PREFIX}${userCode}`),
+        Effect.flatMap((deviceCode) =>
+          deviceCode === null
+            ? Effect.fail(new RedisKeyNotFound({ key: `${USER_CODE_PREFIX}${userCode}` }))
+            : Effect.succeed(deviceCode)
+        )
+      ),
+
+    setUserCode: (userCode: string, deviceCode: string, ttlSeconds: number) =>
+      service.set(`${USER_CODE_PREFIX}${userCode}`, deviceCode, ttlSeconds),
+
+    deleteUserCode: (userCode: string) => service.del(`${USER_CODE_PREFIX}${userCode}`),
+
+    getDeviceLogin: <A, I>(state: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${DEVICE_LOGIN_PREFIX}${state}`, schema),
+
+    setDeviceLogin: (state: string, data: unknown, ttlSeconds: number = 600) =>
+      service.setJSON(`${DEVICE_LOGIN_PREFIX}${state}`, data, ttlSeconds),
+
+    deleteDeviceLogin: (state: string) => service.del(`${DEVICE_LOGIN_PREFIX}${state}`),
+
+    // Record a poll of a device code, true when it was already polled within the interval
+    recordDevicePoll: (deviceCode: string, intervalSeconds: number) =>
+      pipe(
+        service.exists(`${DEVICE_POLL_PREFIX}${deviceCode}`),
+        Effect.tap(() =>
+          service.set(`${DEVICE_POLL_PREFIX}${deviceCode}`, String(Date.now()), intervalSeconds)
+        ),
+        Effect.map((count) => count > 0)
+      ),
+
     // Legacy refresh token operations (for backward compatibility)
     getRefreshToken: <A, I>(refreshToken: string, schema: Schema.Schema<A, I, never>) =>
-      service.getJSON(`${REFRESH_TOKEN_PREFIX}${refreshToken}`, schema),
+      getSealedJSON(`${REFRESH_TOKEN_PREFIX}${refreshToken}`, schema),
 
     setRefreshToken: (
       refreshToken: string,
       data: unknown,
       ttlSeconds: number = 60 * 60 * 24 * 30
-    ) => service.setJSON(`${REFRESH_TOKEN_PREFIX}${refreshToken}`, data, ttlSeconds),
+    ) => setSealedJSON(`${REFRESH_TOKEN_PREFIX}${refreshToken}`, data, ttlSeconds),
 
     deleteRefreshToken: (refreshToken: string) =>
       service.del(`${REFRESH_TOKEN_PREFIX}${refreshToken}`),
@@ -178,17 +446,23 @@ export const createOAuthRedisOps = (service: RedisService) => {
     // New JWT-based operations
     // Store/retrieve Google tokens by JTI (from JWT access token)
     getGoogleToken: <A, I>(jti: string, schema: Schema.Schema<A, I, never>) =>
-      service.getJSON(`${GOOGLE_TOKEN_PREFIX}${jti}`, schema),
+      getSealedJSON(`${GOOGLE_TOKEN_PREFIX}${jti}`, schema),
 
     setGoogleToken: (
       jti: string,
       data: unknown,
       ttlSeconds: number = 60 * 60 * 24 * 30 // 30 days default
-    ) => service.setJSON(`${GOOGLE_TOKEN_PREFIX}${jti}`, data, ttlSeconds),
+    ) => setSealedJSON(`${GOOGLE_TOKEN_PREFIX}${jti}`, data, ttlSeconds),
 
     deleteGoogleToken: (jti: string) =>
       service.del(`${GOOGLE_TOKEN_PREFIX}${jti}`),
 
+    hasGoogleToken: (jti: string) =>
+      pipe(
+        service.exists(`${GOOGLE_TOKEN_PREFIX}${jti}`),
+        Effect.map((count) => count > 0)
+      ),
+
     // Store/retrieve JWT refresh token data
     getJWTRefresh: <A, I>(refreshToken: string, schema: Schema.Schema<A, I, never>) =>
       service.getJSON(`${JWT_REFRESH_PREFIX}${refreshToken}`, schema),
@@ -201,5 +475,99 @@ export const createOAuthRedisOps = (service: RedisService) => {
 
     deleteJWTRefresh: (refreshToken: string) =>
       service.del(`${JWT_REFRESH_PREFIX}${refreshToken}`),
+
+    // Rotation: the refresh token is read and deleted in one step
+    takeJWTRefresh: <A, I>(refreshToken: string, schema: Schema.Schema<A, I, never>) =>
+      pipe(
+        service.take(`${JWT_REFRESH_PREFIX}${refreshToken}`),
+        Effect.flatMap(([raw]) =>
+          parseJSON(`${JWT_REFRESH_PREFIX}${refreshToken}`, raw ?? null, schema)
+        )
+      ),
+
+    getConsumedRefresh: <A, I>(refreshToken: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${CONSUMED_REFRESH_PREFIX}${refreshToken}`, schema),
+
+    setConsumedRefresh: (
+      refreshToken: string,
+      data: unknown,
+      ttlSeconds: number = 60 * 60 * 24 * 90 // Outlives every token of the family
+    ) => service.setJSON(`${CONSUMED_REFRESH_PREFIX}${refreshToken}`, data, ttlSeconds),
+
+    getRefreshFamily: <A, I>(familyId: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${REFRESH_FAMILY_PREFIX}${familyId}`, schema),
+
+    setRefreshFamily: (
+      familyId: string,
+      data: unknown,
+      ttlSeconds: number = 60 * 60 * 24 * 90 // 90 days default
+    ) => service.setJSON(`${REFRESH_FAMILY_PREFIX}${familyId}`, data, ttlSeconds),
+
+    deleteRefreshFamily: (familyId: string) =>
+      service.del(`${REFRESH_FAMILY_PREFIX}${familyId}`),
+
+    // Opaque access tokens, entries expire with the access token
+    getAccessToken: <A, I>(token: string, schema: Schema.Schema<A, I, never>) =>
+      service.getJSON(`${ACCESS_TOKEN_PREFIX}${token}`, schema),
+
+    setAccessToken: (token: string, data: unknown, ttlSeconds: number) =>
+      service.setJSON(`${ACCESS_TOKEN_PREFIX}${token}`, data, ttlSeconds),
+
+    deleteAccessToken: (token: string) => service.del(`${ACCESS_TOKEN_PREFIX}${token}`),
+
+    // Access token denylist, entries expire with the access token
+    revokeJti: (jti: string, ttlSeconds: number) =>
+      service.set(`${REVOKED_JTI_PREFIX}${jti}`, String(Date.now()), ttlSeconds),
+
+    isJtiRevoked: (jti: string) =>
+      pipe(
+        service.exists(`${REVOKED_JTI_PREFIX}${jti}`),
+        Effect.map((count) => count > 0)
+      ),
+
+    // Access tokens no upstream tokens stand behind, e.g. client credentials tokens,
+    // entries expire with the access token
+    setIssuedJti: (jti: string, ttlSeconds: number) =>
+      service.set(`${ISSUED_JTI_PREFIX}${jti}`, String(Date.now()), ttlSeconds),
+
+    isJtiIssued: (jti: string) =>
+      pipe(
+        service.exists(`${ISSUED_JTI_PREFIX}${jti}`),
+        Effect.map((count) => count > 0)
+      ),
+
+    // JWT assertions are accepted once, entries expire with the assertion (RFC 7523 §3)
+    // Returns false for an assertion that was consumed before
+    consumeAssertionJti: (issuer: string, jti: string, ttlSeconds: number) =>
+      service.setIfAbsent(
+        `${ASSERTION_JTI_PREFIX}${issuer}:${jti}`,
+        String(Date.now()),
+        ttlSeconds
+      ),
+
+    // Reseal upstream token records with the current key, e.g. after a key rotation
+    // Records rewritten meanwhile are skipped, they were sealed with the current key
+    resealUpstreamTokens: () =>
+      Effect.gen(function* () {
+        if (!vault) {
+          return { scanned: 0, resealed: 0, failed: 0 }
+        }
+
+        const records = yield* Effect.forEach(UPSTREAM_TOKEN_PREFIXES, (prefix) =>
+          pipe(
+            service.scan(`${prefix}*`),
+            Effect.map((keys) => keys.map((key) => ({ prefix, key })))
+          )
+        )
+        const outcomes = yield* Effect.forEach(records.flat(), ({ prefix, key }) =>
+          resealRecord(vault, prefix, key)
+        )
+
+        return {
+          scanned: outcomes.length,
+          resealed: outcomes.filter((outcome) => outcome === 'resealed').length,
+          failed: outcomes.filter((outcome) => outcome === 'failed').length,
+        }
+      }),
   }
 }
@@ -0,0 +1,153 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { JWTService, type JWTClaims } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { processRevocation, verifyAccessToken } from './revocation.js'
+import { createMemoryRedis, createVerifyingJWT } from './test-helpers.js'
+import { UpstreamIdPLive, type UpstreamIdP } from './upstream.js'
+import type { TokenConfig } from './token.js'
+
+describe('processRevocation', () => {
+  const claims: JWTClaims = {
+    sub: 'user-1',
+    scope: 'openid',
+    client_id: 'client-1',
+    jti: 'jti-1',
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + 600,
+  }
+
+  const jwt = createVerifyingJWT(claims)
+
+  const upstream: UpstreamIdP = {
+    provider: 'google',
+    buildAuthUrl: () => Effect.die('not used'),
+    exchangeCode: () => Effect.die('not used'),
+    refreshToken: () => Effect.die('not used'),
+    getUserInfo: () => Effect.die('not used'),
+    revokeToken: vi.fn(() => Effect.void),
+  }
+
+  const config: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [],
+    accessTokenFormat: 'jwt',
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService | UpstreamIdP>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(JWTService, jwt),
+      UpstreamIdPLive(upstream)
+    )
+
+    memory.store.set(
+      'google_token:jti-1',
+      JSON.stringify({
+        google_access_token: 'upstream-at',
+        google_refresh_token: 'upstream-rt',
+        scope: 'openid',
+        subject: 'user-1',
+        client_id: 'client-1',
+        expires_at: Date.now() + 600 * 1000,
+        updated_at: Date.now(),
+      })
+    )
+    memory.store.set(
+      'jwt_refresh:rt-1',
+      JSON.stringify({
+        jti: 'jti-1',
+        client_id: 'client-1',
+        scope: 'openid',
+        subject: 'user-1',
+        family_id: 'family-1',
+        created_at: Date.now(),
+      })
+    )
+    memory.store.set('refresh_family:family-1', '{}')
+  })
+
+  const revoke = (token: string, options: { hint?: string; clientId?: string } = {}, cfg = config) =>
+    Effect.runPromise(
+      Effect.provide(
+        processRevocation(
+          { token, token_type_hint: options.hint, client_id: options.clientId ?? 'client-1' },
+          cfg
+        ),
+        layer
+      )
+    )
+
+  it('should revoke a refresh token with its access token and family', async () => {
+    await revoke('rt-1', { clientId: 'client-1' })
+
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(false)
+    expect(memory.store.has('google_token:jti-1')).toBe(false)
+    expect(memory.store.has('refresh_family:family-1')).toBe(false)
+    expect(memory.store.has('revoked_jti:jti-1')).toBe(true)
+    expect(upstream.revokeToken).not.toHaveBeenCalled()
+  })
+
+  it('should denylist an access token until it expires', async () => {
+    await revoke('access.jwt.token', { hint: 'access_token' })
+
+    expect(memory.store.has('revoked_jti:jti-1')).toBe(true)
+    expect(memory.store.has('google_token:jti-1')).toBe(false)
+    expect(memory.client.set).toHaveBeenCalledWith(
+      'revoked_jti:jti-1',
+      expect.any(String),
+      'EX',
+      expect.any(Number)
+    )
+  })
+
+  it('should succeed for unknown tokens', async () => {
+    await expect(revoke('unknown-token')).resolves.toBeUndefined()
+
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(true)
+  })
+
+  it('should ignore revocation by another client', async () => {
+    await revoke('rt-1', { clientId: 'client-2' })
+
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(true)
+    expect(memory.store.has('revoked_jti:jti-1')).toBe(false)
+  })
+
+  it('should revoke the upstream refresh token when configured', async () => {
+    await revoke('rt-1', {}, { ...config, revokeUpstreamTokens: true })
+
+    expect(upstream.revokeToken).toHaveBeenCalledWith('upstream-rt')
+  })
+
+  it('should revoke the upstream access token at GitHub', async () => {
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(JWTService, jwt),
+      UpstreamIdPLive({ ...upstream, provider: 'github' })
+    )
+
+    await revoke('rt-1', {}, { ...config, revokeUpstreamTokens: true })
+
+    expect(upstream.revokeToken).toHaveBeenCalledWith('upstream-at')
+  })
+
+  it('should reject revoked access tokens on verification', async () => {
+    await revoke('access.jwt.token')
+
+    const result = await Effect.runPromise(
+      Effect.either(Effect.provide(verifyAccessToken('access.jwt.token'), layer))
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('TokenRevoked')
+    }
+  })
+})
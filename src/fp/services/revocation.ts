@@ -0,0 +1,211 @@
+/**
+ * OAuth2 Token Revocation (RFC 7009) - Effect version
+ * Revokes the JWT access tokens and refresh tokens minted by the token endpoint
+ */
+import { Effect, pipe } from 'effect'
+import { GoogleTokenDataSchema, JWTRefreshDataSchema } from '../domain.js'
+import { type AppError, TokenRevoked } from '../errors.js'
+import { decodeAccessToken, deleteAccessToken } from './access-token.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { DEFAULT_ACCESS_TOKEN_TTL, type TokenConfig } from './token.js'
+import { UpstreamIdP } from './upstream.js'
+import type { GoogleTokenData, JWTRefreshData, RevocationRequest } from '../domain.js'
+import type { JWTClaims, JWTService } from './jwt.js'
+
+/**
+ * Fetch the upstream tokens behind a JTI, if they still exist
+ */
+const findGoogleToken = (
+  jti: string
+): Effect.Effect<GoogleTokenData | undefined, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    return yield* pipe(
+      redisOps.getGoogleToken(jti, GoogleTokenDataSchema),
+      Effect.map((data): GoogleTokenData | undefined => data),
+      Effect.catchTag('RedisKeyNotFound', () => Effect.succeed(undefined))
+    )
+  })
+
+/**
+ * Denylist a JTI, delete its upstream tokens and optionally revoke them upstream
+ */
+const revokeJti = (
+  jti: string,
+  ttlSeconds: number,
+  googleTokenData: GoogleTokenData | undefined,
+  config: TokenConfig
+): Effect.Effect<void, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+    const redisOps = createOAuthRedisOps(redis)
+
+    yield* redisOps.revokeJti(jti, Math.max(1, ttlSeconds))
+    yield* redisOps.deleteGoogleToken(jti)
+
+    if (config.revokeUpstreamTokens && googleTokenData) {
+      // Revoking the refresh token also revokes its access tokens at Google,
+      // GitHub's revocation endpoint only accepts access tokens
+      const upstreamToken =
+        upstream.provider === 'github'
+          ? googleTokenData.google_access_token
+          : googleTokenData.google_refresh_token || googleTokenData.google_access_token
+
+      yield* Effect.catchAll(upstream.revokeToken(upstreamToken), (error) =>
+        Effect.logWarning('Failed to revoke upstream token').pipe(
+          Effect.annotateLogs({ provider: upstream.provider, jti, error })
+        )
+      )
+    }
+  })
+
+/**
+ * Revoke one of our refresh tokens, along with its access token and family
+ * Returns false when the token is not a known refresh token
+ */
+const revokeRefreshToken = (
+  token: string,
+  clientId: string,
+  config: TokenConfig
+): Effect.Effect<boolean, AppError, RedisService | UpstreamIdP> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const jwtRefreshData = yield* pipe(
+      redisOps.getJWTRefresh(token, JWTRefreshDataSchema),
+      Effect.map((data): JWTRefreshData | undefined => data),
+      Effect.catchTag('RedisKeyNotFound', () => Effect.succeed(undefined))
+    )
+
+    if (!jwtRefreshData) {
+      return false
+    }
+
+    // Only the client the token was issued to may revoke it
+    if (clientId !== jwtRefreshData.client_id) {
+      yield* Effect.logWarning('Refresh token revocation by another client ignored').pipe(
+        Effect.annotateLogs({ client_id: clientId, jti: jwtRefreshData.jti })
+      )
+      return true
+    }
+
+    // The access token issued with this refresh token lives until the upstream token expires
+    const googleTokenData = yield* findGoogleToken(jwtRefreshData.jti)
+    const expiresAt = googleTokenData?.expires_at
+    const ttlSeconds =
+      expiresAt !== undefined
+        ? Math.ceil((expiresAt - Date.now()) / 1000)
+        : DEFAULT_ACCESS_TOKEN_TTL
+
+    yield* redisOps.deleteJWTRefresh(token)
+    if (jwtRefreshData.family_id) {
+      yield* redisOps.deleteRefreshFamily(jwtRefreshData.family_id)
+    }
+    yield* revokeJti(jwtRefreshData.jti, ttlSeconds, googleTokenData, config)
+
+    yield* Effect.logInfo('Refresh token revoked').pipe(
+      Effect.annotateLogs({ jti: jwtRefreshData.jti, client_id: jwtRefreshData.client_id })
+    )
+
+    return true
+  })
+
+/**
+ * Revoke one of our access tokens
+ * Deleting its upstream tokens also ends the refresh tokens issued with it, opaque tokens are deleted too
+ * Returns false when the token is not a valid access token
+ */
+const revokeAccessToken = (
+  token: string,
+  clientId: string,
+  config: TokenConfig
+): Effect.Effect<boolean, AppError, RedisService | UpstreamIdP | JWTService> =>
+  Effect.gen(function* () {
+    const claims = yield* pipe(
+      decodeAccessToken(token),
+      Effect.map((data): JWTClaims | undefined => data),
+      Effect.catchAll(() => Effect.succeed(undefined))
+    )
+
+    if (!claims) {
+      return false
+    }
+
+    if (clientId !== claims.client_id) {
+      yield* Effect.logWarning('Access token revocation by another client ignored').pipe(
+        Effect.annotateLogs({ client_id: clientId, jti: claims.jti })
+      )
+      return true
+    }
+
+    const googleTokenData = yield* findGoogleToken(claims.jti)
+    const ttlSeconds = claims.exp - Math.floor(Date.now() / 1000)
+
+    yield* revokeJti(claims.jti, ttlSeconds, googleTokenData, config)
+    yield* deleteAccessToken(token)
+
+    yield* Effect.logInfo('Access token revoked').pipe(
+      Effect.annotateLogs({ jti: claims.jti, client_id: claims.client_id })
+    )
+
+    return true
+  })
+
+/**
+ * Process a token revocation request (RFC 7009)
+ * 1. Look the token up as the hinted type first, then as the other type
+ * 2. Revoke it if found
+ * Unknown and invalid tokens succeed as well, the client can't do anything about them
+ */
+export const processRevocation = (
+  request: RevocationRequest,
+  config: TokenConfig
+): Effect.Effect<void, AppError, RedisService | UpstreamIdP | JWTService> =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo('Processing token revocation').pipe(
+      Effect.annotateLogs({
+        token_type_hint: request.token_type_hint,
+        client_id: request.client_id,
+      })
+    )
+
+    const asRefreshToken = revokeRefreshToken(request.token, request.client_id, config)
+    const asAccessToken = revokeAccessToken(request.token, request.client_id, config)
+
+    // Step 1: Try the hinted token type first
+    const [first, second] =
+      request.token_type_hint === 'access_token'
+        ? [asAccessToken, asRefreshToken]
+        : [asRefreshToken, asAccessToken]
+
+    // Step 2: Revoke it
+    const found = yield* first
+    const revoked = found || (yield* second)
+
+    if (!revoked) {
+      yield* Effect.logDebug('Revoked token was unknown')
+    }
+  })
+
+/**
+ * Verify one of our access tokens, JWT or opaque, rejecting revoked ones
+ */
+export const verifyAccessToken = (
+  token: string
+): Effect.Effect<JWTClaims, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const claims = yield* decodeAccessToken(token)
+
+    if (yield* redisOps.isJtiRevoked(claims.jti)) {
+      return yield* Effect.fail(new TokenRevoked({ jti: claims.jti }))
+    }
+
+    return claims
+  })
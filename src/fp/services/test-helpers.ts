@@ -0,0 +1,70 @@
+import { Effect } from 'effect'
+import { vi } from 'vitest'
+import { ParseError } from '../errors.js'
+import type { JWTClaims, JWTService } from './jwt.js'
+import type { Redis } from 'ioredis'
+
+// In-memory Redis client shared by the service tests
+export const createMemoryRedis = () => {
+  const store = new Map<string, string>()
+  const client = {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string, ...options: Array<string | number>) => {
+      if (options.includes('NX') && store.has(key)) {
+        return null
+      }
+      store.set(key, value)
+      return 'OK'
+    }),
+    del: vi.fn(async (...keys: string[]) => keys.filter((key) => store.delete(key)).length),
+    exists: vi.fn(async (...keys: string[]) => keys.filter((key) => store.has(key)).length),
+    scan: vi.fn(async (_cursor: string, _match: string, pattern: string) => [
+      '0',
+      [...store.keys()].filter((key) => key.startsWith(pattern.replace('*', ''))),
+    ]),
+    eval: vi.fn(async (_script: string, _keys: number, key: string, expected: string, value: string) => {
+      if (store.get(key) !== expected) {
+        return null
+      }
+      store.set(key, value)
+      return 'OK'
+    }),
+    multi: vi.fn(() => {
+      const queued: Array<() => unknown> = []
+      const transaction = {
+        get: (key: string) => {
+          queued.push(() => store.get(key) ?? null)
+          return transaction
+        },
+        del: (...keys: string[]) => {
+          queued.push(() => keys.filter((key) => store.delete(key)).length)
+          return transaction
+        },
+        exec: async () => queued.map((command) => [null, command()]),
+      }
+      return transaction
+    }),
+  }
+  return { store, client: client as unknown as Redis }
+}
+
+// JWTService whose signing side mints `token` with a fixed jti
+export const createSigningJWT = (token: string): JWTService => ({
+  sign: vi.fn(() => Effect.succeed(token)),
+  verify: () => Effect.die('not used'),
+  generateJti: () => Effect.succeed('jti-1'),
+  getJWKS: () => Effect.die('not used'),
+  getKeyHealth: () => Effect.die('not used'),
+})
+
+// JWTService that only verifies 'access.jwt.token', yielding `claims`
+export const createVerifyingJWT = (claims: JWTClaims): JWTService => ({
+  sign: () => Effect.die('not used'),
+  verify: (token) =>
+    token === 'access.jwt.token'
+      ? Effect.succeed(claims)
+      : Effect.fail(new ParseError({ message: 'Failed to verify JWT' })),
+  generateJti: () => Effect.die('not used'),
+  getJWKS: () => Effect.die('not used'),
+  getKeyHealth: () => Effect.die('not used'),
+})
@@ -0,0 +1,147 @@
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ACCESS_TOKEN_TYPE, TOKEN_EXCHANGE_GRANT_TYPE } from '../domain.js'
+import { JWTService, type JWTClaims } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { createMemoryRedis, createVerifyingJWT } from './test-helpers.js'
+import { processTokenExchangeGrant } from './token-exchange.js'
+import { UpstreamIdPLive, type UpstreamIdP } from './upstream.js'
+import type { TokenExchangeGrant } from '../domain.js'
+
+describe('processTokenExchangeGrant', () => {
+  const claims: JWTClaims = {
+    sub: 'user-1',
+    scope: 'openid email',
+    client_id: 'client-1',
+    jti: 'jti-1',
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + 600,
+  }
+
+  const jwt = createVerifyingJWT(claims)
+
+  const upstream: UpstreamIdP = {
+    provider: 'google',
+    buildAuthUrl: () => Effect.die('not used'),
+    exchangeCode: () => Effect.die('not used'),
+    refreshToken: vi.fn(() =>
+      Effect.succeed({
+        access_token: 'fresh-at',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'openid email',
+      })
+    ),
+    getUserInfo: () => Effect.die('not used'),
+    revokeToken: () => Effect.die('not used'),
+  }
+
+  const grant: TokenExchangeGrant = {
+    grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+    subject_token: 'access.jwt.token',
+    subject_token_type: ACCESS_TOKEN_TYPE,
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService | UpstreamIdP>
+
+  const storeUpstreamToken = (expiresInSeconds: number) =>
+    memory.store.set(
+      'google_token:jti-1',
+      JSON.stringify({
+        google_access_token: 'upstream-at',
+        google_refresh_token: 'upstream-rt',
+        scope: 'openid email',
+        subject: 'user-1',
+        client_id: 'client-1',
+        expires_at: Date.now() + expiresInSeconds * 1000,
+        updated_at: Date.now(),
+      })
+    )
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(JWTService, jwt),
+      UpstreamIdPLive(upstream)
+    )
+    storeUpstreamToken(600)
+  })
+
+  const exchange = (overrides: Partial<TokenExchangeGrant> = {}) =>
+    Effect.runPromise(
+      Effect.either(Effect.provide(processTokenExchangeGrant({ ...grant, ...overrides }), layer))
+    )
+
+  it('should return the upstream access token behind the subject token', async () => {
+    const result = await exchange()
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right).toMatchObject({
+        access_token: 'upstream-at',
+        issued_token_type: ACCESS_TOKEN_TYPE,
+        token_type: 'Bearer',
+        scope: 'openid email',
+      })
+      expect(result.right.expires_in).toBeGreaterThan(500)
+    }
+    expect(upstream.refreshToken).not.toHaveBeenCalled()
+  })
+
+  it('should refresh an upstream token that is about to expire', async () => {
+    storeUpstreamToken(60)
+
+    const result = await exchange()
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right).toMatchObject({ access_token: 'fresh-at', expires_in: 3600 })
+    }
+    expect(upstream.refreshToken).toHaveBeenCalledWith('upstream-rt')
+    expect(JSON.parse(memory.store.get('google_token:jti-1') as string).google_access_token).toBe(
+      'fresh-at'
+    )
+  })
+
+  it('should report the upstream token\'s scope, which a narrower request does not change', async () => {
+    const result = await exchange({ scope: 'email' })
+
+    expect(result._tag === 'Right' && result.right.scope).toBe('openid email')
+  })
+
+  it('should reject other token types and targets', async () => {
+    const results = [
+      await exchange({ requested_token_type: 'urn:ietf:params:oauth:token-type:id_token' }),
+      await exchange({ audience: 'https://drive.example.com' }),
+      await exchange({ resource: 'https://drive.example.com/api' }),
+    ]
+
+    expect(results.map((result) => result._tag === 'Left' && result.left._tag)).toEqual([
+      'InvalidFormat',
+      'InvalidTarget',
+      'InvalidTarget',
+    ])
+  })
+
+  it('should reject a scope the client was not granted', async () => {
+    const result = await exchange({ scope: 'openid drive' })
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('InvalidScope')
+    }
+  })
+
+  it('should reject revoked and invalid subject tokens', async () => {
+    memory.store.set('revoked_jti:jti-1', String(Date.now()))
+
+    const revoked = await exchange()
+    const invalid = await exchange({ subject_token: 'forged.jwt.token' })
+
+    expect(revoked._tag === 'Left' && revoked.left._tag).toBe('InvalidGrant')
+    expect(invalid._tag === 'Left' && invalid.left._tag).toBe('InvalidGrant')
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * OAuth2 Token Exchange (RFC 8693) - Effect version
+ * A resource server trades one of our access tokens for the upstream access token stored
+ * behind its JTI, so it can call the upstream provider's APIs for the user
+ */
+import { Effect, pipe } from 'effect'
+import { ACCESS_TOKEN_TYPE, GoogleTokenDataSchema } from '../domain.js'
+import { type AppError, InvalidFormat, InvalidGrant, InvalidTarget } from '../errors.js'
+import { parseScopeString, validateScopes } from '../validation.js'
+import { RedisService, createOAuthRedisOps } from './redis.js'
+import { verifyAccessToken } from './revocation.js'
+import { refreshUpstreamToken } from './token.js'
+import type { TokenExchangeGrant, TokenExchangeResponse } from '../domain.js'
+import type { JWTService } from './jwt.js'
+import type { UpstreamIdP } from './upstream.js'
+
+/**
+ * Process a token exchange grant
+ * Pipeline: Check request -> Verify subject token -> Fetch upstream tokens -> Check scope -> Refresh if needed
+ * The caller must already be authenticated as the resource server
+ * The upstream token is returned as it is, it can't be down-scoped. A requested scope
+ * must be granted to the client, the response reports the upstream token's real scope
+ */
+export const processTokenExchangeGrant = (
+  grant: TokenExchangeGrant
+): Effect.Effect<TokenExchangeResponse, AppError, RedisService | UpstreamIdP | JWTService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Only the upstream access token can be issued, for no other target (RFC 8693 §2.1)
+    if (grant.requested_token_type && grant.requested_token_type !== ACCESS_TOKEN_TYPE) {
+      return yield* Effect.fail(
+        new InvalidFormat({
+          field: 'requested_token_type',
+          expected: ACCESS_TOKEN_TYPE,
+          received: grant.requested_token_type,
+        })
+      )
+    }
+
+    const target = grant.audience ?? grant.resource
+    if (target !== undefined) {
+      return yield* Effect.fail(new InvalidTarget({ resource: target }))
+    }
+
+    // Step 2: Verify the subject token, revoked tokens are rejected
+    const claims = yield* pipe(
+      verifyAccessToken(grant.subject_token),
+      Effect.catchIf(
+        (error) => error._tag === 'ParseError' || error._tag === 'TokenRevoked',
+        () => Effect.fail(new InvalidGrant({ reason: 'Subject token is invalid, expired or revoked' }))
+      )
+    )
+
+    // Step 3: Fetch the upstream tokens, gone once the user's grant was revoked
+    const googleTokenData = yield* pipe(
+      redisOps.getGoogleToken(claims.jti, GoogleTokenDataSchema),
+      Effect.catchTag('RedisKeyNotFound', () =>
+        Effect.fail(new InvalidGrant({ reason: 'No upstream token for the subject token' }))
+      )
+    )
+
+    // Step 4: A requested scope is limited to what the client was granted
+    yield* validateScopes(parseScopeString(grant.scope ?? ''), parseScopeString(claims.scope))
+
+    // Step 5: Refresh the upstream token if it is about to expire
+    const refreshed = yield* refreshUpstreamToken(claims.jti, googleTokenData)
+    const scope = refreshed.googleTokenData.scope
+
+    yield* Effect.logInfo('Upstream token exchanged').pipe(
+      Effect.annotateLogs({ jti: claims.jti, client_id: claims.client_id, scope })
+    )
+
+    return {
+      access_token: refreshed.googleTokenData.google_access_token,
+      issued_token_type: ACCESS_TOKEN_TYPE,
+      token_type: 'Bearer' as const,
+      expires_in: refreshed.expiresIn,
+      scope,
+    }
+  })
@@ -0,0 +1,402 @@
+import crypto from 'crypto'
+import { Effect, Layer } from 'effect'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { JWTService } from './jwt.js'
+import { RedisServiceLive, type RedisService } from './redis.js'
+import { verifyAccessToken } from './revocation.js'
+import { createMemoryRedis, createSigningJWT } from './test-helpers.js'
+import {
+  DEFAULT_TOKEN_CONFIG,
+  processAuthCodeGrant,
+  processRefreshTokenGrant,
+  type TokenConfig,
+} from './token.js'
+import { UpstreamIdPLive, type UpstreamIdP } from './upstream.js'
+import type { AuthCodeGrant, RefreshTokenGrant } from '../domain.js'
+
+const CODE_VERIFIER = crypto.randomBytes(32).toString('base64url')
+const CODE_CHALLENGE = crypto.createHash('sha256').update(CODE_VERIFIER).digest('base64url')
+
+describe('processAuthCodeGrant', () => {
+  const jwt = createSigningJWT('signed.jwt.token')
+
+  const grant: AuthCodeGrant = {
+    grant_type: 'authorization_code',
+    code: 'code-1',
+    code_verifier: CODE_VERIFIER,
+    redirect_uri: 'https://client.example.com/cb',
+    client_id: 'client-1',
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(RedisServiceLive(memory.client), Layer.succeed(JWTService, jwt))
+
+    memory.store.set(
+      'auth_code_state:code-1',
+      JSON.stringify({
+        code_challenge: CODE_CHALLENGE,
+        code_challenge_method: 'S256',
+        scope: 'openid',
+        state: 'client-state',
+        redirect_uri: 'https://client.example.com/cb',
+        client_id: 'client-1',
+        timestamp: Date.now(),
+      })
+    )
+    memory.store.set(
+      'auth_code:code-1',
+      JSON.stringify({
+        google_tokens: {
+          tokens: { access_token: 'upstream-at', token_type: 'Bearer', expires_in: 3600, scope: 'openid' },
+        },
+        subject: 'user-1',
+      })
+    )
+  })
+
+  const resources: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [
+      { resource: 'https://mcp.example.com/mcp', name: 'MCP', scopes: [] },
+      { resource: 'https://other.example.com/mcp', name: 'Other', scopes: [] },
+    ],
+    accessTokenFormat: 'jwt',
+  }
+
+  const run = (overrides: Partial<AuthCodeGrant>, config?: TokenConfig) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.provide(processAuthCodeGrant({ ...grant, ...overrides }, config), layer)
+      )
+    )
+
+  const authorizeResource = (resource: string) => {
+    const pkceState = JSON.parse(memory.store.get('auth_code_state:code-1') as string)
+    memory.store.set('auth_code_state:code-1', JSON.stringify({ ...pkceState, resource }))
+  }
+
+  it('should issue tokens to the client the code was issued to', async () => {
+    const result = await run({})
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right.access_token).toBe('signed.jwt.token')
+    }
+  })
+
+  it('should reject a code redeemed by another client', async () => {
+    const result = await run({ client_id: 'client-2' })
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('ClientMismatch')
+    }
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+
+  it('should reject a redirect_uri that differs from the authorization request', async () => {
+    const result = await run({ redirect_uri: 'https://attacker.example.com/cb' })
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('RedirectUriMismatch')
+    }
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+
+  it('should let only one of two concurrent requests redeem the code', async () => {
+    const [first, second] = await Promise.all([run({}), run({})])
+
+    expect([first._tag, second._tag].sort()).toEqual(['Left', 'Right'])
+    expect(jwt.sign).toHaveBeenCalledTimes(1)
+  })
+
+  it('should revoke the issued tokens when the code is reused', async () => {
+    const first = await run({})
+    expect(first._tag).toBe('Right')
+    const refreshToken = first._tag === 'Right' ? first.right.refresh_token : ''
+    expect(memory.store.has('google_token:jti-1')).toBe(true)
+
+    const replay = await run({})
+
+    expect(replay._tag).toBe('Left')
+    if (replay._tag === 'Left') {
+      expect(replay.left._tag).toBe('InvalidGrant')
+    }
+    expect(memory.store.has('google_token:jti-1')).toBe(false)
+    expect(memory.store.has(`jwt_refresh:${refreshToken}`)).toBe(false)
+  })
+
+  it('should revoke the rotated family and denylist the first access token on reuse', async () => {
+    const first = await run({})
+    const familyId = JSON.parse(memory.store.get('auth_code_used:code-1') as string).family_id
+    // The client has since rotated its refresh token
+    memory.store.set('google_token:jti-2', '{}')
+    memory.store.set('jwt_refresh:rt-rotated', '{}')
+    memory.store.set(
+      `refresh_family:${familyId}`,
+      JSON.stringify({
+        jti: 'jti-2',
+        refresh_token: 'rt-rotated',
+        client_id: 'client-1',
+        subject: 'user-1',
+        created_at: Date.now(),
+      })
+    )
+
+    await run({})
+
+    expect(first._tag).toBe('Right')
+    expect(memory.store.has('revoked_jti:jti-1')).toBe(true)
+    expect(memory.store.has('google_token:jti-2')).toBe(false)
+    expect(memory.store.has('jwt_refresh:rt-rotated')).toBe(false)
+    expect(memory.store.has(`refresh_family:${familyId}`)).toBe(false)
+  })
+
+  it('should bind the access token audience to the authorized resource', async () => {
+    authorizeResource('https://mcp.example.com/mcp')
+
+    const result = await run({ resource: 'https://mcp.example.com/mcp' }, resources)
+
+    expect(result._tag).toBe('Right')
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ aud: 'https://mcp.example.com/mcp' }),
+      expect.any(Number),
+      undefined
+    )
+    const refreshToken = result._tag === 'Right' ? result.right.refresh_token : ''
+    expect(JSON.parse(memory.store.get(`jwt_refresh:${refreshToken}`) as string).resource).toBe(
+      'https://mcp.example.com/mcp'
+    )
+  })
+
+  it('should reject a resource other than the authorized one', async () => {
+    authorizeResource('https://mcp.example.com/mcp')
+
+    const result = await run({ resource: 'https://other.example.com/mcp' }, resources)
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('InvalidTarget')
+    }
+    expect(jwt.sign).not.toHaveBeenCalled()
+  })
+
+  it('should reject an unregistered resource', async () => {
+    const result = await run({ resource: 'https://unknown.example.com' }, resources)
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('InvalidTarget')
+    }
+  })
+
+  it('should consume the code even when the client check fails', async () => {
+    await run({ client_id: 'client-2' })
+
+    expect(memory.store.has('auth_code:code-1')).toBe(false)
+    expect((await run({}))._tag).toBe('Left')
+  })
+
+  it('should issue an opaque access token that resolves to its claims', async () => {
+    const result = await run({}, { ...DEFAULT_TOKEN_CONFIG, accessTokenFormat: 'opaque' })
+
+    expect(result._tag).toBe('Right')
+    expect(jwt.sign).not.toHaveBeenCalled()
+    const accessToken = result._tag === 'Right' ? result.right.access_token : ''
+    expect(accessToken).not.toContain('.')
+
+    const claims = await Effect.runPromise(Effect.provide(verifyAccessToken(accessToken), layer))
+
+    expect(claims).toMatchObject({ sub: 'user-1', client_id: 'client-1', jti: 'jti-1', scope: 'openid' })
+  })
+})
+
+describe('processRefreshTokenGrant', () => {
+  const jwt = createSigningJWT('signed.jwt.token')
+
+  const upstream: UpstreamIdP = {
+    provider: 'google',
+    buildAuthUrl: () => Effect.die('not used'),
+    exchangeCode: () => Effect.die('not used'),
+    refreshToken: vi.fn(() => Effect.die('not used')),
+    getUserInfo: () => Effect.die('not used'),
+    revokeToken: () => Effect.void,
+  }
+
+  const rotating: TokenConfig = {
+    refreshTokens: { rotation: 'always', clientRotation: {} },
+    revokeUpstreamTokens: false,
+    protectedResources: [],
+    accessTokenFormat: 'jwt',
+  }
+
+  let memory: ReturnType<typeof createMemoryRedis>
+  let layer: Layer.Layer<RedisService | JWTService | UpstreamIdP>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memory = createMemoryRedis()
+    layer = Layer.mergeAll(
+      RedisServiceLive(memory.client),
+      Layer.succeed(JWTService, jwt),
+      UpstreamIdPLive(upstream)
+    )
+
+    memory.store.set(
+      'google_token:jti-1',
+      JSON.stringify({
+        google_access_token: 'upstream-at',
+        google_refresh_token: 'upstream-rt',
+        scope: 'openid',
+        subject: 'user-1',
+        client_id: 'client-1',
+        expires_at: Date.now() + 3600 * 1000,
+        updated_at: Date.now(),
+      })
+    )
+    memory.store.set(
+      'jwt_refresh:rt-1',
+      JSON.stringify({
+        jti: 'jti-1',
+        client_id: 'client-1',
+        scope: 'openid',
+        subject: 'user-1',
+        family_id: 'family-1',
+        created_at: Date.now(),
+      })
+    )
+    memory.store.set(
+      'refresh_family:family-1',
+      JSON.stringify({
+        jti: 'jti-1',
+        refresh_token: 'rt-1',
+        client_id: 'client-1',
+        subject: 'user-1',
+        created_at: Date.now(),
+      })
+    )
+  })
+
+  const refresh = (
+    refreshToken: string,
+    config: TokenConfig = rotating,
+    clientId = 'client-1',
+    resource?: string
+  ) => {
+    const grant: RefreshTokenGrant = {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: clientId,
+      resource,
+    }
+    return Effect.runPromise(
+      Effect.either(Effect.provide(processRefreshTokenGrant(grant, config), layer))
+    )
+  }
+
+  it('should rotate the refresh token and consume the old one', async () => {
+    const result = await refresh('rt-1')
+
+    expect(result._tag).toBe('Right')
+    const rotated = result._tag === 'Right' ? result.right.refresh_token : ''
+    expect(rotated).toBeTruthy()
+    expect(rotated).not.toBe('rt-1')
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(false)
+    expect(JSON.parse(memory.store.get('refresh_family:family-1') as string).refresh_token).toBe(
+      rotated
+    )
+
+    expect((await refresh(rotated as string))._tag).toBe('Right')
+  })
+
+  it('should revoke the whole family when a consumed token is replayed', async () => {
+    const result = await refresh('rt-1')
+    const rotated = result._tag === 'Right' ? result.right.refresh_token : ''
+
+    const replay = await refresh('rt-1')
+
+    expect(replay._tag).toBe('Left')
+    if (replay._tag === 'Left') {
+      expect(replay.left._tag).toBe('InvalidGrant')
+    }
+    expect(memory.store.has(`jwt_refresh:${rotated}`)).toBe(false)
+    expect(memory.store.has('google_token:jti-1')).toBe(false)
+    expect(memory.store.has('refresh_family:family-1')).toBe(false)
+  })
+
+  it('should keep the refresh token when rotation is disabled for the client', async () => {
+    const result = await refresh('rt-1', {
+      ...rotating,
+      refreshTokens: { rotation: 'always', clientRotation: { 'client-1': 'never' } },
+    })
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right.refresh_token).toBe('rt-1')
+    }
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(true)
+  })
+
+  it('should reject a refresh token presented by another client', async () => {
+    const result = await refresh('rt-1', rotating, 'client-2')
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('ClientMismatch')
+    }
+    expect(memory.store.has('jwt_refresh:rt-1')).toBe(true)
+  })
+
+  it('should narrow the access token to the requested scope', async () => {
+    const tokenData = JSON.parse(memory.store.get('google_token:jti-1') as string)
+    memory.store.set('google_token:jti-1', JSON.stringify({ ...tokenData, scope: 'openid email' }))
+    const grant: RefreshTokenGrant = {
+      grant_type: 'refresh_token',
+      refresh_token: 'rt-1',
+      client_id: 'client-1',
+      scope: 'openid',
+    }
+
+    const result = await Effect.runPromise(
+      Effect.provide(processRefreshTokenGrant(grant, rotating), layer)
+    )
+
+    expect(result.scope).toBe('openid')
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'openid' }),
+      expect.any(Number),
+      undefined
+    )
+  })
+
+  it('should keep the audience the refresh token is bound to', async () => {
+    const refreshData = JSON.parse(memory.store.get('jwt_refresh:rt-1') as string)
+    memory.store.set(
+      'jwt_refresh:rt-1',
+      JSON.stringify({ ...refreshData, resource: 'https://mcp.example.com/mcp' })
+    )
+
+    const other = await refresh('rt-1', rotating, 'client-1', 'https://other.example.com/mcp')
+
+    expect(other._tag).toBe('Left')
+    if (other._tag === 'Left') {
+      expect(other.left._tag).toBe('InvalidTarget')
+    }
+
+    const result = await refresh('rt-1')
+
+    expect(result._tag).toBe('Right')
+    expect(jwt.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ aud: 'https://mcp.example.com/mcp' }),
+      expect.any(Number),
+      undefined
+    )
+  })
+})
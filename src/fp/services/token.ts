@@ -3,72 +3,208 @@
  * Returns JWTs instead of Google's opaque access tokens
  * Uses Effect.gen for readable async code with dependency injection
  */
-import { Effect } from 'effect'
+import { Effect, pipe } from 'effect'
 import crypto from 'crypto'
 import {
   PKCEStateSchema,
   AuthCodeDataSchema,
+  AuthCodeRedemptionSchema,
+  ConsumedRefreshTokenSchema,
   GoogleTokenDataSchema,
-  JWTRefreshDataSchema
+  JWTRefreshDataSchema,
+  RefreshTokenFamilySchema,
 } from '../domain.js'
 import {
   type AppError,
+  ClientMismatch,
+  InvalidGrant,
+  InvalidTarget,
   MissingParameter,
+  RedirectUriMismatch,
 } from '../errors.js'
 import { validatePKCE, parseScopeString, validateScopes } from '../validation.js'
-import { GoogleOAuthService } from './google.js'
+import { issueAccessToken } from './access-token.js'
 import { JWTService } from './jwt.js'
 import { RedisService, createOAuthRedisOps } from './redis.js'
+import { UpstreamIdP } from './upstream.js'
 import type {
+  AccessTokenFormat,
+  ProtectedResource,
+  RefreshTokenConfig,
+  ResourceServerCredential,
+} from '../config.js'
+import type {
+  AuthCodeData,
   AuthCodeGrant,
+  AuthCodeRedemption,
+  RefreshTokenFamily,
   RefreshTokenGrant,
   OAuth2TokenResponse,
   GoogleTokenData} from '../domain.js';
 
 /**
- * Process authorization_code grant type (Effect version)
- * Pipeline: Fetch auth data -> Validate PKCE -> Store Google tokens -> Generate JWT
+ * Access token lifetime used when the upstream token never expires
  */
-export const processAuthCodeGrant = (
-  grant: AuthCodeGrant
-): Effect.Effect<OAuth2TokenResponse, AppError, RedisService | JWTService> =>
+export const DEFAULT_ACCESS_TOKEN_TTL = 3600
+
+/**
+ * Configuration for the token endpoint
+ */
+export interface TokenConfig {
+  readonly refreshTokens: RefreshTokenConfig
+  readonly revokeUpstreamTokens: boolean
+  readonly introspection?: ResourceServerCredential
+  readonly protectedResources: ReadonlyArray<ProtectedResource>
+  readonly accessTokenFormat: AccessTokenFormat
+  readonly assertionAudiences?: ReadonlyArray<string> // Audiences JWT bearer assertions may name
+  readonly tokenEndpoint?: string // Our token endpoint, the audience of client assertions
+  readonly deviceVerificationUri?: string // Where users enter the user code of a device (RFC 8628)
+}
+
+/**
+ * Rotate refresh tokens unless configured otherwise
+ */
+export const DEFAULT_TOKEN_CONFIG: TokenConfig = {
+  refreshTokens: { rotation: 'always', clientRotation: {} },
+  revokeUpstreamTokens: false,
+  protectedResources: [],
+  accessTokenFormat: 'jwt',
+}
+
+/**
+ * Resolve the resource an access token is issued for (RFC 8707)
+ * A resource bound by the authorization or an earlier grant can't be changed,
+ * any other must be registered
+ */
+export const resolveResource = (
+  requested: string | undefined,
+  bound: string | undefined,
+  config: TokenConfig
+): Effect.Effect<string | undefined, InvalidTarget> => {
+  if (requested === undefined || requested === bound) {
+    return Effect.succeed(bound)
+  }
+
+  const registered = config.protectedResources.some(({ resource }) => resource === requested)
+  return bound === undefined && registered
+    ? Effect.succeed(requested)
+    : Effect.fail(new InvalidTarget({ resource: requested }))
+}
+
+/**
+ * Revoke a refresh token family: its current refresh token and upstream tokens
+ */
+const revokeRefreshFamily = (
+  familyId: string
+): Effect.Effect<void, AppError, RedisService> =>
   Effect.gen(function* () {
-    // Access services from context
     const redis = yield* RedisService
-    const jwt = yield* JWTService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const family = yield* pipe(
+      redisOps.getRefreshFamily(familyId, RefreshTokenFamilySchema),
+      Effect.map((data): RefreshTokenFamily | undefined => data),
+      Effect.catchTag('RedisKeyNotFound', () => Effect.succeed(undefined))
+    )
 
+    if (!family) {
+      return
+    }
+
+    yield* Effect.logWarning('Revoking refresh token family').pipe(
+      Effect.annotateLogs({ family_id: familyId, jti: family.jti, client_id: family.client_id })
+    )
+
+    yield* redisOps.deleteGoogleToken(family.jti)
+    yield* redisOps.deleteJWTRefresh(family.refresh_token)
+    yield* redisOps.deleteRefreshFamily(familyId)
+  })
+
+/**
+ * Revoke the tokens issued from an authorization code that is presented again
+ * Returns whether the code had been redeemed before (RFC 6749 §4.1.2)
+ */
+const revokeReusedAuthCode = (
+  code: string
+): Effect.Effect<boolean, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
     const redisOps = createOAuthRedisOps(redis)
 
-    // Step 1: Fetch auth code data and PKCE state from Redis (parallel)
-    const [authData, pkceState] = yield* Effect.all([
-      redisOps.getAuthCode(grant.code, AuthCodeDataSchema),
-      redisOps.getAuthCodeState(grant.code, PKCEStateSchema),
-    ])
+    const redemption = yield* pipe(
+      redisOps.getAuthCodeRedemption(code, AuthCodeRedemptionSchema),
+      Effect.map((data): AuthCodeRedemption | undefined => data),
+      Effect.catchTag('RedisKeyNotFound', () => Effect.succeed(undefined))
+    )
 
-    // Step 2: Clean up one-time use auth codes (sequential)
-    yield* redisOps.deleteAuthCode(grant.code)
-    yield* redisOps.deleteAuthCodeState(grant.code)
+    if (!redemption) {
+      return false
+    }
 
-    // Step 3: Validate PKCE
-    yield* validatePKCE(
-      grant.code_verifier,
-      pkceState.code_challenge,
-      pkceState.code_challenge_method
+    yield* Effect.logWarning('Authorization code reused, revoking issued tokens').pipe(
+      Effect.annotateLogs({ jti: redemption.jti, redeemed_at: redemption.redeemed_at })
     )
 
-    // Step 4: Generate JTI for this access token
+    // The first access token stays denylisted until it expires, the family holds
+    // whichever refresh token it was rotated into since
+    const expiresAt =
+      redemption.expires_at ?? redemption.redeemed_at + (DEFAULT_ACCESS_TOKEN_TTL * 1000)
+    const ttlSeconds = Math.ceil((expiresAt - Date.now()) / 1000)
+    yield* redisOps.revokeJti(redemption.jti, Math.max(1, ttlSeconds))
+    yield* redisOps.deleteGoogleToken(redemption.jti)
+    yield* redisOps.deleteJWTRefresh(redemption.refresh_token)
+    if (redemption.family_id) {
+      yield* revokeRefreshFamily(redemption.family_id)
+    }
+
+    return true
+  })
+
+/**
+ * Store the upstream tokens of a completed upstream login and issue our tokens for them
+ * Shared by the authorization code and device code grants, each issue starts a new
+ * refresh token family
+ * Our tokens carry the scope the user approved, the upstream scope without one
+ * Pipeline: Store Google tokens -> Store refresh data and family -> Generate JWT
+ */
+export const issueUpstreamLoginTokens = (
+  authData: AuthCodeData & { readonly subject: string },
+  clientId: string,
+  resource: string | undefined,
+  config: TokenConfig,
+  approvedScope?: string
+): Effect.Effect<
+  { response: OAuth2TokenResponse; jti: string; familyId: string },
+  AppError,
+  RedisService | JWTService
+> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const jwt = yield* JWTService
+
+    const redisOps = createOAuthRedisOps(redis)
+    const { subject } = authData
+
+    // Step 1: Generate JTI for this access token and our own refresh token,
+    // which starts a new rotation family
     const jti = yield* jwt.generateJti()
+    const ourRefreshToken = crypto.randomBytes(32).toString('base64url')
+    const familyId = crypto.randomUUID()
 
-    // Step 5: Store Google's tokens in Redis (indexed by JTI)
+    // Step 2: Store Google's tokens in Redis (indexed by JTI)
     const tokenObj = authData.google_tokens.tokens
+    const expiresIn = tokenObj.expires_in ?? DEFAULT_ACCESS_TOKEN_TTL
+    const scope = approvedScope ?? tokenObj.scope
     const googleTokenData: GoogleTokenData = {
       google_access_token: tokenObj.access_token,
       google_refresh_token: tokenObj.refresh_token ?? '',
       google_id_token: tokenObj.id_token,
       scope: tokenObj.scope,
-      subject: authData.subject ?? 'user',
-      client_id: pkceState.client_id,
-      expires_at: Date.now() + (tokenObj.expires_in * 1000),
+      subject,
+      email: authData.email,
+      client_id: clientId,
+      expires_at:
+        tokenObj.expires_in !== undefined ? Date.now() + (tokenObj.expires_in * 1000) : undefined,
       updated_at: Date.now(),
     }
 
@@ -78,64 +214,250 @@ export const processAuthCodeGrant = (
       Effect.annotateLogs({ jti, subject: googleTokenData.subject })
     )
 
-    // Step 6: Generate our own refresh token
-    const ourRefreshToken = crypto.randomBytes(32).toString('base64url')
-
-    // Step 7: Store JWT refresh data (mapping our refresh token to JTI)
+    // Step 3: Store JWT refresh data (mapping our refresh token to JTI) and its family
     yield* redisOps.setJWTRefresh(ourRefreshToken, {
       jti,
-      client_id: pkceState.client_id,
-      scope: tokenObj.scope,
-      subject: googleTokenData.subject,
+      client_id: clientId,
+      scope,
+      subject,
+      email: authData.email,
+      family_id: familyId,
+      resource,
+      created_at: Date.now(),
+    })
+
+    yield* redisOps.setRefreshFamily(familyId, {
+      jti,
+      refresh_token: ourRefreshToken,
+      client_id: clientId,
+      subject,
       created_at: Date.now(),
     })
 
-    // Step 8: Generate JWT access token
+    // Step 4: Generate access token, its audience is the resource if one was requested
     // In Google mode, this returns the Google ID token directly
-    // In Hydra mode, this signs a new JWT
-    const accessToken = yield* jwt.sign(
+    // In Hydra mode, this signs a new JWT, with ACCESS_TOKEN_FORMAT=opaque it stores a handle
+    const accessToken = yield* issueAccessToken(
       {
-        sub: googleTokenData.subject,
-        scope: tokenObj.scope,
-        client_id: pkceState.client_id,
+        sub: subject,
+        email: authData.email,
+        scope,
+        client_id: clientId,
         jti,
+        aud: resource,
       },
-      tokenObj.expires_in,
+      expiresIn,
+      config.accessTokenFormat,
       googleTokenData.google_id_token // Pass Google ID token for Google mode
     )
 
-    // Step 9: Build OAuth2 token response with JWT
+    // Step 5: Build OAuth2 token response with JWT
     const response: OAuth2TokenResponse = {
       access_token: accessToken, // JWT instead of Google's opaque token
       token_type: 'Bearer',
-      expires_in: tokenObj.expires_in,
+      expires_in: expiresIn,
       refresh_token: ourRefreshToken, // Our own refresh token
-      scope: tokenObj.scope,
+      scope,
     }
 
     yield* Effect.logInfo('Returning OAuth2 JWT token response').pipe(
       Effect.annotateLogs({ jti, subject: googleTokenData.subject })
     )
 
-    return response
+    return { response, jti, familyId }
+  })
+
+/**
+ * Process authorization_code grant type (Effect version)
+ * Pipeline: Take auth code -> Validate client and PKCE -> Issue tokens -> Record redemption
+ */
+export const processAuthCodeGrant = (
+  grant: AuthCodeGrant,
+  config: TokenConfig = DEFAULT_TOKEN_CONFIG
+): Effect.Effect<OAuth2TokenResponse, AppError, RedisService | JWTService> =>
+  Effect.gen(function* () {
+    // Access services from context
+    const redis = yield* RedisService
+
+    const redisOps = createOAuthRedisOps(redis)
+
+    // Step 1: Take auth code data and PKCE state from Redis in one atomic step,
+    // so concurrent requests cannot both redeem the code
+    const [authData, pkceState] = yield* pipe(
+      redisOps.takeAuthCode(grant.code, AuthCodeDataSchema, PKCEStateSchema),
+      Effect.catchTag('RedisKeyNotFound', (error) =>
+        pipe(
+          revokeReusedAuthCode(grant.code),
+          Effect.flatMap((reused) =>
+            Effect.fail(
+              reused
+                ? new InvalidGrant({ reason: 'Authorization code has already been used' })
+                : error
+            )
+          )
+        )
+      )
+    )
+
+    // Step 2: The code may only be redeemed by the client it was issued to,
+    // with the redirect_uri of the authorization request (RFC 6749 §4.1.3)
+    if (grant.client_id !== pkceState.client_id) {
+      return yield* Effect.fail(
+        new ClientMismatch({ expected: pkceState.client_id, received: grant.client_id })
+      )
+    }
+
+    if (grant.redirect_uri !== pkceState.redirect_uri) {
+      return yield* Effect.fail(
+        new RedirectUriMismatch({ expected: pkceState.redirect_uri, received: grant.redirect_uri })
+      )
+    }
+
+    // The token is issued for the resource of the authorization request, if any
+    const resource = yield* resolveResource(grant.resource, pkceState.resource, config)
+
+    // Step 3: Validate PKCE
+    yield* validatePKCE(
+      grant.code_verifier,
+      pkceState.code_challenge,
+      pkceState.code_challenge_method
+    )
+
+    // Step 4: Every token must identify the real upstream user
+    const subject = authData.subject
+    if (!subject) {
+      return yield* Effect.fail(
+        new InvalidGrant({ reason: 'Authorization code is not bound to a subject' })
+      )
+    }
+
+    // Step 5: Store the upstream tokens and issue ours
+    const issued = yield* issueUpstreamLoginTokens(
+      { ...authData, subject },
+      pkceState.client_id,
+      resource,
+      config
+    )
+
+    // Step 6: Remember what this code issued, in case it is presented again
+    yield* redisOps.setAuthCodeRedemption(grant.code, {
+      jti: issued.jti,
+      refresh_token: issued.response.refresh_token,
+      family_id: issued.familyId,
+      redeemed_at: Date.now(),
+      expires_at: Date.now() + (issued.response.expires_in * 1000),
+    })
+
+    return issued.response
+  })
+
+/**
+ * Whether refresh tokens of this client rotate on every use
+ */
+const rotatesRefreshTokens = (config: RefreshTokenConfig, clientId: string): boolean =>
+  (config.clientRotation[clientId] ?? config.rotation) === 'always'
+
+/**
+ * Replaying a rotated refresh token means it leaked, so its family is revoked
+ */
+const failConsumedRefresh = (
+  refreshToken: string
+): Effect.Effect<never, AppError, RedisService> =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService
+    const redisOps = createOAuthRedisOps(redis)
+
+    const consumed = yield* redisOps.getConsumedRefresh(refreshToken, ConsumedRefreshTokenSchema)
+    yield* Effect.logWarning('Refresh token reused').pipe(
+      Effect.annotateLogs({ family_id: consumed.family_id })
+    )
+    yield* revokeRefreshFamily(consumed.family_id)
+
+    return yield* Effect.fail(
+      new InvalidGrant({ reason: 'Refresh token has already been used' })
+    )
+  })
+
+/**
+ * Refresh the upstream tokens behind a JTI when they expire within 5 minutes
+ * Tokens without expires_at never expire (e.g. GitHub OAuth apps)
+ * Returns the current upstream tokens and the seconds they remain valid
+ */
+export const refreshUpstreamToken = (
+  jti: string,
+  googleTokenData: GoogleTokenData
+): Effect.Effect<
+  { googleTokenData: GoogleTokenData; expiresIn: number },
+  AppError,
+  RedisService | UpstreamIdP
+> =>
+  Effect.gen(function* () {
+    const now = Date.now()
+    const expiresAt = googleTokenData.expires_at
+    const needsRefresh = expiresAt !== undefined && expiresAt < (now + 300000) // Refresh if < 5min left
+
+    if (!needsRefresh) {
+      const expiresIn =
+        expiresAt !== undefined ? Math.floor((expiresAt - now) / 1000) : DEFAULT_ACCESS_TOKEN_TTL
+
+      yield* Effect.logDebug('Google token still valid').pipe(
+        Effect.annotateLogs({ expires_in: expiresIn })
+      )
+      return { googleTokenData, expiresIn }
+    }
+
+    const redis = yield* RedisService
+    const upstream = yield* UpstreamIdP
+    const redisOps = createOAuthRedisOps(redis)
+
+    yield* Effect.logDebug('Google token expired, refreshing').pipe(
+      Effect.annotateLogs({ expires_at: googleTokenData.expires_at, now })
+    )
+
+    // Refresh the upstream provider's token
+    const googleResponse = yield* upstream.refreshToken(googleTokenData.google_refresh_token)
+
+    // Update Google token data
+    const newGoogleTokenData: GoogleTokenData = {
+      ...googleTokenData,
+      google_access_token: googleResponse.access_token,
+      google_refresh_token: googleResponse.refresh_token ?? googleTokenData.google_refresh_token,
+      google_id_token: googleResponse.id_token ?? googleTokenData.google_id_token,
+      expires_at:
+        googleResponse.expires_in !== undefined
+          ? now + (googleResponse.expires_in * 1000)
+          : undefined,
+      updated_at: now,
+    }
+
+    // Store updated Google tokens
+    yield* redisOps.setGoogleToken(jti, newGoogleTokenData)
+
+    yield* Effect.logDebug('Google token refreshed and stored').pipe(
+      Effect.annotateLogs({ jti })
+    )
+
+    return {
+      googleTokenData: newGoogleTokenData,
+      expiresIn: googleResponse.expires_in ?? DEFAULT_ACCESS_TOKEN_TTL,
+    }
   })
 
 /**
  * Process refresh_token grant type (Effect version)
- * Pipeline: Fetch JWT refresh data -> Get Google tokens -> Refresh if needed -> Generate new JWT
+ * Pipeline: Fetch JWT refresh data -> Get upstream tokens -> Refresh if needed -> Rotate -> Generate new JWT
  */
 export const processRefreshTokenGrant = (
-  grant: RefreshTokenGrant
+  grant: RefreshTokenGrant,
+  config: TokenConfig = DEFAULT_TOKEN_CONFIG
 ): Effect.Effect<
   OAuth2TokenResponse,
   AppError,
-  RedisService | GoogleOAuthService | JWTService
+  RedisService | UpstreamIdP | JWTService
 > =>
   Effect.gen(function* () {
     // Access services
     const redis = yield* RedisService
-    const google = yield* GoogleOAuthService
-    const jwt = yield* JWTService
 
     const redisOps = createOAuthRedisOps(redis)
 
@@ -147,97 +469,118 @@ export const processRefreshTokenGrant = (
     const refreshToken = grant.refresh_token
 
     // Step 2: Fetch JWT refresh data (maps our refresh token to JTI)
-    const jwtRefreshData = yield* redisOps.getJWTRefresh(
-      refreshToken,
-      JWTRefreshDataSchema
+    // An unknown token may be one that was rotated away
+    const jwtRefreshData = yield* pipe(
+      redisOps.getJWTRefresh(refreshToken, JWTRefreshDataSchema),
+      Effect.catchTag('RedisKeyNotFound', (error) =>
+        pipe(
+          failConsumedRefresh(refreshToken),
+          Effect.catchTag('RedisKeyNotFound', () => Effect.fail(error))
+        )
+      )
     )
 
     yield* Effect.logTrace('Fetched JWT refresh data').pipe(
-      Effect.annotateLogs({ jti: jwtRefreshData.jti })
+      Effect.annotateLogs({ jti: jwtRefreshData.jti, family_id: jwtRefreshData.family_id })
     )
 
+    // The refresh token may only be used by the client it was issued to (RFC 6749 §6)
+    if (grant.client_id !== jwtRefreshData.client_id) {
+      return yield* Effect.fail(
+        new ClientMismatch({ expected: jwtRefreshData.client_id, received: grant.client_id })
+      )
+    }
+
+    // Refreshed access tokens keep the resource the refresh token is bound to
+    const resource = yield* resolveResource(grant.resource, jwtRefreshData.resource, config)
+
     // Step 3: Fetch Google token data using JTI
     const googleTokenData = yield* redisOps.getGoogleToken(
       jwtRefreshData.jti,
       GoogleTokenDataSchema
     )
 
-    // Step 4: Validate scopes if requested
+    // Step 4: Validate scopes if requested, the access token is then narrowed to them
+    // while the refresh token keeps its original scope (RFC 6749 §6)
+    let requestedScope: string | undefined
+
     if (grant.scope) {
       const requestedScopes = parseScopeString(grant.scope)
       const grantedScopes = parseScopeString(googleTokenData.scope)
 
       yield* validateScopes(requestedScopes, grantedScopes)
+      requestedScope = requestedScopes.join(' ')
     }
 
-    // Step 5: Check if Google token needs refresh
+    // Step 5: Refresh the upstream token if it is about to expire
     const now = Date.now()
-    const needsRefresh = googleTokenData.expires_at < (now + 300000) // Refresh if < 5min left
+    const { googleTokenData: newGoogleTokenData, expiresIn } = yield* refreshUpstreamToken(
+      jwtRefreshData.jti,
+      googleTokenData
+    )
 
-    let newGoogleTokenData = googleTokenData
-    let expiresIn = Math.floor((googleTokenData.expires_at - now) / 1000)
+    // Step 6: Rotate the refresh token, the old one is consumed within its family
+    let responseRefreshToken = refreshToken
 
-    if (needsRefresh) {
-      yield* Effect.logDebug('Google token expired, refreshing').pipe(
-        Effect.annotateLogs({ expires_at: googleTokenData.expires_at, now })
+    if (rotatesRefreshTokens(config.refreshTokens, jwtRefreshData.client_id)) {
+      // Only one of concurrent requests can take the token
+      yield* pipe(
+        redisOps.takeJWTRefresh(refreshToken, JWTRefreshDataSchema),
+        Effect.catchTag('RedisKeyNotFound', () =>
+          Effect.fail(new InvalidGrant({ reason: 'Refresh token has already been used' }))
+        )
       )
 
-      // Refresh Google's token
-      const googleResponse = yield* google.refreshToken({
-        client_id: googleTokenData.client_id,
-        refresh_token: googleTokenData.google_refresh_token,
-        access_token: googleTokenData.google_access_token,
-        scope: googleTokenData.scope,
-        subject: googleTokenData.subject,
-        created_at: 0,
-        expires_in: 0,
-      })
-
-      // Update Google token data
-      newGoogleTokenData = {
-        ...googleTokenData,
-        google_access_token: googleResponse.access_token,
-        google_refresh_token: googleResponse.refresh_token ?? googleTokenData.google_refresh_token,
-        google_id_token: googleResponse.id_token ?? googleTokenData.google_id_token,
-        expires_at: now + (googleResponse.expires_in * 1000),
-        updated_at: now,
-      }
-
-      // Store updated Google tokens
-      yield* redisOps.setGoogleToken(jwtRefreshData.jti, newGoogleTokenData)
+      const familyId = jwtRefreshData.family_id ?? crypto.randomUUID()
+      responseRefreshToken = crypto.randomBytes(32).toString('base64url')
 
-      expiresIn = googleResponse.expires_in
+      yield* redisOps.setConsumedRefresh(refreshToken, {
+        family_id: familyId,
+        consumed_at: now,
+      })
+      yield* redisOps.setJWTRefresh(responseRefreshToken, {
+        ...jwtRefreshData,
+        family_id: familyId,
+        created_at: now,
+      })
+      yield* redisOps.setRefreshFamily(familyId, {
+        jti: jwtRefreshData.jti,
+        refresh_token: responseRefreshToken,
+        client_id: jwtRefreshData.client_id,
+        subject: jwtRefreshData.subject,
+        created_at: now,
+      })
 
-      yield* Effect.logDebug('Google token refreshed and stored').pipe(
-        Effect.annotateLogs({ jti: jwtRefreshData.jti })
-      )
-    } else {
-      yield* Effect.logDebug('Google token still valid').pipe(
-        Effect.annotateLogs({ expires_in: expiresIn })
+      yield* Effect.logDebug('Refresh token rotated').pipe(
+        Effect.annotateLogs({ family_id: familyId })
       )
     }
 
-    // Step 6: Generate new JWT access token (reusing same JTI)
+    // Step 7: Generate new access token (reusing same JTI)
     // In Google mode, this returns the Google ID token directly
-    // In Hydra mode, this signs a new JWT
-    const accessToken = yield* jwt.sign(
+    // In Hydra mode, this signs a new JWT, with ACCESS_TOKEN_FORMAT=opaque it stores a handle
+    const scope = requestedScope ?? newGoogleTokenData.scope
+    const accessToken = yield* issueAccessToken(
       {
         sub: newGoogleTokenData.subject,
-        scope: newGoogleTokenData.scope,
+        email: newGoogleTokenData.email,
+        scope,
         client_id: newGoogleTokenData.client_id,
         jti: jwtRefreshData.jti,
+        aud: resource,
       },
       expiresIn,
+      config.accessTokenFormat,
       newGoogleTokenData.google_id_token // Pass Google ID token for Google mode
     )
 
-    // Step 7: Build OAuth2 token response
+    // Step 8: Build OAuth2 token response
     const response: OAuth2TokenResponse = {
       access_token: accessToken, // New JWT
       token_type: 'Bearer',
       expires_in: expiresIn,
-      refresh_token: refreshToken, // Same refresh token
-      scope: newGoogleTokenData.scope,
+      refresh_token: responseRefreshToken, // Rotated, or the same refresh token
+      scope,
     }
 
     yield* Effect.logInfo('Returning refreshed JWT token response').pipe(
@@ -0,0 +1,56 @@
+/**
+ * Upstream identity provider abstraction
+ * The consent, callback and token pipelines only talk to this interface,
+ * each provider (Google, ...) supplies its own implementation
+ */
+import { Context, Layer } from 'effect'
+import type { UpstreamProvider } from '../config.js'
+import type { UpstreamTokenResponse, UpstreamUserInfo } from '../domain.js'
+import type { HttpError, UpstreamError } from '../errors.js'
+import type { Effect } from 'effect'
+
+/**
+ * Parameters for building the upstream authorization URL
+ */
+export interface UpstreamAuthUrlParams {
+  readonly state: string
+  readonly redirectUri: string
+  readonly scope?: string
+}
+
+/**
+ * Upstream identity provider interface
+ */
+export interface UpstreamIdP {
+  readonly provider: UpstreamProvider
+
+  readonly buildAuthUrl: (
+    params: UpstreamAuthUrlParams
+  ) => Effect.Effect<string, HttpError | UpstreamError>
+
+  readonly exchangeCode: (
+    code: string,
+    redirectUri: string
+  ) => Effect.Effect<UpstreamTokenResponse, HttpError | UpstreamError>
+
+  readonly refreshToken: (
+    refreshToken: string
+  ) => Effect.Effect<UpstreamTokenResponse, HttpError | UpstreamError>
+
+  readonly getUserInfo: (
+    accessToken: string,
+    idToken?: string
+  ) => Effect.Effect<UpstreamUserInfo, HttpError | UpstreamError>
+
+  readonly revokeToken: (token: string) => Effect.Effect<void, HttpError | UpstreamError>
+}
+
+/**
+ * Upstream identity provider tag
+ */
+export const UpstreamIdP = Context.GenericTag<UpstreamIdP>('UpstreamIdP')
+
+/**
+ * Create a Layer for an UpstreamIdP implementation
+ */
+export const UpstreamIdPLive = (idp: UpstreamIdP) => Layer.succeed(UpstreamIdP, idp)
@@ -0,0 +1,55 @@
+import crypto from 'crypto'
+import { Effect, Schema } from 'effect'
+import { describe, it, expect } from 'vitest'
+import { createOAuthRedisOps, makeRedisService } from './redis.js'
+import { createMemoryRedis } from './test-helpers.js'
+import { makeTokenVault } from './vault.js'
+
+const TokenSchema = Schema.Struct({ google_access_token: Schema.String })
+
+describe('TokenVault', () => {
+  const keys = {
+    v1: crypto.randomBytes(32).toString('base64'),
+    v2: crypto.randomBytes(32).toString('base64'),
+  }
+  const vaultV1 = makeTokenVault({ currentVersion: 'v1', keys: { v1: keys.v1 } })
+  const vaultV2 = makeTokenVault({ currentVersion: 'v2', keys })
+
+  it('should seal records that open only under the same key', () => {
+    const sealed = vaultV1.seal('{"google_access_token":"upstream-at"}', 'google_token:jti-1')
+
+    expect(sealed.startsWith('enc:v1:')).toBe(true)
+    expect(sealed).not.toContain('upstream-at')
+    expect(vaultV1.open(sealed, 'google_token:jti-1')).toBe('{"google_access_token":"upstream-at"}')
+    expect(() => vaultV1.open(sealed, 'google_token:jti-2')).toThrow()
+    expect(vaultV1.open('{"plain":true}', 'google_token:jti-1')).toBe('{"plain":true}')
+  })
+
+  it('should store upstream tokens sealed and read them back', async () => {
+    const memory = createMemoryRedis()
+    const redisOps = createOAuthRedisOps(makeRedisService(memory.client, vaultV1))
+
+    await Effect.runPromise(redisOps.setGoogleToken('jti-1', { google_access_token: 'upstream-at' }))
+    const data = await Effect.runPromise(redisOps.getGoogleToken('jti-1', TokenSchema))
+
+    expect(memory.store.get('google_token:jti-1')).toMatch(/^enc:v1:/)
+    expect(data.google_access_token).toBe('upstream-at')
+  })
+
+  it('should reseal older and plaintext records with the current key', async () => {
+    const memory = createMemoryRedis()
+    memory.store.set('google_token:jti-1', vaultV1.seal('{"google_access_token":"at-1"}', 'google_token:jti-1'))
+    memory.store.set('google_token:jti-2', '{"google_access_token":"at-2"}')
+    memory.store.set('jwt_refresh:rt-1', '{"jti":"jti-1"}')
+    const redisOps = createOAuthRedisOps(makeRedisService(memory.client, vaultV2))
+
+    const result = await Effect.runPromise(redisOps.resealUpstreamTokens())
+
+    expect(result).toEqual({ scanned: 2, resealed: 2, failed: 0 })
+    expect(memory.store.get('google_token:jti-1')).toMatch(/^enc:v2:/)
+    expect(memory.store.get('google_token:jti-2')).toMatch(/^enc:v2:/)
+    expect(memory.store.get('jwt_refresh:rt-1')).toBe('{"jti":"jti-1"}')
+    const data = await Effect.runPromise(redisOps.getGoogleToken('jti-2', TokenSchema))
+    expect(data.google_access_token).toBe('at-2')
+  })
+})
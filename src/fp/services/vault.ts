@@ -0,0 +1,99 @@
+/**
+ * Upstream token vault - envelope encryption for upstream tokens at rest
+ * Every record is encrypted with its own data key (AES-256-GCM), and the data key is wrapped
+ * with a versioned key-encryption key from UPSTREAM_TOKEN_KEYS
+ */
+import crypto from 'crypto'
+import type { UpstreamTokenKeyConfig } from '../config.js'
+
+const ALGORITHM = 'aes-256-gcm'
+const SEALED_PREFIX = 'enc:' // enc:<version>:<wrapped data key>:<data>
+
+/**
+ * Token vault interface
+ * The context (the Redis key) is authenticated with the data, so a record can't be moved to another key
+ */
+export interface TokenVault {
+  readonly currentVersion: string
+  readonly seal: (plaintext: string, context: string) => string
+  /**
+   * Decrypt a sealed record, plaintext records written before encryption pass through
+   * Throws for tampered records and unknown key versions
+   */
+  readonly open: (stored: string, context: string) => string
+  /**
+   * Whether a stored record is sealed with the current key
+   */
+  readonly isCurrent: (stored: string) => boolean
+}
+
+/**
+ * Whether a stored record is sealed, rather than plaintext JSON
+ */
+export const isSealed = (stored: string): boolean => stored.startsWith(SEALED_PREFIX)
+
+// AES-256-GCM, encoded as <iv>.<tag>.<ciphertext> in base64url
+const encrypt = (key: Buffer, plaintext: Buffer, aad?: string): string => {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  if (aad) {
+    cipher.setAAD(Buffer.from(aad))
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.')
+}
+
+const decrypt = (key: Buffer, encoded: string, aad?: string): Buffer => {
+  const [iv, tag, ciphertext] = encoded.split('.').map((part) => Buffer.from(part, 'base64url'))
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed sealed record')
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv, { authTagLength: 16 })
+  if (aad) {
+    decipher.setAAD(Buffer.from(aad))
+  }
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+/**
+ * Create a token vault from the configured key-encryption keys
+ */
+export const makeTokenVault = (config: UpstreamTokenKeyConfig): TokenVault => {
+  const keys = new Map(
+    Object.entries(config.keys).map(([version, key]) => [version, Buffer.from(key, 'base64')])
+  )
+  const currentKey = keys.get(config.currentVersion)
+  if (!currentKey) {
+    throw new Error(`Unknown upstream token key version ${config.currentVersion}`)
+  }
+
+  return {
+    currentVersion: config.currentVersion,
+
+    seal: (plaintext, context) => {
+      const dataKey = crypto.randomBytes(32)
+      const wrappedKey = encrypt(currentKey, dataKey)
+      const data = encrypt(dataKey, Buffer.from(plaintext, 'utf8'), context)
+      return `${SEALED_PREFIX}${config.currentVersion}:${wrappedKey}:${data}`
+    },
+
+    open: (stored, context) => {
+      if (!isSealed(stored)) {
+        return stored
+      }
+      const [, version, wrappedKey, data, ...rest] = stored.split(':')
+      if (!version || !wrappedKey || !data || rest.length > 0) {
+        throw new Error('Malformed sealed record')
+      }
+      const key = keys.get(version)
+      if (!key) {
+        throw new Error(`Unknown upstream token key version ${version}`)
+      }
+      const dataKey = decrypt(key, wrappedKey)
+      return decrypt(dataKey, data, context).toString('utf8')
+    },
+
+    isCurrent: (stored) => stored.startsWith(`${SEALED_PREFIX}${config.currentVersion}:`),
+  }
+}
@@ -0,0 +1,51 @@
+import { Effect } from 'effect'
+import { describe, it, expect } from 'vitest'
+import { parseBasicCredentials, validateClientCredentials } from './validation.js'
+
+const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`
+
+describe('parseBasicCredentials', () => {
+  it('should decode form-urlencoded client credentials', () => {
+    expect(parseBasicCredentials(basic('resource%3Aserver:s3cr%2Bt'))).toEqual({
+      clientId: 'resource:server',
+      clientSecret: 's3cr+t',
+    })
+  })
+
+  it('should ignore other authorization schemes', () => {
+    expect(parseBasicCredentials('Bearer token')).toBeUndefined()
+    expect(parseBasicCredentials(undefined)).toBeUndefined()
+    expect(parseBasicCredentials(basic('no-separator'))).toBeUndefined()
+  })
+})
+
+describe('validateClientCredentials', () => {
+  const expected = { clientId: 'rs', clientSecret: 'secret' }
+
+  it('should accept matching credentials', async () => {
+    const result = await Effect.runPromise(
+      validateClientCredentials(expected, { clientId: 'rs', clientSecret: 'secret' })
+    )
+
+    expect(result).toBe(true)
+  })
+
+  it('should reject a wrong secret', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(validateClientCredentials(expected, { clientId: 'rs', clientSecret: 'nope' }))
+    )
+
+    expect(result._tag).toBe('Left')
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('InvalidClient')
+    }
+  })
+
+  it('should reject every caller when no credential is configured', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(validateClientCredentials(undefined, { clientId: '', clientSecret: '' }))
+    )
+
+    expect(result._tag).toBe('Left')
+  })
+})
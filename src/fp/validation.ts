@@ -10,6 +10,8 @@ import {
   InvalidFormat,
   SchemaValidationError,
   ClientExistsError,
+  InvalidClient,
+  StateMismatch,
 } from './errors.js'
 import type { PKCEMethod } from './domain.js'
 
@@ -70,6 +72,69 @@ export const validatePKCE = (
         method: String(error),
       }),
   })
+/**
+ * Compare the state returned by the upstream provider with the one issued
+ * for this flow, in constant time
+ */
+export const validateState = (
+  expected: string | undefined,
+  received: string | undefined
+): Effect.Effect<true, StateMismatch> => {
+  const expectedBuffer = Buffer.from(expected ?? '')
+  const receivedBuffer = Buffer.from(received ?? '')
+
+  return expected &&
+    expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer)
+    ? Effect.succeed(true as const)
+    : Effect.fail(new StateMismatch({ received: received ?? '' }))
+}
+
+/**
+ * Client credentials from an HTTP Basic Authorization header (RFC 6749 §2.3.1)
+ * Both parts are form-urlencoded before being base64 encoded
+ */
+export const parseBasicCredentials = (
+  authorization: string | undefined
+): { clientId: string; clientSecret: string } | undefined => {
+  if (!authorization?.startsWith('Basic ')) {
+    return undefined
+  }
+
+  const decoded = Buffer.from(authorization.substring(6), 'base64').toString('utf8')
+  const separator = decoded.indexOf(':')
+  if (separator < 0) {
+    return undefined
+  }
+
+  try {
+    return {
+      clientId: decodeURIComponent(decoded.substring(0, separator).replace(/\+/g, ' ')),
+      clientSecret: decodeURIComponent(decoded.substring(separator + 1).replace(/\+/g, ' ')),
+    }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Check client credentials against the configured ones in constant time
+ */
+export const validateClientCredentials = (
+  expected: { clientId: string; clientSecret: string } | undefined,
+  received: { clientId: string; clientSecret: string } | undefined
+): Effect.Effect<true, InvalidClient> => {
+  const expectedSecret = Buffer.from(expected?.clientSecret ?? '')
+  const receivedSecret = Buffer.from(received?.clientSecret ?? '')
+
+  return expected &&
+    received?.clientId === expected.clientId &&
+    expectedSecret.length === receivedSecret.length &&
+    crypto.timingSafeEqual(expectedSecret, receivedSecret)
+    ? Effect.succeed(true as const)
+    : Effect.fail(new InvalidClient({ clientId: received?.clientId ?? '' }))
+}
+
 /**
  * Ensure the client doesn't exists in the clients table
  */
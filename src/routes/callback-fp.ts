@@ -1,11 +1,21 @@
 /**
- * Functional Google OAuth callback route using Effect
+ * Functional upstream OAuth callback route using Effect
  */
 import { Effect, pipe } from 'effect'
 import express from 'express'
-import { type AppError } from '../fp/errors.js'
-import { processCallback, type GoogleOAuthClient, type CallbackConfig } from '../fp/services/callback.js'
+import { type AppError, SessionNotFound } from '../fp/errors.js'
+import {
+  processCallback,
+  processCallbackError,
+  processDeviceCallback,
+  processDeviceCallbackError,
+  processLoginCallback,
+  type CallbackConfig,
+} from '../fp/services/callback.js'
+import { ErrorPage } from '../views/index.js'
+import type { HydraService } from '../fp/services/hydra.js'
 import type { RedisService } from '../fp/services/redis.js'
+import type { UpstreamIdP } from '../fp/services/upstream.js'
 import type { Layer } from 'effect';
 
 const router = express.Router()
@@ -20,6 +30,15 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
         status: 400,
         message: `Google token exchange failed: ${error.errorDescription}`,
       }
+    case 'UpstreamAuthError':
+      return {
+        status: 400,
+        message: `${error.provider} token exchange failed: ${error.errorDescription ?? error.error}`,
+      }
+    case 'StateMismatch':
+      return { status: 400, message: 'Invalid state parameter' }
+    case 'InvalidGrant':
+      return { status: 400, message: error.reason }
     case 'RedisKeyNotFound':
       return { status: 400, message: 'Session not found or expired' }
     case 'RedisParseError':
@@ -33,14 +52,16 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
  * Callback handler
  */
 const createCallbackHandler = (
-  serviceLayer: Layer.Layer<RedisService>,
-  googleClient: GoogleOAuthClient,
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
   config: CallbackConfig
 ) => {
   return async (req: express.Request, res: express.Response) => {
     const code = req.query.code as string
     const returnedState = req.query.state as string
+    const upstreamError = req.query.error as string | undefined
     const pkceKey = req.session?.pkceKey as string | undefined
+    // A device verification started in this session (RFC 8628)
+    const deviceFlow = !!returnedState && req.session?.deviceState === returnedState
 
     // Log entry point
     await Effect.runPromise(
@@ -50,10 +71,12 @@ const createCallbackHandler = (
           path: req.path,
           has_code: !!code,
           code_preview: code ? `${code.substring(0, 20)}...` : 'none',
+          upstream_error: upstreamError,
           has_state: !!returnedState,
           state_preview: returnedState ? `${returnedState.substring(0, 20)}...` : 'none',
           has_pkce_key: !!pkceKey,
           pkce_key: pkceKey,
+          device_flow: deviceFlow,
           session_id: req.session?.id,
           query: req.query,
           headers: {
@@ -69,6 +92,79 @@ const createCallbackHandler = (
       )
     )
 
+    // Upstream denied or failed the login of a device verification: deny the device,
+    // there is no client to redirect to
+    if (upstreamError && deviceFlow && pkceKey) {
+      req.session.deviceState = undefined
+
+      const result = await Effect.runPromise(
+        Effect.either(
+          processDeviceCallbackError(
+            {
+              error: upstreamError,
+              errorDescription: req.query.error_description as string | undefined,
+            },
+            returnedState,
+            pkceKey
+          ).pipe(Effect.provide(serviceLayer))
+        )
+      )
+
+      if (result._tag === 'Left') {
+        await Effect.runPromise(
+          Effect.logError('=== CALLBACK ERROR: Device not denied ===').pipe(
+            Effect.annotateLogs({
+              upstream_error: upstreamError,
+              error_tag: result.left._tag,
+              timestamp: new Date().toISOString(),
+            }),
+            Effect.provide(serviceLayer)
+          )
+        )
+      }
+      res.status(400).send(ErrorPage({ message: `Upstream authorization failed: ${upstreamError}` }))
+      return
+    }
+
+    // Upstream denied or failed the login: relay it to the client (RFC 6749 §4.1.2.1)
+    if (upstreamError) {
+      const errorDescription = req.query.error_description as string | undefined
+
+      const result = await Effect.runPromise(
+        Effect.either(
+          pkceKey
+            ? processCallbackError(
+                { error: upstreamError, errorDescription },
+                returnedState,
+                pkceKey,
+                config
+              ).pipe(Effect.provide(serviceLayer))
+            : Effect.fail(new SessionNotFound({ sessionId: req.session?.id ?? '' }))
+        )
+      )
+
+      if (result._tag === 'Right') {
+        res.redirect(result.right)
+        return
+      }
+
+      // Without a verified flow there is no client to safely redirect to
+      await Effect.runPromise(
+        Effect.logError('=== CALLBACK ERROR: Upstream error not relayed ===').pipe(
+          Effect.annotateLogs({
+            upstream_error: upstreamError,
+            error_description: errorDescription,
+            error_tag: result.left._tag,
+            has_pkce_key: !!pkceKey,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+      res.status(400).send(ErrorPage({ message: `Upstream authorization failed: ${upstreamError}` }))
+      return
+    }
+
     if (!code) {
       await Effect.runPromise(
         Effect.logError('=== CALLBACK ERROR: Missing Code ===').pipe(
@@ -100,7 +196,7 @@ const createCallbackHandler = (
     }
 
     const program = pipe(
-      Effect.logInfo('Processing Google OAuth callback').pipe(
+      Effect.logInfo('Processing upstream OAuth callback').pipe(
         Effect.annotateLogs({
           code_preview: `${code.substring(0, 20)}...`,
           state_preview: returnedState ? `${returnedState.substring(0, 20)}...` : 'none',
@@ -108,12 +204,23 @@ const createCallbackHandler = (
           config,
         })
       ),
-      Effect.andThen(() => processCallback(code, returnedState, pkceKey, googleClient, config)),
+      Effect.andThen(() => {
+        if (deviceFlow) {
+          return processDeviceCallback(code, returnedState, pkceKey, config)
+        }
+        return config.loginMode === 'upstream_first'
+          ? processLoginCallback(code, returnedState, pkceKey, config)
+          : processCallback(code, returnedState, pkceKey, config)
+      }),
       Effect.provide(serviceLayer)
     )
 
     const result = await Effect.runPromise(Effect.either(program))
 
+    if (deviceFlow) {
+      req.session.deviceState = undefined
+    }
+
     if (result._tag === 'Left') {
       const { status, message } = mapErrorToHttp(result.left)
 
@@ -153,11 +260,10 @@ const createCallbackHandler = (
  * Create callback router with service layer
  */
 export const createCallbackRouter = (
-  serviceLayer: Layer.Layer<RedisService>,
-  googleClient: GoogleOAuthClient,
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
   config: CallbackConfig
 ) => {
-  router.get('/', createCallbackHandler(serviceLayer, googleClient, config))
+  router.get('/', createCallbackHandler(serviceLayer, config))
   return router
 }
 
@@ -4,9 +4,15 @@
 import { Effect, pipe } from 'effect'
 import express from 'express'
 import { type AppError } from '../fp/errors.js'
-import { processConsent, type ConsentConfig } from '../fp/services/consent.js'
+import {
+  processConsentWithPKCE,
+  processUpstreamFirstConsent,
+  type ConsentConfig,
+} from '../fp/services/consent.js'
 import { ErrorPage } from '../views/index.js'
 import type { HydraService } from '../fp/services/hydra.js'
+import type { RedisService } from '../fp/services/redis.js'
+import type { UpstreamIdP } from '../fp/services/upstream.js'
 import type { Layer } from 'effect'
 
 const router = express.Router()
@@ -22,6 +28,8 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
       return { status: 500, message: 'Network error communicating with Hydra' }
     case 'RedisKeyNotFound':
       return { status: 400, message: 'Session not found or expired' }
+    case 'InvalidGrant':
+      return { status: 400, message: error.reason }
     default:
       return { status: 500, message: 'Internal server error' }
   }
@@ -31,12 +39,13 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
  * Consent handler
  */
 const createConsentHandler = (
-  serviceLayer: Layer.Layer<HydraService>,
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
   config: ConsentConfig
 ) => {
   return async (req: express.Request, res: express.Response) => {
     const challenge = String(req.query.consent_challenge)
     const requestedScope = req.query.requested_scope as string | undefined
+    const pkceKey = req.session?.pkceKey as string | undefined
 
     // Log entry point
     await Effect.runPromise(
@@ -76,6 +85,27 @@ const createConsentHandler = (
       return
     }
 
+    if (!pkceKey) {
+      await Effect.runPromise(
+        Effect.logError('=== CONSENT ERROR: Missing Session/PKCE ===').pipe(
+          Effect.annotateLogs({
+            has_session: !!req.session,
+            session_id: req.session?.id,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+      res.status(400).send(ErrorPage({ message: 'Missing session or PKCE key' }))
+      return
+    }
+
+    // After an upstream-first login the user has already been upstream
+    const consent =
+      config.loginMode === 'upstream_first'
+        ? processUpstreamFirstConsent(challenge, pkceKey, requestedScope)
+        : processConsentWithPKCE(challenge, pkceKey, config, requestedScope)
+
     const program = pipe(
       Effect.logInfo('Processing consent request').pipe(
         Effect.annotateLogs({
@@ -84,7 +114,7 @@ const createConsentHandler = (
           config,
         })
       ),
-      Effect.andThen(() => processConsent(challenge, config, requestedScope)),
+      Effect.andThen(() => consent),
       Effect.provide(serviceLayer)
     )
 
@@ -129,7 +159,7 @@ const createConsentHandler = (
  * Create consent router with service layer
  */
 export const createConsentRouter = (
-  serviceLayer: Layer.Layer<HydraService>,
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
   config: ConsentConfig
 ) => {
   router.get('/', createConsentHandler(serviceLayer, config))
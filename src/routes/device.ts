@@ -1,90 +1,182 @@
 /**
  * OAuth2 Device Authorization Flow (RFC 8628)
  *
- * Handles device code verification with CSRF protection.
+ * Handles user code verification with CSRF protection. The user confirms the
+ * client and scope, logs in upstream, and the upstream callback approves the device.
  */
-import url from 'url'
+import crypto from 'crypto'
 import { Effect, pipe } from 'effect'
 import express from 'express'
-import { OAuth2ApiService } from '../api/oauth2.js'
 import { appConfig } from '../config.js'
 import { type AppError } from '../fp/errors.js'
+import {
+  processDeviceDenial,
+  processDeviceLookup,
+  processDeviceVerification,
+  type DeviceConfig,
+} from '../fp/services/device.js'
+import { parseScopeString } from '../fp/validation.js'
 import { doubleCsrfProtection, generateCsrfToken } from '../setup/index.js'
-import { DeviceVerify, DeviceSuccess } from '../views/index.js'
+import { DeviceConfirm, DeviceVerify, DeviceSuccess } from '../views/index.js'
+import type { RedisService } from '../fp/services/redis.js'
+import type { UpstreamIdP } from '../fp/services/upstream.js'
 import type { Layer } from 'effect'
 
 const router = express.Router()
 
 const mapErrorToHttp = (error: AppError): { status: number; message: string } => {
   switch (error._tag) {
+    case 'RedisKeyNotFound':
+      return { status: 400, message: 'Unknown or expired code' }
+    case 'InvalidGrant':
+      return { status: 400, message: error.reason }
     case 'HttpStatusError':
       return { status: error.status, message: error.statusText }
     case 'NetworkError':
-      return { status: 500, message: 'Network error communicating with Hydra' }
+      return { status: 500, message: 'Network error communicating with the upstream provider' }
     default:
       return { status: 500, message: 'Internal server error' }
   }
 }
 
+/**
+ * Render the verification form, with a fresh CSRF token
+ */
+const renderVerifyForm = (
+  req: express.Request,
+  res: express.Response,
+  userCode: string,
+  error?: string
+) =>
+  DeviceVerify({
+    action: '/device/verify',
+    csrfToken: generateCsrfToken(req, res),
+    envXsrfToken: appConfig.security.xsrfHeaderName,
+    userCode,
+    error,
+  })
+
 /**
  * GET /verify - Render device verification form
+ * The user code is pre-filled when the user followed verification_uri_complete
  * This doesn't need Effect since it's just rendering a form
  */
-router.get('/verify', (req, res, next) => {
-  const query = url.parse(req.url, true).query
-
-  // The challenge is used to fetch information about the device request from ORY Hydra
-  const challenge = String(query.device_challenge)
-  if (!challenge) {
-    next(new Error('Expected a device challenge to be set but received none.'))
-    return
-  }
+router.get('/verify', (req, res) => {
+  res.send(renderVerifyForm(req, res, String(req.query.user_code ?? '')))
+})
 
-  // Generate CSRF token for the device verification form
-  const csrfToken = generateCsrfToken(req, res)
-
-  res.send(
-    DeviceVerify({
-      action: '/device/verify',
-      csrfToken,
-      envXsrfToken: appConfig.security.xsrfHeaderName,
-      challenge,
-      userCode: String(query.user_code || ''),
-    })
+/**
+ * Log a failed step of the flow and render the form again with its error
+ */
+const sendVerifyError = async (
+  req: express.Request,
+  res: express.Response,
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP>,
+  userCode: string,
+  error: AppError
+) => {
+  const { status, message } = mapErrorToHttp(error)
+
+  await Effect.runPromise(
+    Effect.logError('=== DEVICE VERIFICATION ERROR ===').pipe(
+      Effect.annotateLogs({
+        error_tag: error._tag,
+        status,
+        message,
+        timestamp: new Date().toISOString(),
+      }),
+      Effect.provide(serviceLayer)
+    )
   )
-})
+
+  res.status(status).send(renderVerifyForm(req, res, userCode, message))
+}
 
 /**
  * POST /verify handler factory
+ * Shows the user which client asked for which scope (RFC 8628 §5.4)
  */
-const createVerifyHandler = (serviceLayer: Layer.Layer<OAuth2ApiService>) => {
+const createVerifyHandler = (serviceLayer: Layer.Layer<RedisService | UpstreamIdP>) => {
   return async (req: express.Request, res: express.Response) => {
-    const { code: userCode, challenge } = req.body
+    const userCode = req.body?.user_code as string | undefined
 
-    if (!challenge || !userCode) {
-      res.status(400).send('Missing challenge or user_code')
+    if (!userCode) {
+      res.status(400).send(renderVerifyForm(req, res, '', 'Missing user code'))
       return
     }
 
-    const program = pipe(
-      Effect.gen(function* () {
-        const oauth2Api = yield* OAuth2ApiService
-        const redirectTo = yield* oauth2Api.acceptUserCodeRequest(challenge, {
-          user_code: userCode,
-        })
+    const program = pipe(processDeviceLookup(userCode), Effect.provide(serviceLayer))
 
-        return redirectTo.redirect_to || ''
-      }),
+    const result = await Effect.runPromise(Effect.either(program))
+
+    if (result._tag === 'Left') {
+      await sendVerifyError(req, res, serviceLayer, userCode, result.left)
+      return
+    }
+
+    res.send(
+      DeviceConfirm({
+        action: '/device/confirm',
+        csrfToken: generateCsrfToken(req, res),
+        envXsrfToken: appConfig.security.xsrfHeaderName,
+        userCode,
+        clientId: result.right.client_id,
+        clientName: result.right.client_name,
+        scope: parseScopeString(result.right.scope),
+      })
+    )
+  }
+}
+
+/**
+ * POST /confirm handler factory
+ * An approved device sends the user upstream, the callback approves it
+ * A denied device gets access_denied on its next poll
+ */
+const createConfirmHandler = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP>,
+  config: DeviceConfig
+) => {
+  return async (req: express.Request, res: express.Response) => {
+    const userCode = req.body?.user_code as string | undefined
+    const submit = req.body?.submit as string | undefined
+
+    if (!userCode) {
+      res.status(400).send(renderVerifyForm(req, res, '', 'Missing user code'))
+      return
+    }
+
+    // User refused the device
+    if (submit === 'Deny access') {
+      const program = pipe(processDeviceDenial(userCode), Effect.provide(serviceLayer))
+
+      const result = await Effect.runPromise(Effect.either(program))
+
+      if (result._tag === 'Left') {
+        await sendVerifyError(req, res, serviceLayer, userCode, result.left)
+      } else {
+        res.send(
+          DeviceSuccess({ heading: 'Access denied', message: 'The device was not signed in.' })
+        )
+      }
+      return
+    }
+
+    // The upstream callback must come back to the browser session that entered the code
+    req.session.pkceKey = req.session.pkceKey ?? crypto.randomUUID()
+
+    const program = pipe(
+      processDeviceVerification(userCode, req.session.pkceKey, config),
       Effect.provide(serviceLayer)
     )
 
     const result = await Effect.runPromise(Effect.either(program))
 
     if (result._tag === 'Left') {
-      const { status, message } = mapErrorToHttp(result.left)
-      res.status(status).send(message)
+      await sendVerifyError(req, res, serviceLayer, userCode, result.left)
     } else {
-      res.redirect(result.right)
+      req.session.deviceState = result.right.state
+      res.redirect(result.right.upstreamUrl)
     }
   }
 }
@@ -97,9 +189,13 @@ router.get('/success', (_req, res) => {
   res.send(DeviceSuccess({}))
 })
 
-export const createDeviceRouter = (serviceLayer: Layer.Layer<OAuth2ApiService>) => {
-  // Apply CSRF protection to POST route (form submission)
+export const createDeviceRouter = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP>,
+  config: DeviceConfig
+) => {
+  // Apply CSRF protection to POST routes (form submissions)
   router.post('/verify', doubleCsrfProtection, createVerifyHandler(serviceLayer))
+  router.post('/confirm', doubleCsrfProtection, createConfirmHandler(serviceLayer, config))
   return router
 }
 
@@ -6,6 +6,7 @@
  */
 import { Effect, pipe } from 'effect'
 import express from 'express'
+import { JWTService } from '../fp/services/jwt.js'
 import type { Layer } from 'effect'
 
 const router = express.Router()
@@ -13,7 +14,7 @@ const router = express.Router()
 /**
  * HEAD / - Health check endpoint (headers only)
  */
-const createHeadHandler = (serviceLayer: Layer.Layer<never>) => {
+const createHeadHandler = (serviceLayer: Layer.Layer<JWTService>) => {
   return async (req: express.Request, res: express.Response) => {
     const program = pipe(
       Effect.gen(function* () {
@@ -36,7 +37,7 @@ const createHeadHandler = (serviceLayer: Layer.Layer<never>) => {
 /**
  * GET / - Health check endpoint
  */
-const createGetHandler = (serviceLayer: Layer.Layer<never>) => {
+const createGetHandler = (serviceLayer: Layer.Layer<JWTService>) => {
   return async (req: express.Request, res: express.Response) => {
     const program = pipe(
       Effect.gen(function* () {
@@ -59,7 +60,7 @@ const createGetHandler = (serviceLayer: Layer.Layer<never>) => {
 /**
  * POST / - Health check endpoint (for testing)
  */
-const createPostHandler = (serviceLayer: Layer.Layer<never>) => {
+const createPostHandler = (serviceLayer: Layer.Layer<JWTService>) => {
   return async (req: express.Request, res: express.Response) => {
     const program = pipe(
       Effect.gen(function* () {
@@ -79,13 +80,43 @@ const createPostHandler = (serviceLayer: Layer.Layer<never>) => {
   }
 }
 
+/**
+ * GET /health/keys - Signing key state
+ * 503 while no key can be signed with, a stale key still signs
+ */
+const createKeyHealthHandler = (serviceLayer: Layer.Layer<JWTService>) => {
+  return async (_req: express.Request, res: express.Response) => {
+    const program = pipe(
+      Effect.gen(function* () {
+        const jwt = yield* JWTService
+        const health = yield* jwt.getKeyHealth()
+
+        if (health.status !== 'healthy') {
+          yield* Effect.logWarning('Signing key not healthy').pipe(
+            Effect.annotateLogs({ ...health })
+          )
+        }
+
+        return health
+      }),
+      Effect.provide(serviceLayer)
+    )
+
+    const health = await Effect.runPromise(program)
+
+    res.set('Cache-Control', 'no-store')
+    res.status(health.status === 'unavailable' ? 503 : 200).json(health)
+  }
+}
+
 /**
  * Create index router with service layer
  */
-export const createIndexRouter = (serviceLayer: Layer.Layer<never>) => {
+export const createIndexRouter = (serviceLayer: Layer.Layer<JWTService>) => {
   router.head('/', createHeadHandler(serviceLayer))
   router.get('/', createGetHandler(serviceLayer))
   router.post('/', createPostHandler(serviceLayer))
+  router.get('/health/keys', createKeyHealthHandler(serviceLayer))
   return router
 }
 
@@ -4,11 +4,20 @@
 import { Effect, pipe } from 'effect'
 import express from 'express'
 import { type AppError } from '../fp/errors.js'
-import { processLogin } from '../fp/services/login.js'
+import {
+  processLogin,
+  processUpstreamFirstLogin,
+  type LoginConfig,
+} from '../fp/services/login.js'
 import type { HydraService } from '../fp/services/hydra.js'
+import type { RedisService } from '../fp/services/redis.js'
+import type { UpstreamIdP } from '../fp/services/upstream.js'
 import type { Layer } from 'effect';
 
 const router = express.Router()
+
+// Passthrough mode accepts the login before anyone authenticated upstream, so Hydra's
+// session can't name the user. Our tokens get the real subject in the callback
 const SUBJECT_PLACEHOLDER = 'claude@claude.ai'
 
 /**
@@ -20,6 +29,8 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
       return { status: error.status, message: error.statusText }
     case 'NetworkError':
       return { status: 500, message: 'Network error communicating with Hydra' }
+    case 'RedisWriteError':
+      return { status: 500, message: 'Failed to store login state' }
     default:
       return { status: 500, message: 'Internal server error' }
   }
@@ -28,9 +39,13 @@ const mapErrorToHttp = (error: AppError): { status: number; message: string } =>
 /**
  * Login handler factory
  */
-const createLoginHandler = (serviceLayer: Layer.Layer<HydraService>) => {
+const createLoginHandler = (
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
+  config: LoginConfig
+) => {
   return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
     const challenge = String(req.query.login_challenge ?? req.body.challenge)
+    const pkceKey = req.session?.pkceKey as string | undefined
 
     // Log entry point
     await Effect.runPromise(
@@ -42,6 +57,7 @@ const createLoginHandler = (serviceLayer: Layer.Layer<HydraService>) => {
           login_challenge_preview: challenge ? `${challenge.substring(0, 20)}...` : 'none',
           query: req.query,
           body: req.body,
+          login_mode: config.loginMode,
           session_id: req.session?.id,
           headers: {
             'content-type': req.headers['content-type'],
@@ -71,14 +87,36 @@ const createLoginHandler = (serviceLayer: Layer.Layer<HydraService>) => {
       return
     }
 
+    if (config.loginMode === 'upstream_first' && !pkceKey) {
+      await Effect.runPromise(
+        Effect.logError('=== LOGIN ERROR: Missing Session/PKCE ===').pipe(
+          Effect.annotateLogs({
+            has_session: !!req.session,
+            session_id: req.session?.id,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+      res.status(400).send('Missing session or PKCE key')
+      return
+    }
+
+    // Upstream-first holds the challenge open and sends the user upstream,
+    // otherwise the login is accepted straight away
+    const login =
+      config.loginMode === 'upstream_first' && pkceKey
+        ? processUpstreamFirstLogin(challenge, pkceKey, config)
+        : processLogin(challenge, SUBJECT_PLACEHOLDER)
+
     const program = pipe(
       Effect.logInfo('Processing login request').pipe(
         Effect.annotateLogs({
           challenge_preview: `${challenge.substring(0, 20)}...`,
-          subject: SUBJECT_PLACEHOLDER,
+          login_mode: config.loginMode,
         })
       ),
-      Effect.andThen(() => processLogin(challenge, SUBJECT_PLACEHOLDER)),
+      Effect.andThen(() => login),
       Effect.provide(serviceLayer)
     )
 
@@ -122,8 +160,11 @@ const createLoginHandler = (serviceLayer: Layer.Layer<HydraService>) => {
 /**
  * Create login router with service layer
  */
-export const createLoginRouter = (serviceLayer: Layer.Layer<HydraService>) => {
-  const handler = createLoginHandler(serviceLayer)
+export const createLoginRouter = (
+  serviceLayer: Layer.Layer<HydraService | RedisService | UpstreamIdP>,
+  config: LoginConfig
+) => {
+  const handler = createLoginHandler(serviceLayer, config)
 
   router.get('/', handler)
   router.post('/', handler)
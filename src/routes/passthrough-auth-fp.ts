@@ -7,18 +7,41 @@ import express from 'express'
 import {
   TokenRequestSchema,
   AuthCodeGrantSchema,
+  ClientCredentialsGrantSchema,
+  DEVICE_CODE_GRANT_TYPE,
+  DeviceAuthorizationRequestSchema,
+  DeviceCodeGrantSchema,
+  IntrospectionRequestSchema,
+  JWT_BEARER_GRANT_TYPE,
+  JwtBearerGrantSchema,
   RefreshTokenGrantSchema,
+  RevocationRequestSchema,
+  TOKEN_EXCHANGE_GRANT_TYPE,
+  TokenExchangeGrantSchema,
   createOAuth2Error,
 } from '../fp/domain.js'
 import { type AppError, InvalidGrant } from '../fp/errors.js'
+import { authenticateClient, parseClientAuthentication } from '../fp/services/client-auth.js'
+import { processClientCredentialsGrant } from '../fp/services/client-credentials.js'
+import { processDeviceAuthorization, processDeviceCodeGrant } from '../fp/services/device.js'
+import { processIntrospection } from '../fp/services/introspection.js'
+import { processJwtBearerGrant } from '../fp/services/jwt-bearer.js'
+import { processRevocation } from '../fp/services/revocation.js'
+import { processTokenExchangeGrant } from '../fp/services/token-exchange.js'
 import {
+  type TokenConfig,
   processAuthCodeGrant,
   processRefreshTokenGrant,
 } from '../fp/services/token.js'
-import { validateSchema } from '../fp/validation.js'
-import type { GoogleOAuthService } from '../fp/services/google.js'
+import {
+  parseBasicCredentials,
+  validateClientCredentials,
+  validateSchema,
+} from '../fp/validation.js'
+import type { OAuth2ApiService } from '../api/oauth2.js'
 import type { JWTService } from '../fp/services/jwt.js'
 import type { RedisService } from '../fp/services/redis.js'
+import type { UpstreamIdP } from '../fp/services/upstream.js'
 import type { Layer } from 'effect';
 
 const router = express.Router()
@@ -39,6 +62,43 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
         status: 400,
         body: createOAuth2Error('invalid_grant', error.reason),
       }
+    case 'ClientMismatch':
+      return {
+        status: 400,
+        body: createOAuth2Error(
+          'invalid_grant',
+          'Authorization code or refresh token was not issued to this client'
+        ),
+      }
+    case 'RedirectUriMismatch':
+      return {
+        status: 400,
+        body: createOAuth2Error(
+          'invalid_grant',
+          'redirect_uri does not match the authorization request'
+        ),
+      }
+    case 'InvalidTarget':
+      return {
+        status: 400,
+        body: createOAuth2Error(
+          'invalid_target',
+          `Resource is not registered or not granted: ${error.resource}`
+        ),
+      }
+    case 'InvalidClient':
+      return {
+        status: 401,
+        body: createOAuth2Error('invalid_client', 'Client authentication failed'),
+      }
+    case 'UnauthorizedClient':
+      return {
+        status: 400,
+        body: createOAuth2Error(
+          'unauthorized_client',
+          `Client is not allowed the ${error.grantType} grant`
+        ),
+      }
     case 'InvalidScope':
       return {
         status: 400,
@@ -50,9 +110,34 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
         body: createOAuth2Error('invalid_request', `${error.parameter} required`),
       }
     case 'ExpiredToken':
+      return error.tokenType === 'device_code'
+        ? {
+            status: 400,
+            body: createOAuth2Error('expired_token', 'Device code expired'),
+          }
+        : {
+            status: 400,
+            body: createOAuth2Error('invalid_grant', 'Token expired'),
+          }
+
+    // Device code polling errors (RFC 8628 §3.5)
+    case 'AuthorizationPending':
       return {
         status: 400,
-        body: createOAuth2Error('invalid_grant', 'Token expired'),
+        body: createOAuth2Error(
+          'authorization_pending',
+          'The user has not approved the device yet'
+        ),
+      }
+    case 'SlowDown':
+      return {
+        status: 400,
+        body: createOAuth2Error('slow_down', `Poll at most every ${error.interval} seconds`),
+      }
+    case 'AccessDenied':
+      return {
+        status: 400,
+        body: createOAuth2Error('access_denied', 'The user denied the device'),
       }
 
     // Redis errors
@@ -62,12 +147,17 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
         body: createOAuth2Error('invalid_grant', 'Invalid or expired authorization code'),
       }
 
-    // Google OAuth errors
+    // Upstream identity provider errors
     case 'GoogleAuthError':
       return {
         status: 400,
         body: createOAuth2Error('invalid_grant', error.errorDescription ?? error.error),
       }
+    case 'UpstreamAuthError':
+      return {
+        status: 400,
+        body: createOAuth2Error('invalid_grant', error.errorDescription ?? error.error),
+      }
     case 'GoogleTokenExpired':
     case 'GoogleTokenRevoked':
       return {
@@ -86,6 +176,11 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
         status: 400,
         body: createOAuth2Error('invalid_request', `${error.field} required`),
       }
+    case 'InvalidFormat':
+      return {
+        status: 400,
+        body: createOAuth2Error('invalid_request', `${error.field} must be ${error.expected}`),
+      }
 
     // Generic errors
     default:
@@ -96,6 +191,15 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
   }
 }
 
+/**
+ * Resource server credentials, with HTTP Basic or client_id/client_secret in the body
+ */
+const getClientCredentials = (req: express.Request) =>
+  parseBasicCredentials(req.headers.authorization) ??
+  (req.body?.client_id && req.body?.client_secret
+    ? { clientId: String(req.body.client_id), clientSecret: String(req.body.client_secret) }
+    : undefined)
+
 /**
  * Main token endpoint handler (Effect version)
  *
@@ -106,7 +210,10 @@ const mapErrorToOAuth2 = (error: AppError): { status: number; body: object } =>
  * 4. Context-based dependency injection via Layers
  * 5. No side effects in the handler - all IO wrapped in Effect
  */
-export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | GoogleOAuthService | JWTService>) => {
+export const createTokenHandler = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP | JWTService | OAuth2ApiService>,
+  config: TokenConfig
+) => {
 
   return async (req: express.Request, res: express.Response) => {
 
@@ -134,14 +241,28 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
         })
       )
 
-      // Step 1: Validate request body using Effect Schema
+      // Step 1: Authenticate the client with the method it is registered with in Hydra,
+      // token exchange callers authenticate with the introspection credential instead
+      const client =
+        req.body?.grant_type === TOKEN_EXCHANGE_GRANT_TYPE
+          ? undefined
+          : yield* authenticateClient(
+              parseClientAuthentication(req.headers.authorization, req.body),
+              config
+            )
+
+      // Step 2: Validate request body using Effect Schema,
+      // the client id of HTTP Basic authentication may be missing from it
       yield* Effect.logDebug('Validating token request schema')
-      const tokenRequest = yield* validateSchema(TokenRequestSchema, req.body)
+      const tokenRequest = yield* validateSchema(TokenRequestSchema, {
+        ...req.body,
+        ...(client && { client_id: client.client_id }),
+      })
       yield* Effect.logDebug('Token request validated successfully').pipe(
         Effect.annotateLogs({ grant_type: tokenRequest.grant_type })
       )
 
-      // Step 2: Process based on grant type (discriminated union)
+      // Step 3: Process based on grant type (discriminated union)
       if (tokenRequest.grant_type === 'authorization_code') {
         yield* Effect.logDebug('Processing authorization_code grant').pipe(
           Effect.annotateLogs({
@@ -151,7 +272,7 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
         )
         // Validate as auth code grant and process
         const grant = yield* validateSchema(AuthCodeGrantSchema, tokenRequest)
-        const result = yield* processAuthCodeGrant(grant)
+        const result = yield* processAuthCodeGrant(grant, config)
         yield* Effect.logDebug('Auth code grant processed successfully').pipe(
           Effect.annotateLogs({
             has_access_token: !!result.access_token,
@@ -170,9 +291,40 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
         )
         // Validate as refresh token grant and process
         const grant = yield* validateSchema(RefreshTokenGrantSchema, tokenRequest)
-        const result = yield* processRefreshTokenGrant(grant)
+        const result = yield* processRefreshTokenGrant(grant, config)
         return result
 
+      } else if (tokenRequest.grant_type === 'client_credentials' && client) {
+        yield* Effect.logDebug('Processing client_credentials grant').pipe(
+          Effect.annotateLogs({ client_id: client.client_id, scope: tokenRequest.scope })
+        )
+        const grant = yield* validateSchema(ClientCredentialsGrantSchema, tokenRequest)
+        return yield* processClientCredentialsGrant(grant, client, config)
+
+      } else if (tokenRequest.grant_type === JWT_BEARER_GRANT_TYPE && client) {
+        yield* Effect.logDebug('Processing JWT bearer grant').pipe(
+          Effect.annotateLogs({ client_id: client.client_id, scope: tokenRequest.scope })
+        )
+        const grant = yield* validateSchema(JwtBearerGrantSchema, tokenRequest)
+        return yield* processJwtBearerGrant(grant, client, config)
+
+      } else if (tokenRequest.grant_type === DEVICE_CODE_GRANT_TYPE && client) {
+        yield* Effect.logDebug('Processing device_code grant').pipe(
+          Effect.annotateLogs({ client_id: client.client_id })
+        )
+        const grant = yield* validateSchema(DeviceCodeGrantSchema, tokenRequest)
+        return yield* processDeviceCodeGrant(grant, client, config)
+
+      } else if (tokenRequest.grant_type === TOKEN_EXCHANGE_GRANT_TYPE) {
+        // Only the resource server with the introspection credential may exchange tokens
+        yield* validateClientCredentials(config.introspection, getClientCredentials(req))
+
+        yield* Effect.logDebug('Processing token exchange grant').pipe(
+          Effect.annotateLogs({ scope: tokenRequest.scope })
+        )
+        const grant = yield* validateSchema(TokenExchangeGrantSchema, tokenRequest)
+        return yield* processTokenExchangeGrant(grant)
+
       } else {
         yield* Effect.logDebug('Unsupported grant type received').pipe(
           Effect.annotateLogs({ grant_type: (tokenRequest as any).grant_type })
@@ -188,12 +340,12 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
       Effect.provide(serviceLayer)
     )
 
-    // Step 3: Run the effect and handle result
+    // Step 4: Run the effect and handle result
     const result = await Effect.runPromise(
       Effect.either(program)
     )
 
-    // Step 4: Send response based on result
+    // Step 5: Send response based on result
     if (result._tag === 'Left') {
       const { status, body } = mapErrorToOAuth2(result.left)
 
@@ -213,6 +365,9 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
         )
       )
 
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="token"')
+      }
       res.status(status).json(body)
     } else {
       // Log success with token details (redacted)
@@ -222,7 +377,7 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
             token_type: result.right.token_type,
             expires_in: result.right.expires_in,
             has_access_token: !!result.right.access_token,
-            has_refresh_token: !!result.right.refresh_token,
+            has_refresh_token: 'refresh_token' in result.right,
             scope: result.right.scope,
             access_token_preview: `${result.right.access_token.substring(0, 50)}...`,
             grant_type: req.body?.grant_type,
@@ -238,11 +393,202 @@ export const createTokenHandler = (serviceLayer: Layer.Layer<RedisService | Goog
   }
 }
 
+/**
+ * Device authorization handler (RFC 8628 §3.1)
+ * The client authenticates as at the token endpoint, public clients with their client_id
+ */
+export const createDeviceAuthorizationHandler = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP | JWTService | OAuth2ApiService>,
+  config: TokenConfig
+) => {
+  return async (req: express.Request, res: express.Response) => {
+    const program = Effect.gen(function* () {
+      yield* Effect.logInfo('=== DEVICE AUTHORIZATION ENDPOINT REQUEST ===').pipe(
+        Effect.annotateLogs({
+          client_id: req.body?.client_id,
+          scope: req.body?.scope,
+          ip: req.ip,
+          timestamp: new Date().toISOString(),
+        })
+      )
+
+      // Step 1: Authenticate the client with the method it is registered with in Hydra
+      const client = yield* authenticateClient(
+        parseClientAuthentication(req.headers.authorization, req.body),
+        config
+      )
+
+      // Step 2: Validate request and start the authorization
+      const deviceRequest = yield* validateSchema(DeviceAuthorizationRequestSchema, {
+        ...req.body,
+        client_id: client.client_id,
+      })
+      return yield* processDeviceAuthorization(deviceRequest, client, config)
+    }).pipe(Effect.provide(serviceLayer))
+
+    const result = await Effect.runPromise(Effect.either(program))
+
+    if (result._tag === 'Left') {
+      const { status, body } = mapErrorToOAuth2(result.left)
+
+      await Effect.runPromise(
+        Effect.logError('=== DEVICE AUTHORIZATION ENDPOINT ERROR ===').pipe(
+          Effect.annotateLogs({
+            error_tag: result.left._tag,
+            status,
+            response_body: body,
+            client_id: req.body?.client_id,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="token"')
+      }
+      res.status(status).json(body)
+    } else {
+      res.setHeader('Cache-Control', 'no-store')
+      res.json(result.right)
+    }
+  }
+}
+
+/**
+ * Token revocation handler (RFC 7009)
+ * The client authenticates as at the token endpoint and may only revoke its own tokens.
+ * Answers 200 for unknown tokens too, only malformed requests, failed client
+ * authentication and server failures are errors
+ */
+export const createRevocationHandler = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP | JWTService | OAuth2ApiService>,
+  config: TokenConfig
+) => {
+  return async (req: express.Request, res: express.Response) => {
+    const program = Effect.gen(function* () {
+      yield* Effect.logInfo('=== REVOCATION ENDPOINT REQUEST ===').pipe(
+        Effect.annotateLogs({
+          token_type_hint: req.body?.token_type_hint,
+          client_id: req.body?.client_id,
+          has_token: !!req.body?.token,
+          ip: req.ip,
+          timestamp: new Date().toISOString(),
+        })
+      )
+
+      // Step 1: Authenticate the client with the method it is registered with in Hydra
+      const client = yield* authenticateClient(
+        parseClientAuthentication(req.headers.authorization, req.body),
+        config
+      )
+
+      // Step 2: Revoke the token if it belongs to the client
+      const revocationRequest = yield* validateSchema(RevocationRequestSchema, {
+        ...req.body,
+        client_id: client.client_id,
+      })
+      yield* processRevocation(revocationRequest, config)
+    }).pipe(Effect.provide(serviceLayer))
+
+    const result = await Effect.runPromise(Effect.either(program))
+
+    if (result._tag === 'Left') {
+      const { status, body } = mapErrorToOAuth2(result.left)
+
+      await Effect.runPromise(
+        Effect.logError('=== REVOCATION ENDPOINT ERROR ===').pipe(
+          Effect.annotateLogs({
+            error_tag: result.left._tag,
+            error_details: result.left,
+            status,
+            response_body: body,
+            client_id: req.body?.client_id,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="revocation"')
+      }
+      res.status(status).json(body)
+    } else {
+      res.status(200).end()
+    }
+  }
+}
+
+/**
+ * Token introspection handler (RFC 7662)
+ * Only the configured resource server may introspect, with HTTP Basic or
+ * client_id/client_secret in the body
+ */
+export const createIntrospectionHandler = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP | JWTService>,
+  config: TokenConfig
+) => {
+  return async (req: express.Request, res: express.Response) => {
+    const program = Effect.gen(function* () {
+      const credentials = getClientCredentials(req)
+
+      yield* Effect.logInfo('=== INTROSPECTION ENDPOINT REQUEST ===').pipe(
+        Effect.annotateLogs({
+          token_type_hint: req.body?.token_type_hint,
+          caller: credentials?.clientId,
+          ip: req.ip,
+          timestamp: new Date().toISOString(),
+        })
+      )
+
+      // Step 1: Authenticate the resource server
+      yield* validateClientCredentials(config.introspection, credentials)
+
+      // Step 2: Validate request and introspect
+      const introspectionRequest = yield* validateSchema(IntrospectionRequestSchema, req.body)
+      return yield* processIntrospection(introspectionRequest)
+    }).pipe(Effect.provide(serviceLayer))
+
+    const result = await Effect.runPromise(Effect.either(program))
+
+    if (result._tag === 'Left') {
+      const { status, body } = mapErrorToOAuth2(result.left)
+
+      await Effect.runPromise(
+        Effect.logError('=== INTROSPECTION ENDPOINT ERROR ===').pipe(
+          Effect.annotateLogs({
+            error_tag: result.left._tag,
+            status,
+            response_body: body,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="introspection"')
+      }
+      res.status(status).json(body)
+    } else {
+      res.setHeader('Cache-Control', 'no-store')
+      res.json(result.right)
+    }
+  }
+}
+
 /**
  * Router factory (will be used when we have service layer available)
  */
-export const createTokenRouter = (serviceLayer: Layer.Layer<RedisService | GoogleOAuthService | JWTService>) => {
-  router.post('/token', createTokenHandler(serviceLayer))
+export const createTokenRouter = (
+  serviceLayer: Layer.Layer<RedisService | UpstreamIdP | JWTService | OAuth2ApiService>,
+  config: TokenConfig
+) => {
+  router.post('/token', createTokenHandler(serviceLayer, config))
+  router.post('/device/auth', createDeviceAuthorizationHandler(serviceLayer, config))
+  router.post('/revoke', createRevocationHandler(serviceLayer, config))
+  router.post('/introspect', createIntrospectionHandler(serviceLayer, config))
   return router
 }
 
@@ -1,15 +1,53 @@
 /**
  * Token validation endpoint for testing JWT tokens
  * GET /validate-token?token=<jwt> or with Authorization: Bearer <jwt> header
+ * With ?resource=<registered resource> failures carry the resource's WWW-Authenticate challenge
+ * Opaque access tokens are resolved instead, they have no header or JWKS to show
  */
 import { Router } from 'express'
 import { Effect, Layer } from 'effect'
 import { decodeJwt, decodeProtectedHeader } from 'jose'
-import axios from 'axios'
-import { JWTService, type JWKS } from '../fp/services/jwt.js'
 import { appConfig } from '../config.js'
+import { isOpaqueToken } from '../fp/services/access-token.js'
+import { JWTService, getJWKSUri, type JWKS, type JWTClaims } from '../fp/services/jwt.js'
+import { buildWWWAuthenticate } from '../fp/services/protected-resource.js'
+import { verifyAccessToken } from '../fp/services/revocation.js'
+import type { ProtectedResource } from '../fp/config.js'
 import type { Request, Response } from 'express'
 
+/**
+ * Summary of verified claims
+ */
+const describeClaims = (claims: JWTClaims) => {
+  const timeUntilExpiry = claims.exp - Math.floor(Date.now() / 1000)
+
+  return {
+    subject: claims.sub,
+    client_id: claims.client_id,
+    scopes: claims.scope,
+    jti: claims.jti,
+    issued_at: new Date(claims.iat * 1000).toISOString(),
+    expires_at: new Date(claims.exp * 1000).toISOString(),
+    time_until_expiry_seconds: timeUntilExpiry,
+    is_expired: timeUntilExpiry <= 0,
+  }
+}
+
+/**
+ * Challenge for a token the resource rejects
+ */
+const setInvalidTokenChallenge = (res: Response, resource: ProtectedResource | undefined) => {
+  if (resource) {
+    res.setHeader(
+      'WWW-Authenticate',
+      buildWWWAuthenticate(appConfig.hostName, resource, {
+        error: 'invalid_token',
+        errorDescription: 'Token verification failed',
+      })
+    )
+  }
+}
+
 export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
   const router = Router()
 
@@ -19,6 +57,11 @@ export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
    */
   router.get('/', async (req: Request, res: Response) => {
     try {
+      // Registered resource the token is presented to, if any
+      const resource = appConfig.protectedResources.find(
+        (entry) => entry.resource === req.query.resource
+      )
+
       // Get token from query parameter or Authorization header
       let token = req.query.token as string | undefined
 
@@ -30,12 +73,40 @@ export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
       }
 
       if (!token) {
+        if (resource) {
+          res.setHeader('WWW-Authenticate', buildWWWAuthenticate(appConfig.hostName, resource))
+        }
         return res.status(400).json({
           error: 'No token provided',
           message: 'Provide token via ?token=<jwt> or Authorization: Bearer <jwt> header',
         })
       }
 
+      // Opaque tokens: resolve the handle, revoked tokens are rejected
+      if (isOpaqueToken(token)) {
+        try {
+          const claims = await Effect.runPromise(
+            Effect.provide(verifyAccessToken(token), serviceLayer)
+          )
+
+          return res.json({
+            valid: true,
+            format: 'opaque',
+            claims,
+            validation: describeClaims(claims),
+          })
+        } catch (error) {
+          setInvalidTokenChallenge(res, resource)
+          return res.status(401).json({
+            valid: false,
+            format: 'opaque',
+            error: 'Token verification failed',
+            message: String(error),
+            possible_reasons: ['Token is unknown or expired', 'Token was revoked'],
+          })
+        }
+      }
+
       // Decode token header and payload (without verification)
       let header: any
       let payload: any
@@ -51,15 +122,21 @@ export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
         })
       }
 
-      // Fetch JWKS based on configured provider
-      const jwksUrl = appConfig.jwtProvider === 'google'
-        ? 'https://www.googleapis.com/oauth2/v3/certs'
-        : `${appConfig.hydraPublicUrl}/.well-known/jwks.json`
+      // JWKS of the configured provider, from the process-wide cache
+      const jwksUrl = getJWKSUri({
+        provider: appConfig.jwtProvider,
+        hydraPublicUrl: appConfig.hydraPublicUrl,
+        baseUrl: appConfig.hostName,
+      })
 
       let jwks: JWKS
       try {
-        const response = await axios.get<JWKS>(jwksUrl)
-        jwks = response.data
+        jwks = await Effect.runPromise(
+          Effect.provide(
+            Effect.flatMap(JWTService, (jwt) => jwt.getJWKS()),
+            serviceLayer
+          )
+        )
       } catch (error) {
         return res.status(500).json({
           error: 'Failed to fetch JWKS',
@@ -68,21 +145,14 @@ export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
         })
       }
 
-      // Verify token using JWT service
-      const program = Effect.gen(function* () {
-        const jwt = yield* JWTService
-        const verifiedClaims = yield* jwt.verify(token)
-        return verifiedClaims
-      })
+      // Verify token using JWT service, revoked tokens are rejected
+      const program = verifyAccessToken(token)
 
       try {
         const verifiedClaims = await Effect.runPromise(
           Effect.provide(program, serviceLayer)
         )
 
-        const now = Math.floor(Date.now() / 1000)
-        const timeUntilExpiry = verifiedClaims.exp - now
-
         return res.json({
           valid: true,
           provider: appConfig.jwtProvider,
@@ -100,17 +170,11 @@ export const createValidateTokenRouter = (serviceLayer: Layer.Layer<any>) => {
           validation: {
             kid: header.kid,
             kid_found_in_jwks: jwks.keys.some((k) => k.kid === header.kid),
-            subject: verifiedClaims.sub,
-            client_id: verifiedClaims.client_id,
-            scopes: verifiedClaims.scope,
-            jti: verifiedClaims.jti,
-            issued_at: new Date(verifiedClaims.iat * 1000).toISOString(),
-            expires_at: new Date(verifiedClaims.exp * 1000).toISOString(),
-            time_until_expiry_seconds: timeUntilExpiry,
-            is_expired: timeUntilExpiry <= 0,
+            ...describeClaims(verifiedClaims),
           },
         })
       } catch (error) {
+        setInvalidTokenChallenge(res, resource)
         return res.status(401).json({
           valid: false,
           provider: appConfig.jwtProvider,
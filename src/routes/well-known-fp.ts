@@ -0,0 +1,128 @@
+/**
+ * Functional well-known routes using Effect
+ *
+ * Serves the authorization server metadata (RFC 8414) that MCP clients discover
+ * endpoints from. The same document answers OpenID Connect discovery.
+ * Also serves the protected resource metadata (RFC 9728) of registered resource servers,
+ * and the JWKS our access tokens are verified with.
+ */
+import { Effect } from 'effect'
+import express from 'express'
+import { createOAuth2Error } from '../fp/domain.js'
+import { JWTService } from '../fp/services/jwt.js'
+import { type MetadataConfig, makeMetadataSource } from '../fp/services/metadata.js'
+import {
+  type ProtectedResourceConfig,
+  buildProtectedResourceMetadata,
+  findProtectedResource,
+} from '../fp/services/protected-resource.js'
+import type { Layer } from 'effect'
+
+const router = express.Router()
+
+/**
+ * GET /.well-known/oauth-authorization-server and /.well-known/openid-configuration
+ */
+const createMetadataHandler = (
+  serviceLayer: Layer.Layer<JWTService>,
+  metadata: ReturnType<typeof makeMetadataSource>
+) => {
+  return async (req: express.Request, res: express.Response) => {
+    const result = await Effect.runPromise(Effect.either(metadata.getMetadata()))
+
+    if (result._tag === 'Left') {
+      await Effect.runPromise(
+        Effect.logError('=== METADATA ERROR ===').pipe(
+          Effect.annotateLogs({
+            path: req.path,
+            error_tag: result.left._tag,
+            error_details: result.left,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+
+      res
+        .status(503)
+        .json(createOAuth2Error('temporarily_unavailable', 'Metadata is not available'))
+      return
+    }
+
+    res.set('Cache-Control', 'public, max-age=300')
+    res.json(result.right)
+  }
+}
+
+/**
+ * GET /.well-known/oauth-protected-resource[/<resource path>]
+ */
+const createProtectedResourceHandler = (config: ProtectedResourceConfig) => {
+  return (req: express.Request, res: express.Response) => {
+    const resource = findProtectedResource(config.resources, req.path)
+
+    if (!resource) {
+      res.status(404).json({ error: 'not_found', error_description: 'Unknown protected resource' })
+      return
+    }
+
+    res.set('Cache-Control', 'public, max-age=300')
+    res.json(buildProtectedResourceMetadata(resource, config))
+  }
+}
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys of the local key store, or of the provider our tokens are signed by
+ */
+const createJWKSHandler = (serviceLayer: Layer.Layer<JWTService>) => {
+  return async (_req: express.Request, res: express.Response) => {
+    const program = Effect.gen(function* () {
+      const jwt = yield* JWTService
+      return yield* jwt.getJWKS()
+    }).pipe(Effect.provide(serviceLayer))
+
+    const result = await Effect.runPromise(Effect.either(program))
+
+    if (result._tag === 'Left') {
+      await Effect.runPromise(
+        Effect.logError('=== JWKS ERROR ===').pipe(
+          Effect.annotateLogs({
+            error_tag: result.left._tag,
+            error_details: result.left,
+            timestamp: new Date().toISOString(),
+          }),
+          Effect.provide(serviceLayer)
+        )
+      )
+
+      res.status(503).json(createOAuth2Error('temporarily_unavailable', 'JWKS is not available'))
+      return
+    }
+
+    res.set('Cache-Control', 'public, max-age=300')
+    res.json(result.right)
+  }
+}
+
+/**
+ * Router factory
+ */
+export const createWellKnownRouter = (
+  serviceLayer: Layer.Layer<JWTService>,
+  config: MetadataConfig,
+  resourceConfig: ProtectedResourceConfig
+) => {
+  const handler = createMetadataHandler(serviceLayer, makeMetadataSource(config))
+
+  router.get('/.well-known/oauth-authorization-server', handler)
+  router.get('/.well-known/openid-configuration', handler)
+  router.get('/.well-known/jwks.json', createJWKSHandler(serviceLayer))
+  router.get(
+    /^\/\.well-known\/oauth-protected-resource(\/.*)?$/,
+    createProtectedResourceHandler(resourceConfig)
+  )
+  return router
+}
+
+export default router
@@ -80,6 +80,7 @@ const proxyOptions = {
         code_challenge,
         code_challenge_method,
         scope,
+        resource,
       } = req.query
 
       // Only store PKCE state if we have the required parameters
@@ -93,6 +94,7 @@ const proxyOptions = {
           redirect_uri: String(redirect_uri ?? ''),
           client_id: String(client_id ?? ''),
           timestamp: Date.now(),
+          resource: resource !== undefined ? String(resource) : undefined,
         }
 
         // Store PKCE state in Redis using Effect with RedisService
@@ -171,7 +173,7 @@ const enhancedProxyMiddleware = (req: Request, res: Response, next: NextFunction
       timestamp: new Date().toISOString(),
     })
 
-    const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method, scope, state } = req.query
+    const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method, scope, state, resource } = req.query
 
     // Fatal validation errors that should return 400
     const missingParams: string[] = []
@@ -205,6 +207,22 @@ const enhancedProxyMiddleware = (req: Request, res: Response, next: NextFunction
       })
     }
 
+    // A requested resource must be one registered protected resource (RFC 8707)
+    if (
+      resource !== undefined &&
+      !appConfig.protectedResources.some((entry) => entry.resource === resource)
+    ) {
+      syncLogger.error('=== OAUTH2 AUTH ERROR: Invalid Resource ===', {
+        resource,
+        query: req.query,
+        timestamp: new Date().toISOString(),
+      })
+      return res.status(400).json({
+        error: 'invalid_target',
+        error_description: 'resource must be a single registered protected resource',
+      })
+    }
+
     // Log PKCE parameters
     syncLogger.info('OAUTH2 AUTH: PKCE Parameters', {
       has_code_challenge: !!code_challenge,
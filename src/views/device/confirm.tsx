@@ -0,0 +1,67 @@
+import Html from '@kitajs/html'
+import { Layout } from '../components/Layout.js'
+
+/**
+ * OAuth2 Device Authorization Flow - RFC 8628 §5.4
+ *
+ * Shown once the user code is found, before the user logs in upstream.
+ * The user checks which client started the authorization and the scope it
+ * asked for, so a code phished from another device isn't approved blindly.
+ *
+ * @see src/routes/device.ts - Device flow handlers
+ */
+export interface DeviceConfirmProps {
+  /** POST endpoint for the approve/deny decision */
+  action: string
+  /** XSRF token header name for CSRF protection */
+  envXsrfToken: string
+  /** CSRF token value */
+  csrfToken: string
+  /** User code the decision applies to */
+  userCode: string
+  /** Client that started the authorization, its name when it registered one */
+  clientId: string
+  clientName?: string
+  /** OAuth2 scopes requested by the device */
+  scope?: string[]
+}
+
+export function DeviceConfirm({
+  action,
+  envXsrfToken,
+  csrfToken,
+  userCode,
+  clientId,
+  clientName,
+  scope = [],
+}: DeviceConfirmProps): string {
+  return Layout({
+    title: 'Authorize Device',
+    children: (
+      <>
+        <h1>Authorize Device</h1>
+        <p>
+          The application <strong safe>{clientName ?? clientId}</strong> is asking to sign in
+          on your device. The following permissions are requested:
+        </p>
+
+        {scope.length > 0 && (
+          <ul id="scopes">
+            {scope.map((item) => (
+              <li safe>{item}</li>
+            ))}
+          </ul>
+        )}
+
+        <p>Only continue if you started this sign-in and the code matches your device.</p>
+
+        <form action={action} method="POST">
+          <input type="hidden" name={envXsrfToken} value={csrfToken} />
+          <input type="hidden" name="user_code" value={userCode} />
+          <input type="submit" id="accept" name="submit" value="Allow access" />
+          <input type="submit" id="reject" name="submit" value="Deny access" />
+        </form>
+      </>
+    ),
+  })
+}
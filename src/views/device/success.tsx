@@ -2,17 +2,19 @@ import Html from '@kitajs/html'
 import { Layout } from '../components/Layout.js'
 
 export interface DeviceSuccessProps {
+  heading?: string
   message?: string
 }
 
 export function DeviceSuccess({
+  heading = 'Success!',
   message = 'Device verified successfully!',
 }: DeviceSuccessProps): string {
   return Layout({
     title: 'Verification Successful',
     children: (
       <>
-        <h1>Success!</h1>
+        <h1>{heading}</h1>
         <p>{message}</p>
         <p>You may now close this window and return to your device.</p>
       </>
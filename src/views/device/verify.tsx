@@ -9,16 +9,16 @@ import { Layout } from '../components/Layout.js'
  * capabilities (smart TVs, IoT devices, CLI tools).
  *
  * Flow Context:
- * 1. Device obtains device_code and user_code from Hydra
+ * 1. Device obtains device_code and user_code from /oauth2/device/auth
  * 2. Device displays user_code and verification URL to user
  * 3. User navigates to this page on a separate device (phone/computer)
  * 4. User enters user_code to authorize the device
- * 5. Device polls Hydra for access token
+ * 5. Device polls /oauth2/token for access token
  *
  * Bridge Architecture:
- * - Hydra provides OAuth2 server with device flow support
- * - This page verifies user_code and initiates Google OAuth authentication
- * - Upon success, Hydra issues tokens to the original device
+ * - This page verifies user_code and initiates upstream authentication
+ * - The upstream callback approves the device with the user's upstream login
+ * - Upon success, the token endpoint issues tokens to the original device
  *
  * @see https://datatracker.ietf.org/doc/html/rfc8628
  * @see src/routes/device.ts - Device flow handlers
@@ -30,8 +30,6 @@ export interface DeviceVerifyProps {
   envXsrfToken: string
   /** CSRF token value */
   csrfToken: string
-  /** Hydra's device challenge identifying this flow */
-  challenge: string
   /** Error message if verification failed */
   error?: string
   /** Pre-filled user code from URL (e.g., from QR code scan) */
@@ -25,7 +25,7 @@ import { Layout } from './components/Layout.js'
  * @see src/app-fp.ts - Error handler middleware
  */
 export interface ErrorProps {
-  /** User-friendly error message */
+  /** User-friendly error message, escaped as it may echo request input */
   message: string
   /** Stack trace (only shown in development environment) */
   stack?: string
@@ -37,10 +37,10 @@ export function ErrorPage({ message, stack }: ErrorProps): string {
     children: (
       <>
         <h1>An error occurred</h1>
-        <h2>{message}</h2>
+        <h2 safe>{message}</h2>
         {stack && (
           <pre>
-            <code>{stack}</code>
+            <code safe>{stack}</code>
           </pre>
         )}
       </>
@@ -20,6 +20,9 @@ export type { IndexProps } from './landing.js'
 export { DeviceVerify } from './device/verify.js'
 export type { DeviceVerifyProps } from './device/verify.js'
 
+export { DeviceConfirm } from './device/confirm.js'
+export type { DeviceConfirmProps } from './device/confirm.js'
+
 export { DeviceSuccess } from './device/success.js'
 export type { DeviceSuccessProps } from './device/success.js'
 
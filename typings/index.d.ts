@@ -7,5 +7,6 @@ declare module "express-session" {
     codeChallenge?: string | undefined
     codeChallengeMethod: string | undefined
     pkceKey: string | undefined
+    deviceState?: string | undefined
   }
 }